@@ -0,0 +1,13 @@
+import { getDeepLinkRoute, parseDeepLink } from '../src/navigation/deep-links';
+
+/**
+ * Rewrites known deep links to the route they open, other paths are left untouched
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    const link = parseDeepLink(path);
+    return link ? getDeepLinkRoute(link) : path;
+  } catch {
+    return path;
+  }
+}
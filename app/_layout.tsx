@@ -1,93 +1,48 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { Stack } from 'expo-router';
 import { AuthProvider } from '../src/features/public/authentication/components';
 import AuthGuard from '../src/navigation/AuthGuard';
-import { View, ActivityIndicator, StyleSheet, Platform, Text } from 'react-native';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { colors } from '../src/theme';
-import * as SplashScreen from 'expo-splash-screen';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Keep the splash screen visible while we initialize
-SplashScreen.preventAutoHideAsync().catch(() => {
-  /* Ignore errors as they just mean the splash screen has already been hidden */
-});
-
-// Test AsyncStorage accessibility
-const testAsyncStorage = async (): Promise<boolean> => {
-  const TEST_KEY = '@PhysiPro:test';
-  try {
-    // Try to set and get a test key
-    await AsyncStorage.setItem(TEST_KEY, 'test');
-    const value = await AsyncStorage.getItem(TEST_KEY);
-    
-    // Clean up test key regardless of result
-    await AsyncStorage.removeItem(TEST_KEY);
-    
-    return value === 'test';
-  } catch (error) {
-    console.error('AsyncStorage test failed:', error);
-    
-    // Try to clean up even on error
-    try {
-      await AsyncStorage.removeItem(TEST_KEY);
-    } catch {
-      // Ignore cleanup errors
-    }
-    
-    return false;
-  }
-};
+import {
+  APP_BOOTSTRAP_TASKS,
+  SESSION_STORAGE_KEYS,
+  getBootstrapDiagnostics,
+  getMigrationError,
+  useBootstrap,
+} from '../src/bootstrap';
+import { MigrationErrorScreen, StartupErrorScreen, StorageErrorScreen } from '../src/shared/components';
 
 export default function RootLayout() {
-  const [appIsReady, setAppIsReady] = useState(false);
-  const [asyncStorageError, setAsyncStorageError] = useState(false);
+  const { isReady, isRunning, report, failedTask, error, retry } = useBootstrap(APP_BOOTSTRAP_TASKS);
   
-  useEffect(() => {
-    // Prepare the app
-    async function prepare() {
-      try {
-        // Test if AsyncStorage is accessible
-        const asyncStorageWorks = await testAsyncStorage();
-        if (!asyncStorageWorks) {
-          setAsyncStorageError(true);
-          console.error('AsyncStorage test failed. AsyncStorage might not be working properly.');
-        }
-        
-        // Wait for a moment to ensure AsyncStorage is fully initialized
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (e) {
-        console.warn('Error during app preparation:', e);
-      } finally {
-        // Tell the application to render
-        setAppIsReady(true);
-        
-        // Hide the splash screen
-        SplashScreen.hideAsync().catch(console.warn);
-      }
-    }
-
-    prepare();
-  }, []);
-
-  if (!appIsReady) {
+  const migrationError = getMigrationError(report);
+  
+  if (error) {
+    return <StartupErrorScreen error={error} onRetry={retry} isRetrying={isRunning} />;
+  }
+  
+  if (migrationError) {
+    return <MigrationErrorScreen error={migrationError} onRetry={retry} isRetrying={isRunning} />;
+  }
+  
+  // Storage is the only other task the app can't start without
+  if (failedTask) {
     return (
-      <View style={styles.container}>
-        <ActivityIndicator size="large" color={colors.primary.default} />
-      </View>
+      <StorageErrorScreen
+        error={failedTask.error}
+        onRetry={retry}
+        isRetrying={isRunning}
+        sessionKeys={SESSION_STORAGE_KEYS}
+        diagnostics={{ bootstrap: getBootstrapDiagnostics(report) }}
+      />
     );
   }
   
-  if (asyncStorageError) {
+  if (!isReady) {
     return (
-      <View style={styles.errorContainer}>
-        <Text style={styles.errorTitle}>Storage Error</Text>
-        <Text style={styles.errorMessage}>
-          There was a problem initializing the app's storage.{'\n'}
-          Please try restarting the app or reinstalling it.
-        </Text>
-        <Text style={styles.errorDetail}>
-          Error: AsyncStorage failed initialization test
-        </Text>
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={colors.primary.default} />
       </View>
     );
   }
@@ -105,11 +60,14 @@ export default function RootLayout() {
           <Stack.Screen name="login" options={{ title: 'Login' }} />
           <Stack.Screen name="forgot-password" options={{ title: 'Recuperar Senha' }} />
           <Stack.Screen name="register" options={{ title: 'Cadastro' }} />
+          <Stack.Screen name="invite" options={{ title: 'Convite' }} />
           
           {/* Define role-based routes */}
           <Stack.Screen name="admin" options={{ title: 'Admin', headerShown: false }} />
           <Stack.Screen name="trainer" options={{ title: 'Trainer', headerShown: false }} />
           <Stack.Screen name="student" options={{ title: 'Student', headerShown: false }} />
+          <Stack.Screen name="receptionist" options={{ title: 'Receptionist', headerShown: false }} />
+          <Stack.Screen name="guardian" options={{ title: 'Guardian', headerShown: false }} />
         </Stack>
       </AuthGuard>
     </AuthProvider>
@@ -123,27 +81,4 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: colors.background.light,
   },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 20,
-    backgroundColor: colors.background.light,
-  },
-  errorTitle: {
-    fontSize: 22,
-    fontWeight: 'bold',
-    color: colors.feedback.error,
-    marginBottom: 10,
-  },
-  errorMessage: {
-    fontSize: 16,
-    textAlign: 'center',
-    marginBottom: 20,
-    color: colors.text.primary,
-  },
-  errorDetail: {
-    fontSize: 14,
-    color: colors.text.secondary,
-  },
 });
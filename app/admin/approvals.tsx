@@ -0,0 +1,6 @@
+import React from 'react';
+import { PendingApprovalsScreen } from '../../src/features/protected/admin/screens';
+
+export default function AdminApprovals() {
+  return <PendingApprovalsScreen />;
+}
\ No newline at end of file
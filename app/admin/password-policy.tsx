@@ -0,0 +1,6 @@
+import React from 'react';
+import { PasswordPolicyScreen } from '../../src/features/protected/admin/screens';
+
+export default function AdminPasswordPolicy() {
+  return <PasswordPolicyScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import TwoFactorSetupScreen from '../../src/features/public/authentication/screens/TwoFactorSetupScreen';
+
+export default function TwoFactorSetup() {
+  return <TwoFactorSetupScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import { ViewAsUserScreen } from '../../src/features/protected/admin/screens';
+
+export default function AdminViewAsUser() {
+  return <ViewAsUserScreen />;
+}
@@ -0,0 +1,13 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+
+export default function ForgotPasswordLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        animation: 'slide_from_right',
+      }}
+    />
+  );
+}
\ No newline at end of file
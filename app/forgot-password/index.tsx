@@ -0,0 +1,6 @@
+import React from 'react';
+import ForgotPasswordScreen from '../../src/features/public/authentication/screens/ForgotPasswordScreen';
+
+export default function ForgotPassword() {
+  return <ForgotPasswordScreen />;
+}
\ No newline at end of file
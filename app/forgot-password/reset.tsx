@@ -0,0 +1,6 @@
+import React from 'react';
+import ResetPasswordScreen from '../../src/features/public/authentication/screens/ResetPasswordScreen';
+
+export default function ResetPassword() {
+  return <ResetPasswordScreen />;
+}
\ No newline at end of file
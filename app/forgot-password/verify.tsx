@@ -0,0 +1,6 @@
+import React from 'react';
+import VerifyResetCodeScreen from '../../src/features/public/authentication/screens/VerifyResetCodeScreen';
+
+export default function VerifyResetCode() {
+  return <VerifyResetCodeScreen />;
+}
\ No newline at end of file
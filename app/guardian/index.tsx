@@ -0,0 +1,6 @@
+import React from 'react';
+import { GuardianHomeScreen } from '../../src/features/protected/guardian/screens';
+
+export default function GuardianHome() {
+  return <GuardianHomeScreen />;
+}
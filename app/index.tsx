@@ -30,6 +30,10 @@ export default function Index() {
         return <Redirect href="/trainer" />;
       case UserType.STUDENT:
         return <Redirect href="/student" />;
+      case UserType.RECEPTIONIST:
+        return <Redirect href="/receptionist" />;
+      case UserType.GUARDIAN:
+        return <Redirect href="/guardian" />;
       default:
         // Fallback to login if role is unknown
         return <Redirect href="/login" />;
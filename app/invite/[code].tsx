@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import InviteOnboardingScreen from '../../src/features/public/authentication/screens/InviteOnboardingScreen';
+
+export default function InviteOnboarding() {
+  const { code } = useLocalSearchParams<{ code: string }>();
+  return <InviteOnboardingScreen initialCode={code} />;
+}
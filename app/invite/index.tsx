@@ -0,0 +1,6 @@
+import React from 'react';
+import InviteOnboardingScreen from '../../src/features/public/authentication/screens/InviteOnboardingScreen';
+
+export default function InviteCodeEntry() {
+  return <InviteOnboardingScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import { ReceptionistHomeScreen } from '../../src/features/protected/receptionist/screens';
+
+export default function ReceptionistHome() {
+  return <ReceptionistHomeScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import RegisterScreen from '../src/features/public/authentication/screens/RegisterScreen';
+
+export default function Register() {
+  return <RegisterScreen />;
+}
\ No newline at end of file
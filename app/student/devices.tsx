@@ -0,0 +1,6 @@
+import React from 'react';
+import DeviceSessionsScreen from '../../src/features/public/authentication/screens/DeviceSessionsScreen';
+
+export default function DeviceSessions() {
+  return <DeviceSessionsScreen />;
+}
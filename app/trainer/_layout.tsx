@@ -1,7 +1,11 @@
 import React from 'react';
 import { Stack } from 'expo-router';
+import { useAutoSync } from '../../src/features/protected/sync/hooks/useAutoSync';
 
 export default function TrainerLayout() {
+  // Trainers often work with poor signal, their changes are kept on the device until they reach the server
+  useAutoSync();
+  
   return (
     <Stack
       screenOptions={{
@@ -0,0 +1,6 @@
+import React from 'react';
+import { InvitesScreen } from '../../src/features/protected/trainer/screens';
+
+export default function TrainerInvites() {
+  return <InvitesScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import { SyncConflictsScreen } from '../../src/features/protected/sync/screens';
+
+export default function SyncConflicts() {
+  return <SyncConflictsScreen />;
+}
@@ -0,0 +1,5 @@
+export { runBootstrap, TaskTimeoutError } from './pipeline';
+export type { BootstrapReport, BootstrapTask, TaskReport, TaskStatus } from './pipeline';
+export { APP_BOOTSTRAP_TASKS } from './tasks';
+export { useBootstrap } from './useBootstrap';
+export { SESSION_STORAGE_KEYS, getBootstrapDiagnostics, getMigrationError } from './recovery';
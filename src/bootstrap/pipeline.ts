@@ -0,0 +1,157 @@
+// Defaults for tasks that don't set their own limits
+const DEFAULT_TASK_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export interface BootstrapTask {
+  name: string;
+  // Tasks that must have succeeded before this one starts
+  dependsOn?: string[];
+  run: () => Promise<void>;
+  timeoutMs?: number;
+  // Extra attempts after a failure, waiting a little longer before each one
+  retries?: number;
+  // A failed optional task is reported but doesn't stop the app from starting
+  optional?: boolean;
+}
+
+export type TaskStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface TaskReport {
+  name: string;
+  status: TaskStatus;
+  attempts: number;
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface BootstrapReport {
+  tasks: TaskReport[];
+  durationMs: number;
+  // First required task that failed, the app can't start while it is set
+  failedTask: TaskReport | null;
+}
+
+/**
+ * Error raised when a task takes longer than its timeout
+ * The task itself keeps running in the background, it is only no longer waited for
+ */
+export class TaskTimeoutError extends Error {
+  constructor(taskName: string, timeoutMs: number) {
+    super(`Startup task "${taskName}" timed out after ${timeoutMs} ms`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, taskName: string): Promise<T> => {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new TaskTimeoutError(taskName, timeoutMs)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+};
+
+/**
+ * Checks every dependency exists and that there are no cycles, so the pipeline can't wait forever
+ */
+const validateTasks = (tasks: BootstrapTask[]) => {
+  const tasksByName = new Map(tasks.map(task => [task.name, task]));
+  if (tasksByName.size !== tasks.length) throw new Error('Startup task names must be unique');
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (task: BootstrapTask) => {
+    if (visited.has(task.name)) return;
+    if (visiting.has(task.name)) throw new Error(`Startup task "${task.name}" depends on itself`);
+
+    visiting.add(task.name);
+    (task.dependsOn ?? []).forEach(dependency => {
+      const dependencyTask = tasksByName.get(dependency);
+      if (!dependencyTask) throw new Error(`Startup task "${task.name}" depends on unknown task "${dependency}"`);
+      visit(dependencyTask);
+    });
+    visiting.delete(task.name);
+    visited.add(task.name);
+  };
+
+  tasks.forEach(visit);
+};
+
+/**
+ * Runs a task, retrying it while attempts are left
+ */
+const runTask = async (task: BootstrapTask): Promise<TaskReport> => {
+  const maxAttempts = (task.retries ?? 0) + 1;
+  const startedAt = Date.now();
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      await withTimeout(task.run(), task.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS, task.name);
+      return { name: task.name, status: 'succeeded', attempts: attempt, durationMs: Date.now() - startedAt };
+    } catch (error) {
+      lastError = error;
+      console.warn(`Startup task "${task.name}" failed (attempt ${attempt} of ${maxAttempts}):`, error);
+
+      if (attempt < maxAttempts) {
+        await wait(DEFAULT_RETRY_DELAY_MS * attempt);
+      }
+    }
+  }
+
+  return {
+    name: task.name,
+    status: 'failed',
+    attempts: maxAttempts,
+    durationMs: Date.now() - startedAt,
+    error: lastError,
+  };
+};
+
+/**
+ * Runs the startup tasks, each one as soon as its dependencies succeeded
+ * Independent tasks run in parallel; tasks depending on a failed one are skipped
+ */
+export const runBootstrap = async (tasks: BootstrapTask[]): Promise<BootstrapReport> => {
+  validateTasks(tasks);
+
+  const startedAt = Date.now();
+  const tasksByName = new Map(tasks.map(task => [task.name, task]));
+  const reports = new Map<string, Promise<TaskReport>>();
+
+  const getReport = (task: BootstrapTask): Promise<TaskReport> => {
+    const existingReport = reports.get(task.name);
+    if (existingReport) return existingReport;
+
+    const report = (async (): Promise<TaskReport> => {
+      const dependencyReports = await Promise.all(
+        (task.dependsOn ?? []).map(dependency => getReport(tasksByName.get(dependency) as BootstrapTask)),
+      );
+
+      if (dependencyReports.some(dependencyReport => dependencyReport.status !== 'succeeded')) {
+        return { name: task.name, status: 'skipped', attempts: 0, durationMs: 0 };
+      }
+
+      return runTask(task);
+    })();
+
+    reports.set(task.name, report);
+    return report;
+  };
+
+  const taskReports = await Promise.all(tasks.map(getReport));
+  const failedTask = taskReports.find(
+    report => report.status === 'failed' && !tasksByName.get(report.name)?.optional,
+  ) ?? null;
+  const durationMs = Date.now() - startedAt;
+
+  console.info(
+    `App bootstrap finished in ${durationMs} ms:`,
+    taskReports.map(report => `${report.name} ${report.status} (${report.durationMs} ms)`).join(', '),
+  );
+
+  return { tasks: taskReports, durationMs, failedTask };
+};
@@ -0,0 +1,51 @@
+import { AUTH_DATA_KEYS } from '../features/public/authentication/services/auth-service';
+import { APP_LOCK_KEY } from '../features/public/authentication/services/app-lock-service';
+import { LOGIN_THROTTLE_KEY } from '../features/public/authentication/services/login-throttle';
+import { MigrationError } from '../shared/storage';
+import { BootstrapReport, TaskTimeoutError } from './pipeline';
+import { MIGRATIONS_TASK_NAME } from './tasks';
+
+/**
+ * Keys kept when the user clears cached data from the storage error screen, so they stay signed in
+ */
+export const SESSION_STORAGE_KEYS = [
+  ...AUTH_DATA_KEYS,
+  APP_LOCK_KEY,
+  // Clearing the counters would lift a login lockout
+  LOGIN_THROTTLE_KEY,
+  // The mock backend keeps its server-side data (users, sessions) on the device
+  '@PhysiPro:mock:',
+  // Synced collections and their outbox may hold changes that never reached the server
+  '@PhysiPro:sync:',
+];
+
+/**
+ * Get the migration failure that stopped the app from starting, if any
+ * A migrations task that timed out is still updating the data, so it is a migration failure rather than a storage one
+ */
+export const getMigrationError = (report: BootstrapReport | null): MigrationError | null => {
+  const failedTask = report?.failedTask;
+  if (!failedTask) return null;
+
+  if (failedTask.error instanceof MigrationError) return failedTask.error;
+  if (failedTask.name === MIGRATIONS_TASK_NAME && failedTask.error instanceof TaskTimeoutError) {
+    return new MigrationError(null, failedTask.error);
+  }
+
+  return null;
+};
+
+/**
+ * Summarizes a bootstrap run for the diagnostic report, keeping only the error messages
+ */
+export const getBootstrapDiagnostics = (report: BootstrapReport | null) => {
+  if (!report) return null;
+
+  return {
+    durationMs: report.durationMs,
+    tasks: report.tasks.map(({ error, ...task }) => ({
+      ...task,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    })),
+  };
+};
@@ -0,0 +1,57 @@
+import * as Font from 'expo-font';
+import { Ionicons } from '@expo/vector-icons';
+import * as AuthService from '../features/public/authentication/services/auth-service';
+import { checkStorage, runStorageMigrations } from '../shared/storage';
+import { BootstrapTask } from './pipeline';
+
+export const MIGRATIONS_TASK_NAME = 'migrations';
+
+/**
+ * Everything the app needs before its first screen, in dependency order
+ */
+export const APP_BOOTSTRAP_TASKS: BootstrapTask[] = [
+  {
+    name: 'storage',
+    run: checkStorage,
+    timeoutMs: 5000,
+    retries: 2,
+  },
+  {
+    // Migrations run before anything reads the stored data
+    name: MIGRATIONS_TASK_NAME,
+    dependsOn: ['storage'],
+    run: async () => {
+      await runStorageMigrations(AuthService.AUTH_STORAGE_MIGRATIONS);
+    },
+    timeoutMs: 30 * 1000,
+  },
+  {
+    // Icons fall back to empty boxes until their font is loaded
+    name: 'fonts',
+    run: () => Font.loadAsync(Ionicons.font),
+    timeoutMs: 5000,
+    retries: 1,
+    optional: true,
+  },
+  {
+    // When it fails the auth hook restores the session again itself
+    name: 'auth',
+    dependsOn: [MIGRATIONS_TASK_NAME],
+    run: async () => {
+      await AuthService.prefetchSessionRestore();
+    },
+    timeoutMs: 20 * 1000,
+    retries: 1,
+    optional: true,
+  },
+  {
+    // Server-side settings the first screens rely on, the defaults are used when offline
+    name: 'config',
+    dependsOn: ['storage'],
+    run: async () => {
+      await AuthService.getPasswordPolicy();
+    },
+    timeoutMs: 5000,
+    optional: true,
+  },
+];
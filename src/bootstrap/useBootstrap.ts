@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as SplashScreen from 'expo-splash-screen';
+import { BootstrapReport, BootstrapTask, runBootstrap } from './pipeline';
+
+// Keep the splash screen visible while the app starts
+SplashScreen.preventAutoHideAsync().catch(() => {
+  /* Ignore errors as they just mean the splash screen has already been hidden */
+});
+
+/**
+ * Runs the startup tasks and hides the splash screen as soon as they are done
+ * The tasks must be a stable array, e.g. a module constant
+ */
+export const useBootstrap = (tasks: BootstrapTask[]) => {
+  const [isRunning, setIsRunning] = useState(true);
+  const [report, setReport] = useState<BootstrapReport | null>(null);
+  // Set when the tasks could not be run at all, e.g. a dependency on an unknown task
+  const [error, setError] = useState<unknown>(null);
+  
+  const run = useCallback(async () => {
+    setIsRunning(true);
+    setError(null);
+    
+    try {
+      setReport(await runBootstrap(tasks));
+    } catch (bootstrapError) {
+      // Only an invalid task list gets here, the report of a previous run no longer applies
+      console.error('Error during app bootstrap:', bootstrapError);
+      setReport(null);
+      setError(bootstrapError);
+    } finally {
+      setIsRunning(false);
+      SplashScreen.hideAsync().catch(console.warn);
+    }
+  }, [tasks]);
+  
+  useEffect(() => {
+    run();
+  }, [run]);
+  
+  return {
+    isReady: !isRunning && report !== null && report.failedTask === null,
+    isRunning,
+    report,
+    failedTask: report?.failedTask ?? null,
+    error,
+    retry: run,
+  };
+};
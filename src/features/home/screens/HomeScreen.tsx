@@ -2,7 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Image, ScrollView, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthContext } from '../../authentication/components/AuthProvider';
+import { useAuthContext } from '../../public/authentication/components/AuthProvider';
 import { colors, spacing, typography } from '../../../theme';
 import { Button } from '../../../shared/components';
 
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { PasswordPolicy } from '../../../public/authentication/types';
+
+export const usePasswordPolicySettings = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  
+  // Load the policy currently enforced by the backend
+  const loadPolicy = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setPolicy(await AuthService.getPasswordPolicy());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar a política de senhas.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+  
+  const savePolicy = async (nextPolicy: PasswordPolicy) => {
+    setIsSaving(true);
+    
+    try {
+      setPolicy(await AuthService.updatePasswordPolicy(nextPolicy));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  return {
+    policy,
+    isLoading,
+    error,
+    isSaving,
+    savePolicy,
+    reload: loadPolicy,
+  };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { User } from '../../../public/authentication/types';
+
+export const usePendingApprovals = () => {
+  const [pendingUsers, setPendingUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [approvingUserId, setApprovingUserId] = useState<string | null>(null);
+  
+  // Load the accounts waiting for approval
+  const loadPendingUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setPendingUsers(await AuthService.listPendingUsers());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os cadastros pendentes.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadPendingUsers();
+  }, [loadPendingUsers]);
+  
+  // Approve an account and remove it from the pending list
+  const approveUser = async (userId: string) => {
+    setApprovingUserId(userId);
+    
+    try {
+      await AuthService.approveUser(userId);
+      setPendingUsers(users => users.filter(user => user.id !== userId));
+    } finally {
+      setApprovingUserId(null);
+    }
+  };
+  
+  return {
+    pendingUsers,
+    isLoading,
+    error,
+    approvingUserId,
+    approveUser,
+    reload: loadPendingUsers,
+  };
+};
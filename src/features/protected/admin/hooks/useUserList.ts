@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { User } from '../../../public/authentication/types';
+
+export const useUserList = () => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Load the users an admin may view the app as
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setUsers(await AuthService.listUsers());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os usuários.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+  
+  return {
+    users,
+    isLoading,
+    error,
+    reload: loadUsers,
+  };
+};
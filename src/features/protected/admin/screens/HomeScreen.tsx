@@ -2,13 +2,15 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Image, ScrollView, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthContext } from '../../../public/authentication/components/AuthProvider';
+import { RequirePermission, RoleSwitcher, useAuthContext } from '../../../public/authentication/components';
 import { colors, spacing, typography } from '../../../../theme';
 import { Button } from '../../../../shared/components';
+import { useSyncedLogout } from '../../sync/hooks/useSyncedLogout';
 
 const AdminHomeScreen = () => {
   const router = useRouter();
-  const { user, logout } = useAuthContext();
+  const { user } = useAuthContext();
+  const logout = useSyncedLogout();
   
   const handleLogout = async () => {
     await logout();
@@ -22,6 +24,7 @@ const AdminHomeScreen = () => {
           <View style={styles.welcomeContainer}>
             <Text style={styles.welcomeText}>Olá,</Text>
             <Text style={styles.userName}>{user?.name || 'Administrador'}</Text>
+            <RoleSwitcher />
           </View>
           
           <TouchableOpacity style={styles.profileContainer} onPress={() => {}}>
@@ -68,19 +71,56 @@ const AdminHomeScreen = () => {
           </View>
           
           <View style={styles.actionsContainer}>
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="person-add" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Gerenciar Usuários</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="users:manage">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="person-add" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Gerenciar Usuários</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            <RequirePermission permission="users:approve">
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/admin/approvals')}>
+                <Ionicons name="checkmark-circle" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Aprovar Cadastros</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            <RequirePermission permission="users:manage">
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/admin/view-as')}>
+                <Ionicons name="eye" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Visualizar como Usuário</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            <RequirePermission permission="settings:manage">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="settings" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Configurações do Sistema</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            <RequirePermission permission="settings:manage">
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/admin/password-policy')}>
+                <Ionicons name="key" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Política de Senhas</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            <RequirePermission permission="reports:read">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="bar-chart" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Relatórios Gerenciais</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="settings" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Configurações do Sistema</Text>
+            <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/admin/two-factor')}>
+              <Ionicons name="shield-checkmark" size={24} color={colors.primary.default} />
+              <Text style={styles.actionText}>Verificação em Duas Etapas</Text>
             </TouchableOpacity>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="bar-chart" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Relatórios Gerenciais</Text>
+            <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/admin/devices')}>
+              <Ionicons name="phone-portrait" size={24} color={colors.primary.default} />
+              <Text style={styles.actionText}>Dispositivos Conectados</Text>
             </TouchableOpacity>
           </View>
           
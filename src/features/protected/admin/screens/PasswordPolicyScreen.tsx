@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../../../../theme';
+import { Button } from '../../../../shared/components';
+import { usePasswordPolicySettings } from '../hooks/usePasswordPolicySettings';
+import { PasswordCharacterClass, PasswordPolicy } from '../../../public/authentication/types';
+import {
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  describePasswordPolicy,
+} from '../../../public/authentication/utils/password-policy';
+
+const CHARACTER_CLASS_OPTIONS: { value: PasswordCharacterClass; label: string }[] = [
+  { value: 'letter', label: 'Letras' },
+  { value: 'lowercase', label: 'Letras minúsculas' },
+  { value: 'uppercase', label: 'Letras maiúsculas' },
+  { value: 'digit', label: 'Números' },
+  { value: 'symbol', label: 'Símbolos' },
+];
+
+interface SettingRowProps {
+  label: string;
+  description?: string;
+  value: boolean;
+  onValueChange: (value: boolean) => void;
+}
+
+const SettingRow: React.FC<SettingRowProps> = ({ label, description, value, onValueChange }) => (
+  <View style={styles.row}>
+    <View style={styles.rowInfo}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      {description && <Text style={styles.rowDescription}>{description}</Text>}
+    </View>
+    <Switch
+      value={value}
+      onValueChange={onValueChange}
+      trackColor={{ true: colors.primary.default, false: colors.neutrals.gray }}
+    />
+  </View>
+);
+
+const PasswordPolicyScreen = () => {
+  const router = useRouter();
+  const { policy, isLoading, error, isSaving, savePolicy, reload } = usePasswordPolicySettings();
+  const [draft, setDraft] = useState<PasswordPolicy | null>(null);
+
+  // Edit a copy of the loaded policy until it is saved
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(policy);
+
+  const updateDraft = (changes: Partial<PasswordPolicy>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const toggleCharacterClass = (characterClass: PasswordCharacterClass, isRequired: boolean) => {
+    if (!draft) return;
+
+    const requiredCharacterClasses = isRequired
+      ? [...draft.requiredCharacterClasses, characterClass]
+      : draft.requiredCharacterClasses.filter(item => item !== characterClass);
+    updateDraft({ requiredCharacterClasses });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      await savePolicy(draft);
+      Alert.alert('Política atualizada', 'As novas regras valem para as próximas senhas cadastradas ou redefinidas.');
+    } catch (saveError) {
+      Alert.alert(
+        'Erro ao salvar política',
+        saveError instanceof Error ? saveError.message : 'Não foi possível salvar a política de senhas. Tente novamente.',
+      );
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+
+    if (error || !draft) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error ?? 'Não foi possível carregar a política de senhas.'}</Text>
+          <Button title="Tentar novamente" variant="outline" onPress={reload} />
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.summary}>{describePasswordPolicy(draft)}</Text>
+
+        <Text style={styles.sectionTitle}>Tamanho mínimo</Text>
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Caracteres</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity
+                onPress={() => updateDraft({ minLength: draft.minLength - 1 })}
+                disabled={draft.minLength <= MIN_PASSWORD_LENGTH}
+              >
+                <Ionicons
+                  name="remove-circle-outline"
+                  size={28}
+                  color={draft.minLength <= MIN_PASSWORD_LENGTH ? colors.neutrals.gray : colors.primary.default}
+                />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{draft.minLength}</Text>
+              <TouchableOpacity
+                onPress={() => updateDraft({ minLength: draft.minLength + 1 })}
+                disabled={draft.minLength >= MAX_PASSWORD_LENGTH}
+              >
+                <Ionicons
+                  name="add-circle-outline"
+                  size={28}
+                  color={draft.minLength >= MAX_PASSWORD_LENGTH ? colors.neutrals.gray : colors.primary.default}
+                />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Caracteres obrigatórios</Text>
+        <View style={styles.card}>
+          {CHARACTER_CLASS_OPTIONS.map(option => (
+            <SettingRow
+              key={option.value}
+              label={option.label}
+              value={draft.requiredCharacterClasses.includes(option.value)}
+              onValueChange={isRequired => toggleCharacterClass(option.value, isRequired)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Restrições</Text>
+        <View style={styles.card}>
+          <SettingRow
+            label="Bloquear senhas comuns"
+            description="Recusa senhas como 123456 ou senha123"
+            value={draft.blockCommonPasswords}
+            onValueChange={blockCommonPasswords => updateDraft({ blockCommonPasswords })}
+          />
+          <SettingRow
+            label="Bloquear dados pessoais"
+            description="Recusa senhas que contenham o CPF ou o nome do usuário"
+            value={draft.blockPersonalInfo}
+            onValueChange={blockPersonalInfo => updateDraft({ blockPersonalInfo })}
+          />
+        </View>
+
+        <Text style={styles.notice}>
+          Senhas já cadastradas continuam válidas. As regras são aplicadas no cadastro e na redefinição de senha.
+        </Text>
+
+        <Button
+          title="Salvar política"
+          disabled={!isDirty || isSaving}
+          isLoading={isSaving}
+          onPress={handleSave}
+        />
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Política de Senhas</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  feedback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  summary: {
+    fontSize: typography.sizes.md,
+    color: colors.text.primary,
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  card: {
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.lg,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.sm,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  rowLabel: {
+    fontSize: typography.sizes.md,
+    color: colors.text.primary,
+  },
+  rowDescription: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+    marginTop: spacing.xs / 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 40,
+    textAlign: 'center',
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  notice: {
+    fontSize: typography.sizes.sm,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+});
+
+export default PasswordPolicyScreen;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../../../../theme';
+import { Button } from '../../../../shared/components';
+import { useAuthContext } from '../../../public/authentication/components';
+import { useUserList } from '../hooks/useUserList';
+import { User } from '../../../public/authentication/types';
+import { USER_TYPE_LABELS } from '../../../public/authentication/utils/user-type-labels';
+
+const ViewAsUserScreen = () => {
+  const router = useRouter();
+  const { startImpersonation } = useAuthContext();
+  const { users, isLoading, error, reload } = useUserList();
+  const [startingUserId, setStartingUserId] = useState<string | null>(null);
+  
+  const viewAs = async (user: User) => {
+    setStartingUserId(user.id);
+    try {
+      // AuthGuard moves to the home screen of the impersonated user
+      await startImpersonation(user.id);
+    } catch (startError) {
+      Alert.alert(
+        'Erro ao visualizar como usuário',
+        startError instanceof Error ? startError.message : 'Não foi possível iniciar a visualização. Tente novamente.',
+      );
+    } finally {
+      setStartingUserId(null);
+    }
+  };
+  
+  const handleSelect = (user: User) => {
+    Alert.alert(
+      'Visualizar como usuário',
+      `Você verá o aplicativo como ${user.name}, sem poder alterar dados clínicos. O acesso será registrado.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Continuar', onPress: () => viewAs(user) },
+      ],
+    );
+  };
+  
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (error) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Tentar novamente" variant="outline" onPress={reload} />
+        </View>
+      );
+    }
+    
+    if (users.length === 0) {
+      return (
+        <View style={styles.feedback}>
+          <Ionicons name="people-outline" size={48} color={colors.text.secondary} />
+          <Text style={styles.emptyText}>Nenhum usuário ativo</Text>
+        </View>
+      );
+    }
+    
+    return users.map(user => (
+      <TouchableOpacity
+        key={user.id}
+        style={styles.card}
+        onPress={() => handleSelect(user)}
+        disabled={startingUserId !== null}
+      >
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{user.name}</Text>
+          <Text style={styles.cardSubtitle}>{USER_TYPE_LABELS[user.userType]}</Text>
+          <Text style={styles.cardDetail}>{user.email}</Text>
+        </View>
+        {startingUserId === user.id ? (
+          <ActivityIndicator size="small" color={colors.primary.default} />
+        ) : (
+          <Ionicons name="eye-outline" size={22} color={colors.primary.default} />
+        )}
+      </TouchableOpacity>
+    ));
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Visualizar como Usuário</Text>
+      </View>
+      
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  feedback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  cardTitle: {
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  cardSubtitle: {
+    fontSize: typography.sizes.sm,
+    color: colors.primary.default,
+    marginBottom: spacing.xs,
+  },
+  cardDetail: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+});
+
+export default ViewAsUserScreen;
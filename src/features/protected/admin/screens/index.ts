@@ -1 +1,4 @@
-export { default as AdminHomeScreen } from './HomeScreen'; 
\ No newline at end of file
+export { default as AdminHomeScreen } from './HomeScreen';
+export { default as PendingApprovalsScreen } from './PendingApprovalsScreen';
+export { default as ViewAsUserScreen } from './ViewAsUserScreen';
+export { default as PasswordPolicyScreen } from './PasswordPolicyScreen';
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { useAuthContext } from '../../../public/authentication/components';
+import { User } from '../../../public/authentication/types';
+import * as ActiveDependent from '../services/active-dependent';
+
+export const useDependents = () => {
+  const { user } = useAuthContext();
+  const [dependents, setDependents] = useState<User[]>([]);
+  const [activeDependentId, setActiveDependentId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  
+  const guardianId = user?.id ?? null;
+  
+  // Load the linked dependents and restore the one the guardian was managing
+  const loadDependents = useCallback(async () => {
+    if (!guardianId) return;
+    
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const [linkedDependents, savedDependentId] = await Promise.all([
+        AuthService.listDependents(),
+        ActiveDependent.getActiveDependentId(guardianId),
+      ]);
+      const isSavedDependentLinked = linkedDependents.some(dependent => dependent.id === savedDependentId);
+      
+      setDependents(linkedDependents);
+      setActiveDependentId(isSavedDependentLinked ? savedDependentId : linkedDependents[0]?.id ?? null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os dependentes.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [guardianId]);
+  
+  useEffect(() => {
+    loadDependents();
+  }, [loadDependents]);
+  
+  // Switch the dependent the guardian is managing
+  const selectDependent = (dependentId: string) => {
+    if (!guardianId) return;
+    
+    setActiveDependentId(dependentId);
+    ActiveDependent.setActiveDependentId(guardianId, dependentId);
+  };
+  
+  return {
+    dependents,
+    activeDependent: dependents.find(dependent => dependent.id === activeDependentId) ?? null,
+    isLoading,
+    error,
+    selectDependent,
+    reload: loadDependents,
+  };
+};
@@ -0,0 +1,343 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { RequirePermission, RoleSwitcher, useAuthContext } from '../../../public/authentication/components';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { Button } from '../../../../shared/components';
+import { useDependents } from '../hooks/useDependents';
+import { useSyncedLogout } from '../../sync/hooks/useSyncedLogout';
+
+const GuardianHomeScreen = () => {
+  const router = useRouter();
+  const { user, impersonator } = useAuthContext();
+  const logout = useSyncedLogout();
+  const { dependents, activeDependent, isLoading, error, selectDependent, reload } = useDependents();
+  
+  const handleLogout = async () => {
+    await logout();
+    // Router will automatically redirect based on auth state
+  };
+  
+  // Chips to switch the dependent whose data is shown below
+  const renderDependents = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="small" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (error) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Tentar novamente" variant="outline" size="small" onPress={reload} />
+        </View>
+      );
+    }
+    
+    if (dependents.length === 0) {
+      return <Text style={styles.emptyText}>Nenhum dependente vinculado à sua conta</Text>;
+    }
+    
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dependentList}>
+        {dependents.map(dependent => {
+          const isActive = dependent.id === activeDependent?.id;
+          
+          return (
+            <TouchableOpacity
+              key={dependent.id}
+              style={[styles.dependentChip, isActive && styles.dependentChipActive]}
+              onPress={() => selectDependent(dependent.id)}
+              accessibilityState={{ selected: isActive }}
+            >
+              <Ionicons
+                name="person-circle"
+                size={20}
+                color={isActive ? colors.neutrals.white : colors.primary.default}
+              />
+              <Text style={[styles.dependentName, isActive && styles.dependentNameActive]}>
+                {dependent.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <View style={styles.welcomeContainer}>
+            <Text style={styles.welcomeText}>Olá,</Text>
+            <Text style={styles.userName}>{user?.name || 'Responsável'}</Text>
+            <RoleSwitcher />
+          </View>
+          
+          <TouchableOpacity style={styles.profileContainer} onPress={() => {}}>
+            {user?.profileImage ? (
+              <Image source={{ uri: user.profileImage }} style={styles.profileImage} />
+            ) : (
+              <View style={styles.profilePlaceholder}>
+                <Ionicons name="person" size={30} color={colors.neutrals.white} />
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.contentContainer}>
+          <View style={styles.sectionTitle}>
+            <Text style={styles.sectionTitleText}>Dependentes</Text>
+          </View>
+          
+          {renderDependents()}
+          
+          {activeDependent && (
+            <>
+              <View style={styles.dashboardContainer}>
+                <View style={styles.dashboardTile}>
+                  <Ionicons name="calendar" size={32} color={colors.primary.default} />
+                  <Text style={styles.tileTitle}>Treinos</Text>
+                  <Text style={styles.tileValue}>0</Text>
+                  <Text style={styles.tileSubtitle}>Agendados</Text>
+                </View>
+                
+                <View style={styles.dashboardTile}>
+                  <Ionicons name="fitness" size={32} color={colors.primary.default} />
+                  <Text style={styles.tileTitle}>Progresso</Text>
+                  <Text style={styles.tileValue}>0%</Text>
+                  <Text style={styles.tileSubtitle}>Concluído</Text>
+                </View>
+              </View>
+              
+              <View style={styles.actionsContainer}>
+                <RequirePermission permission="appointments:read">
+                  <TouchableOpacity style={styles.actionButton}>
+                    <Ionicons name="calendar" size={24} color={colors.primary.default} />
+                    <Text style={styles.actionText}>Agendamentos</Text>
+                  </TouchableOpacity>
+                </RequirePermission>
+                
+                <RequirePermission permission="workouts:read">
+                  <TouchableOpacity style={styles.actionButton}>
+                    <Ionicons name="clipboard" size={24} color={colors.primary.default} />
+                    <Text style={styles.actionText}>Treinos</Text>
+                  </TouchableOpacity>
+                </RequirePermission>
+              </View>
+            </>
+          )}
+          
+          {!impersonator && (
+            <>
+              <View style={styles.sectionTitle}>
+                <Text style={styles.sectionTitleText}>Minha Conta</Text>
+              </View>
+              
+              <View style={styles.actionsContainer}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/guardian/devices')}>
+                  <Ionicons name="phone-portrait" size={24} color={colors.primary.default} />
+                  <Text style={styles.actionText}>Dispositivos Conectados</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+          
+          <Button
+            title="Sair"
+            variant="outline"
+            onPress={handleLogout}
+            style={styles.logoutButton}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  welcomeContainer: {
+    flex: 1,
+  },
+  welcomeText: {
+    fontSize: typography.sizes.md,
+    color: colors.neutrals.white,
+    opacity: 0.9,
+  },
+  userName: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  profileContainer: {
+    marginLeft: spacing.md,
+  },
+  profileImage: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: colors.neutrals.white,
+  },
+  profilePlaceholder: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: colors.primary.dark,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: colors.neutrals.white,
+  },
+  contentContainer: {
+    flex: 1,
+    padding: spacing.lg,
+  },
+  sectionTitle: {
+    marginBottom: spacing.md,
+    marginTop: spacing.lg,
+  },
+  sectionTitleText: {
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  feedback: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+  dependentList: {
+    paddingBottom: spacing.md,
+  },
+  dependentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginRight: spacing.sm,
+    borderRadius: borderRadius.pill,
+    borderWidth: 1,
+    borderColor: colors.primary.default,
+    backgroundColor: colors.neutrals.white,
+  },
+  dependentChipActive: {
+    backgroundColor: colors.primary.default,
+  },
+  dependentName: {
+    marginLeft: spacing.xs,
+    fontSize: typography.sizes.md,
+    color: colors.primary.default,
+  },
+  dependentNameActive: {
+    color: colors.neutrals.white,
+    fontWeight: typography.weights.semiBold as '600',
+  },
+  dashboardContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.md,
+  },
+  dashboardTile: {
+    flex: 1,
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    padding: spacing.md,
+    marginHorizontal: spacing.xs / 2,
+    alignItems: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  tileTitle: {
+    fontSize: typography.sizes.sm,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+  },
+  tileValue: {
+    fontSize: typography.sizes.xxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+  },
+  tileSubtitle: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  actionsContainer: {
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    padding: spacing.md,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.neutrals.gray,
+  },
+  actionText: {
+    marginLeft: spacing.md,
+    fontSize: typography.sizes.md,
+    color: colors.text.primary,
+  },
+  logoutButton: {
+    marginTop: spacing.xl,
+  },
+});
+
+export default GuardianHomeScreen; 
\ No newline at end of file
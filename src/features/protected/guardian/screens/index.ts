@@ -0,0 +1 @@
+export { default as GuardianHomeScreen } from './HomeScreen';
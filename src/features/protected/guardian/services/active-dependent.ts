@@ -0,0 +1,38 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Storage key for the dependent each guardian was last managing
+const ACTIVE_DEPENDENTS_KEY = '@PhysiPro:guardian:activeDependents';
+
+type ActiveDependents = Record<string, string>;
+
+const loadActiveDependents = async (): Promise<ActiveDependents> => {
+  try {
+    const storedValue = await AsyncStorage.getItem(ACTIVE_DEPENDENTS_KEY);
+    return storedValue ? JSON.parse(storedValue) : {};
+  } catch (error) {
+    console.error('Error loading active dependents:', error);
+    return {};
+  }
+};
+
+/**
+ * Get the dependent a guardian was last managing
+ */
+export const getActiveDependentId = async (guardianId: string): Promise<string | null> => {
+  const activeDependents = await loadActiveDependents();
+  return activeDependents[guardianId] ?? null;
+};
+
+/**
+ * Remember the dependent a guardian is managing, so it is selected again on the next launch
+ */
+export const setActiveDependentId = async (guardianId: string, dependentId: string): Promise<void> => {
+  const activeDependents = await loadActiveDependents();
+  activeDependents[guardianId] = dependentId;
+
+  try {
+    await AsyncStorage.setItem(ACTIVE_DEPENDENTS_KEY, JSON.stringify(activeDependents));
+  } catch (error) {
+    console.error('Error saving active dependent:', error);
+  }
+};
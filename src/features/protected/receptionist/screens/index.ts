@@ -0,0 +1 @@
+export { default as ReceptionistHomeScreen } from './HomeScreen';
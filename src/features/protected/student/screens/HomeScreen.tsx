@@ -2,13 +2,15 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Image, ScrollView, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthContext } from '../../../public/authentication/components/AuthProvider';
+import { RequirePermission, RoleSwitcher, useAuthContext } from '../../../public/authentication/components';
 import { colors, spacing, typography } from '../../../../theme';
 import { Button } from '../../../../shared/components';
+import { useSyncedLogout } from '../../sync/hooks/useSyncedLogout';
 
 const StudentHomeScreen = () => {
   const router = useRouter();
-  const { user, logout } = useAuthContext();
+  const { user, impersonator } = useAuthContext();
+  const logout = useSyncedLogout();
   
   const handleLogout = async () => {
     await logout();
@@ -22,6 +24,7 @@ const StudentHomeScreen = () => {
           <View style={styles.welcomeContainer}>
             <Text style={styles.welcomeText}>Olá,</Text>
             <Text style={styles.userName}>{user?.name || 'Aluno'}</Text>
+            <RoleSwitcher />
           </View>
           
           <TouchableOpacity style={styles.profileContainer} onPress={() => {}}>
@@ -68,20 +71,33 @@ const StudentHomeScreen = () => {
           </View>
           
           <View style={styles.actionsContainer}>
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="calendar" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Meus Agendamentos</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="appointments:read">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="calendar" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Meus Agendamentos</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="clipboard" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Meus Treinos</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="workouts:read">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="clipboard" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Meus Treinos</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="person" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Meu Perfil</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="profile:write" mode="disable">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="person" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Meu Perfil</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            {!impersonator && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/student/devices')}>
+                <Ionicons name="phone-portrait" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Dispositivos Conectados</Text>
+              </TouchableOpacity>
+            )}
           </View>
           
           <Button
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { getErrorMessage } from '../../../../shared/api';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { SyncStatus } from '../types';
+
+interface SyncStatusIndicatorProps {
+  // Opens the list of conflicts, the indicator syncs on press when not set or when there are none
+  onOpenConflicts?: () => void;
+}
+
+type IconName = React.ComponentProps<typeof Ionicons>['name'];
+
+const pluralize = (count: number, singular: string, plural: string) => `${count} ${count === 1 ? singular : plural}`;
+
+/**
+ * Picks what the indicator shows, the states needing attention first
+ */
+const describeStatus = (status: SyncStatus): { icon: IconName; label: string } => {
+  if (status.conflictCount > 0) {
+    return { icon: 'alert-circle', label: pluralize(status.conflictCount, 'conflito', 'conflitos') };
+  }
+  if (status.state === 'offline') {
+    return {
+      icon: 'cloud-offline-outline',
+      label: status.pendingCount > 0 ? `Offline · ${pluralize(status.pendingCount, 'pendente', 'pendentes')}` : 'Offline',
+    };
+  }
+  if (status.state === 'error' || status.failedCount > 0) {
+    return { icon: 'warning-outline', label: 'Erro ao sincronizar' };
+  }
+  if (status.pendingCount > 0) {
+    return { icon: 'cloud-upload-outline', label: pluralize(status.pendingCount, 'pendente', 'pendentes') };
+  }
+  return { icon: 'cloud-done-outline', label: 'Sincronizado' };
+};
+
+/**
+ * Header pill showing whether the local changes reached the server
+ */
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ onOpenConflicts }) => {
+  const { status, syncNow, retryFailedChanges, discardFailedChanges } = useSyncStatus();
+  const isSyncing = status.state === 'syncing';
+  const { icon, label } = describeStatus(status);
+  
+  const handlePress = () => {
+    if (status.conflictCount > 0 && onOpenConflicts) {
+      onOpenConflicts();
+      return;
+    }
+    
+    // Refused changes hold back the later changes to their records until they are sent again or discarded
+    if (status.failedCount > 0) {
+      const handleFailure = (error: unknown) => Alert.alert('Erro ao sincronizar', getErrorMessage(error));
+      
+      Alert.alert(
+        'Erro ao sincronizar',
+        `${pluralize(status.failedCount, 'alteração foi recusada', 'alterações foram recusadas')} pelo servidor. `
+          + 'Descartar volta os registros para a versão do servidor.',
+        [
+          { text: 'Cancelar', style: 'cancel' },
+          { text: 'Tentar novamente', onPress: () => retryFailedChanges().catch(handleFailure) },
+          { text: 'Descartar', style: 'destructive', onPress: () => discardFailedChanges().catch(handleFailure) },
+        ],
+      );
+      return;
+    }
+    
+    if (status.state === 'error') {
+      Alert.alert('Erro ao sincronizar', status.lastError ?? 'Não foi possível sincronizar. Tente novamente.');
+    }
+    
+    syncNow();
+  };
+  
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={handlePress}
+      disabled={isSyncing}
+      accessibilityRole="button"
+      accessibilityLabel={`Sincronização: ${isSyncing ? 'sincronizando' : label}`}
+    >
+      {isSyncing ? (
+        <ActivityIndicator size="small" color={colors.neutrals.white} />
+      ) : (
+        <Ionicons name={icon} size={16} color={colors.neutrals.white} />
+      )}
+      <Text style={styles.label}>{isSyncing ? 'Sincronizando...' : label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+    borderRadius: borderRadius.pill,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  label: {
+    marginLeft: spacing.xs,
+    fontSize: typography.sizes.sm,
+    color: colors.neutrals.white,
+  },
+});
+
+export default SyncStatusIndicator;
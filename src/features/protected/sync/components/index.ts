@@ -0,0 +1 @@
+export { default as SyncStatusIndicator } from './SyncStatusIndicator';
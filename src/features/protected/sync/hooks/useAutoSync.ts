@@ -0,0 +1,9 @@
+import { useEffect } from 'react';
+import * as SyncService from '../services/sync-service';
+
+/**
+ * Keeps the synced collections in sync while the screens using it are mounted
+ */
+export const useAutoSync = () => {
+  useEffect(() => SyncService.startAutoSync(), []);
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as SyncService from '../services/sync-service';
+import { ConflictResolution, SyncConflict } from '../types';
+import { useSyncStatus } from './useSyncStatus';
+
+export const useSyncConflicts = () => {
+  const { status } = useSyncStatus();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  
+  const loadConflicts = useCallback(async () => {
+    setError(null);
+    
+    try {
+      setConflicts(await SyncService.listConflicts());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os conflitos.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  // Conflicts found by a sync show up without leaving the screen
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts, status.conflictCount]);
+  
+  // Keep the version the user picked and remove the conflict from the list
+  const resolveConflict = async (conflictId: string, resolution: ConflictResolution) => {
+    setResolvingId(conflictId);
+    
+    try {
+      await SyncService.resolveConflict(conflictId, resolution);
+      setConflicts(current => current.filter(conflict => conflict.id !== conflictId));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+  
+  return {
+    conflicts,
+    isLoading,
+    error,
+    resolvingId,
+    resolveConflict,
+    reload: loadConflicts,
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import * as SyncService from '../services/sync-service';
+import { SyncStatus } from '../types';
+
+/**
+ * Follows the sync status, e.g. for the header indicator
+ */
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus>(SyncService.getSyncStatus);
+  
+  useEffect(() => SyncService.subscribeToSyncStatus(setStatus), []);
+  
+  return {
+    status,
+    syncNow: SyncService.syncNow,
+    retryFailedChanges: SyncService.retryFailedChanges,
+    discardFailedChanges: SyncService.discardFailedChanges,
+  };
+};
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useAuthContext } from '../../../public/authentication/components';
+import * as SyncService from '../services/sync-service';
+import { SyncError } from '../utils/sync-errors';
+
+/**
+ * Logout for the logout buttons: sends the pending changes first and keeps the user signed in,
+ * with an alert, while some could not be sent
+ */
+export const useSyncedLogout = () => {
+  const { logout } = useAuthContext();
+  
+  return useCallback(async () => {
+    try {
+      await SyncService.assertNoUnsentChanges();
+    } catch (error) {
+      if (error instanceof SyncError && error.code === 'UNSENT_CHANGES') {
+        Alert.alert('Alterações não enviadas', error.message);
+        return;
+      }
+      
+      console.warn('Failed to check for unsent changes before logout:', error);
+    }
+    
+    await logout();
+  }, [logout]);
+};
@@ -0,0 +1,289 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../../../../theme';
+import { Button } from '../../../../shared/components';
+import { useSyncConflicts } from '../hooks/useSyncConflicts';
+import { getCollectionLabels } from '../services/sync-service';
+import { ConflictResolution, SyncConflict, SyncedRecord } from '../types';
+
+// Bookkeeping fields, never shown as a difference
+const SYNC_FIELDS = new Set(['id', 'version', 'updatedAt', 'deletedAt']);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('pt-BR');
+
+/**
+ * Reads the fields of a record, which besides the sync fields are only known to its collection
+ */
+const getFieldValues = (record: SyncedRecord): Map<string, unknown> => new Map(Object.entries(record));
+
+/**
+ * Lists the fields whose value differs between the two versions of a record
+ */
+const getChangedFields = ({ local, remote }: SyncConflict): string[] => {
+  const localValues = getFieldValues(local);
+  const remoteValues = getFieldValues(remote);
+  const fields = new Set([...localValues.keys(), ...remoteValues.keys()]);
+  
+  return Array.from(fields).filter(
+    field => !SYNC_FIELDS.has(field) && JSON.stringify(localValues.get(field)) !== JSON.stringify(remoteValues.get(field)),
+  );
+};
+
+const describeVersion = (record: SyncedRecord) => {
+  return record.deletedAt !== null
+    ? `Excluído em ${formatDateTime(record.deletedAt)}`
+    : `Alterado em ${formatDateTime(record.updatedAt)}`;
+};
+
+const SyncConflictsScreen = () => {
+  const router = useRouter();
+  const { conflicts, isLoading, error, resolvingId, resolveConflict, reload } = useSyncConflicts();
+  
+  const handleResolve = (conflict: SyncConflict, resolution: ConflictResolution) => {
+    const description = resolution === 'keep_local'
+      ? 'A versão deste dispositivo substituirá a do servidor.'
+      : 'As alterações feitas neste dispositivo serão descartadas.';
+    
+    Alert.alert('Resolver conflito', `${description} Deseja continuar?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Confirmar',
+        style: resolution === 'keep_remote' ? 'destructive' : 'default',
+        onPress: async () => {
+          try {
+            await resolveConflict(conflict.id, resolution);
+          } catch (resolveError) {
+            Alert.alert(
+              'Erro ao resolver conflito',
+              resolveError instanceof Error ? resolveError.message : 'Não foi possível resolver o conflito.',
+            );
+          }
+        },
+      },
+    ]);
+  };
+  
+  const renderConflict = (conflict: SyncConflict) => {
+    const { label, fieldLabels } = getCollectionLabels(conflict.collection);
+    const localValues = getFieldValues(conflict.local);
+    const remoteValues = getFieldValues(conflict.remote);
+    const isResolving = resolvingId === conflict.id;
+    
+    return (
+      <View key={conflict.id} style={styles.card}>
+        <Text style={styles.cardTitle}>{label}</Text>
+        <Text style={styles.cardDetail}>Registro {conflict.recordId}</Text>
+        
+        <View style={styles.versions}>
+          <View style={styles.version}>
+            <Text style={styles.versionTitle}>Neste dispositivo</Text>
+            <Text style={styles.versionDetail}>{describeVersion(conflict.local)}</Text>
+          </View>
+          <View style={styles.version}>
+            <Text style={styles.versionTitle}>No servidor</Text>
+            <Text style={styles.versionDetail}>{describeVersion(conflict.remote)}</Text>
+          </View>
+        </View>
+        
+        {getChangedFields(conflict).map(field => (
+          <View key={field} style={styles.field}>
+            <Text style={styles.fieldLabel}>{fieldLabels[field] ?? field}</Text>
+            <View style={styles.versions}>
+              <Text style={[styles.version, styles.fieldValue]}>{formatValue(localValues.get(field))}</Text>
+              <Text style={[styles.version, styles.fieldValue]}>{formatValue(remoteValues.get(field))}</Text>
+            </View>
+          </View>
+        ))}
+        
+        <Button
+          title="Manter minha versão"
+          disabled={resolvingId !== null}
+          isLoading={isResolving}
+          onPress={() => handleResolve(conflict, 'keep_local')}
+          style={styles.action}
+        />
+        <Button
+          title="Usar versão do servidor"
+          variant="outline"
+          disabled={resolvingId !== null}
+          onPress={() => handleResolve(conflict, 'keep_remote')}
+          style={styles.action}
+        />
+      </View>
+    );
+  };
+  
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (error) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Tentar novamente" variant="outline" onPress={reload} />
+        </View>
+      );
+    }
+    
+    if (conflicts.length === 0) {
+      return (
+        <View style={styles.feedback}>
+          <Ionicons name="checkmark-circle-outline" size={48} color={colors.text.secondary} />
+          <Text style={styles.emptyText}>Nenhum conflito para resolver</Text>
+        </View>
+      );
+    }
+    
+    return conflicts.map(renderConflict);
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Conflitos de Sincronização</Text>
+      </View>
+      
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.description}>
+          Estes registros clínicos foram alterados neste dispositivo e no servidor ao mesmo tempo. Compare as
+          versões e escolha qual deve ser mantida; até lá, as alterações deste dispositivo não são enviadas.
+        </Text>
+        
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  description: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+  feedback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  cardDetail: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  versions: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+  },
+  version: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  versionTitle: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  versionDetail: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  field: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutrals.gray,
+  },
+  fieldLabel: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  fieldValue: {
+    fontSize: typography.sizes.md,
+    color: colors.text.primary,
+  },
+  action: {
+    marginTop: spacing.sm,
+  },
+});
+
+export default SyncConflictsScreen;
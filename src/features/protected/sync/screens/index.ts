@@ -0,0 +1 @@
+export { default as SyncConflictsScreen } from './SyncConflictsScreen';
@@ -0,0 +1,77 @@
+import { ApiClientOptions, ApiError, createApiClient } from '../../../../shared/api';
+import { PullResult, PushResult, SyncErrorCode, SyncMutation, SyncedRecord } from '../types';
+import { SyncError } from '../utils/sync-errors';
+import type { SyncBackend } from './sync-backend';
+
+export interface HttpSyncBackendOptions
+  extends Pick<ApiClientOptions, 'timeoutMs' | 'maxRetries' | 'session' | 'fetchFn'> {
+  baseUrl: string;
+}
+
+interface ConflictResponseBody {
+  record?: SyncedRecord;
+}
+
+/**
+ * Maps the status of a failed response to an error code
+ */
+const getCodeFromStatus = (status: number): SyncErrorCode => {
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 400 || status === 404 || status === 422) return 'INVALID_CHANGE';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+/**
+ * Turns an API client failure into a SyncError
+ */
+const toSyncError = (error: unknown): unknown => {
+  if (!(error instanceof ApiError)) return error;
+
+  if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT' || error.code === 'SERVER_ERROR') {
+    return new SyncError(error.code);
+  }
+  // The session could not be renewed, the client already logged the user out
+  if (error.code === 'SESSION_EXPIRED') return new SyncError('UNAUTHORIZED');
+  return new SyncError(error.status === null ? 'UNKNOWN' : getCodeFromStatus(error.status));
+};
+
+/**
+ * Backend that syncs through the PhysiPro REST API
+ * Requests carry the token of the API client session rather than the one passed in,
+ * so an expired access token is renewed and the request repeated like any other
+ */
+export const createHttpSyncBackend = ({ baseUrl, ...clientOptions }: HttpSyncBackendOptions): SyncBackend => {
+  const client = createApiClient({ ...clientOptions, baseUrl });
+
+  return {
+    push: async (_token: string, { idempotencyKey, collection, ...mutation }: SyncMutation): Promise<PushResult> => {
+      try {
+        const record = await client.post<SyncedRecord>(`/sync/${encodeURIComponent(collection)}/push`, mutation, {
+          idempotencyKey,
+          // The engine retries failed pushes with its own back-off
+          maxRetries: 0,
+        });
+        return { status: 'applied', record };
+      } catch (error) {
+        // The server answers 409 with its current version of the record
+        if (error instanceof ApiError && error.status === 409) {
+          const { record } = (error.body ?? {}) as ConflictResponseBody;
+          if (!record) throw new SyncError('SERVER_ERROR');
+          return { status: 'conflict', record };
+        }
+        throw toSyncError(error);
+      }
+    },
+    pull: async (_token: string, collection: string, cursor: string | null): Promise<PullResult> => {
+      try {
+        return await client.get<PullResult>(`/sync/${encodeURIComponent(collection)}/changes`, {
+          query: { since: cursor },
+        });
+      } catch (error) {
+        throw toSyncError(error);
+      }
+    },
+  };
+};
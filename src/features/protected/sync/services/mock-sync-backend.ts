@@ -0,0 +1,96 @@
+import { createRepository } from '../../../../shared/storage';
+import { PullResult, PushResult, SyncMutation, SyncedRecord } from '../types';
+import { SyncError } from '../utils/sync-errors';
+import type { SyncBackend } from './sync-backend';
+
+// Simulated network latency, shorter than the auth mock as syncs run in the background
+const MOCK_DELAY_MS = 300;
+
+// Records as the server keeps them, stored under @PhysiPro:mock:syncRecords:*
+interface ServerRecord {
+  // `${collection}:${recordId}`
+  id: string;
+  collection: string;
+  // Position of the last change in the server change feed, used as the pull cursor
+  sequence: number;
+  record: SyncedRecord;
+}
+
+// Result of every mutation applied, so a repeated idempotency key gets the same answer
+interface AppliedMutation {
+  id: string;
+  result: PushResult;
+}
+
+const serverRecords = createRepository<ServerRecord, 'collection'>({
+  name: 'mock:syncRecords',
+  indexes: ['collection'],
+});
+
+const appliedMutations = createRepository<AppliedMutation>({ name: 'mock:syncMutations' });
+
+const simulateNetworkDelay = () => new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+
+const requireToken = (token: string) => {
+  if (!token) throw new SyncError('UNAUTHORIZED');
+};
+
+const getNextSequence = async (): Promise<number> => {
+  const { items } = await serverRecords.query({ sortBy: 'sequence', order: 'desc', limit: 1 });
+  return (items[0]?.sequence ?? 0) + 1;
+};
+
+/**
+ * Local stand-in for the sync API, keeping the "server" records on the device
+ */
+export const createMockSyncBackend = (): SyncBackend => ({
+  push: async (token: string, mutation: SyncMutation): Promise<PushResult> => {
+    await simulateNetworkDelay();
+    requireToken(token);
+
+    const previousMutation = await appliedMutations.getById(mutation.idempotencyKey);
+    if (previousMutation) return previousMutation.result;
+
+    const serverRecordId = `${mutation.collection}:${mutation.record.id}`;
+    const existing = await serverRecords.getById(serverRecordId);
+    const currentVersion = existing?.record.version ?? 0;
+
+    let result: PushResult;
+    if (existing && mutation.baseVersion !== currentVersion) {
+      result = { status: 'conflict', record: existing.record };
+    } else {
+      const record: SyncedRecord = {
+        ...mutation.record,
+        version: currentVersion + 1,
+        deletedAt: mutation.operation === 'delete' ? mutation.record.deletedAt ?? Date.now() : null,
+      };
+      const changes = { collection: mutation.collection, sequence: await getNextSequence(), record };
+
+      if (existing) {
+        await serverRecords.update(serverRecordId, changes);
+      } else {
+        await serverRecords.insert({ id: serverRecordId, ...changes });
+      }
+      result = { status: 'applied', record };
+    }
+
+    await appliedMutations.insert({ id: mutation.idempotencyKey, result });
+    return result;
+  },
+  pull: async (token: string, collection: string, cursor: string | null): Promise<PullResult> => {
+    await simulateNetworkDelay();
+    requireToken(token);
+
+    const since = cursor ? Number(cursor) : 0;
+    const { items } = await serverRecords.query({
+      where: { collection },
+      filter: item => item.sequence > since,
+      sortBy: 'sequence',
+    });
+
+    return {
+      records: items.map(item => item.record),
+      cursor: String(items.length > 0 ? items[items.length - 1].sequence : since),
+    };
+  },
+});
@@ -0,0 +1,54 @@
+import Constants from 'expo-constants';
+import { PullResult, PushResult, SyncMutation } from '../types';
+import { createHttpSyncBackend } from './http-sync-backend';
+import { createMockSyncBackend } from './mock-sync-backend';
+
+/**
+ * Contract implemented by every sync backend, mirroring the auth backends:
+ * the sync engine only talks to the server through it, so the mock and the real API can be swapped.
+ * The token is the one of the session being synced, the HTTP backend uses the API client session instead.
+ */
+export interface SyncBackend {
+  // Applies a local change, answering with a conflict when the record moved on since its base version
+  push: (token: string, mutation: SyncMutation) => Promise<PushResult>;
+  // Lists the records of a collection changed since the cursor, every record when it is null
+  pull: (token: string, collection: string, cursor: string | null) => Promise<PullResult>;
+}
+
+interface ApiConfig {
+  baseUrl?: string;
+}
+
+let currentBackend: SyncBackend | null = null;
+
+/**
+ * Creates the backend described by the app config, the HTTP one when `expo.extra.api.baseUrl` is set
+ */
+const createDefaultBackend = (): SyncBackend => {
+  const apiConfig = Constants.expoConfig?.extra?.api as ApiConfig | undefined;
+
+  if (apiConfig?.baseUrl) {
+    return createHttpSyncBackend({ baseUrl: apiConfig.baseUrl });
+  }
+
+  return createMockSyncBackend();
+};
+
+/**
+ * Get the backend currently used by the sync engine
+ */
+export const getSyncBackend = (): SyncBackend => {
+  if (!currentBackend) {
+    currentBackend = createDefaultBackend();
+  }
+
+  return currentBackend;
+};
+
+/**
+ * Replace the backend used by the sync engine.
+ * Passing null restores the backend described by the app config.
+ */
+export const setSyncBackend = (backend: SyncBackend | null): void => {
+  currentBackend = backend;
+};
@@ -0,0 +1,765 @@
+import { AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import {
+  IndexableField,
+  Page,
+  QueryOptions,
+  Repository,
+  RepositoryListener,
+  createRepository,
+  safeStorage,
+} from '../../../../shared/storage';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { AuthError } from '../../../public/authentication/utils/auth-errors';
+import {
+  ConflictResolution,
+  OutboxEntry,
+  SyncConflict,
+  SyncOperation,
+  SyncStatus,
+  SyncedRecord,
+} from '../types';
+import { SYNC_ERROR_MESSAGES, SyncError, isOfflineSyncError, isRetryableSyncError } from '../utils/sync-errors';
+import { getSyncBackend } from './sync-backend';
+
+// Wait before retrying a failed push, doubled on each attempt up to the maximum
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// Attempts after which a change the server keeps failing on is set aside
+const MAX_PUSH_ATTEMPTS = 8;
+
+const AUTO_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Local writes are pushed shortly after, so a burst of edits goes out in one sync
+const SYNC_DEBOUNCE_MS = 2 * 1000;
+
+// Record being saved, the sync fields are filled in by the collection
+export type NewSyncedRecord<T extends SyncedRecord> = Omit<T, 'id' | 'version' | 'updatedAt' | 'deletedAt'> & {
+  id?: string;
+};
+
+export interface SyncedCollection<T extends SyncedRecord, F extends IndexableField<T> = never> {
+  // Reads skip records deleted on the device whose deletion was not pushed yet
+  getById: (id: string) => Promise<T | null>;
+  query: (options?: QueryOptions<T, F>) => Promise<Page<T>>;
+  save: (data: NewSyncedRecord<T>) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  subscribe: (listener: RepositoryListener<T>) => () => void;
+}
+
+interface SyncedCollectionOptions<T extends SyncedRecord, F extends IndexableField<T>> {
+  // Name shared with the server (e.g. "clinicalRecords")
+  name: string;
+  // How the records are called on the conflicts screen (e.g. "Prontuário"), and their fields
+  label: string;
+  fieldLabels?: Partial<Record<keyof T, string>>;
+  indexes?: F[];
+  // Conflicting changes to clinical records are shown to the user instead of the newest one winning
+  isClinical?: boolean;
+  // Checks a record has the fields of this collection, records from the server are only stored when it passes
+  isRecord: (record: SyncedRecord) => record is T;
+}
+
+/**
+ * Local records of a collection as the engine handles them: only the sync fields are known here,
+ * the other fields are passed through untouched
+ */
+interface LocalRecords {
+  getById: (id: string) => Promise<SyncedRecord | null>;
+  // Writes a record received from the server or the outbox, replacing the stored one
+  put: (record: SyncedRecord) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+interface RegisteredCollection {
+  getRecords: (userId: string) => LocalRecords;
+  isClinical: boolean;
+  label: string;
+  fieldLabels: Record<string, string>;
+}
+
+// Sync data of one user, nothing of it is shared with other accounts signing in on the device
+interface UserSyncData {
+  userId: string;
+  outbox: Repository<OutboxEntry, 'recordId' | 'status'>;
+  conflicts: Repository<SyncConflict>;
+  // Key of the last pull position of each collection
+  cursorsKey: string;
+}
+
+const INITIAL_STATUS: SyncStatus = {
+  state: 'idle',
+  pendingCount: 0,
+  failedCount: 0,
+  conflictCount: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+const collections = new Map<string, RegisteredCollection>();
+const userSyncData = new Map<string, UserSyncData>();
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+let status: SyncStatus = INITIAL_STATUS;
+// User the status was counted for
+let statusUserId: string | null = null;
+let currentSync: Promise<SyncStatus> | null = null;
+let scheduledSyncId: ReturnType<typeof setTimeout> | null = null;
+
+const getConflictId = (collection: string, recordId: string) => `${collection}:${recordId}`;
+
+const getErrorMessage = (error: unknown): string => {
+  return error instanceof SyncError ? error.message : SYNC_ERROR_MESSAGES.UNKNOWN;
+};
+
+const getUserSyncData = (userId: string): UserSyncData => {
+  let data = userSyncData.get(userId);
+
+  if (!data) {
+    data = {
+      userId,
+      outbox: createRepository<OutboxEntry, 'recordId' | 'status'>({
+        name: `sync:${userId}:outbox`,
+        indexes: ['recordId', 'status'],
+      }),
+      conflicts: createRepository<SyncConflict>({ name: `sync:${userId}:conflicts` }),
+      cursorsKey: `@PhysiPro:sync:${userId}:cursors`,
+    };
+    userSyncData.set(userId, data);
+  }
+
+  return data;
+};
+
+/**
+ * Sync data of the signed-in user, null while signed out
+ */
+const getCurrentUserSyncData = async (): Promise<UserSyncData | null> => {
+  const user = await AuthService.getSavedUser();
+  return user ? getUserSyncData(user.id) : null;
+};
+
+/**
+ * Recounts the outbox and the conflicts of the signed-in user and tells the listeners about the new status
+ */
+const updateStatus = async (changes: Partial<SyncStatus> = {}): Promise<SyncStatus> => {
+  const data = await getCurrentUserSyncData();
+  const [pendingCount, failedCount, conflictCount] = data
+    ? await Promise.all([
+      data.outbox.count(entry => entry.status === 'pending'),
+      data.outbox.count(entry => entry.status === 'failed'),
+      data.conflicts.count(),
+    ])
+    : [0, 0, 0];
+
+  // The last sync of another account says nothing about this one
+  const userId = data?.userId ?? null;
+  const previousStatus = userId === statusUserId ? status : INITIAL_STATUS;
+  statusUserId = userId;
+
+  status = { ...previousStatus, ...changes, pendingCount, failedCount, conflictCount };
+  statusListeners.forEach(listener => listener(status));
+  return status;
+};
+
+/**
+ * Pushes and pulls shortly after a local write, unless a sync is already scheduled
+ */
+const scheduleSync = () => {
+  if (scheduledSyncId) return;
+
+  scheduledSyncId = setTimeout(() => {
+    scheduledSyncId = null;
+    syncNow();
+  }, SYNC_DEBOUNCE_MS);
+};
+
+const requireCollection = (name: string): RegisteredCollection => {
+  const collection = collections.get(name);
+  if (!collection) throw new Error(`Synced collection "${name}" is not registered`);
+  return collection;
+};
+
+const getEntriesForRecord = async ({ outbox }: UserSyncData, collection: string, recordId: string) => {
+  const entries = await outbox.findBy('recordId', recordId);
+  return entries.filter(entry => entry.collection === collection);
+};
+
+const isUnsent = (entry: OutboxEntry) => entry.sentAt === null;
+
+/**
+ * Makes the server version of a record the local one, dropping it when it was deleted
+ */
+const applyRemoteRecord = async (records: LocalRecords, remote: SyncedRecord) => {
+  if (remote.deletedAt !== null) {
+    await records.remove(remote.id);
+  } else {
+    await records.put(remote);
+  }
+};
+
+/**
+ * Adds a local change to the outbox
+ * A change that was never sent is replaced instead, as the server can't have seen its idempotency key
+ */
+const enqueueChange = async (
+  data: UserSyncData,
+  collection: string,
+  operation: SyncOperation,
+  record: SyncedRecord,
+) => {
+  const { outbox } = data;
+  const entries = await getEntriesForRecord(data, collection, record.id);
+  const unsentEntry = entries.find(entry => entry.status === 'pending' && isUnsent(entry));
+
+  const replacedEntry = unsentEntry ? await outbox.update(unsentEntry.id, { operation, record }) : null;
+
+  // An entry that went out in the meantime was sent as it was, the change is queued after it
+  if (!replacedEntry || replacedEntry.sentAt !== null) {
+    await outbox.insert({
+      id: Crypto.randomUUID(),
+      collection,
+      recordId: record.id,
+      operation,
+      record,
+      baseVersion: record.version,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      status: 'pending',
+      lastError: null,
+      createdAt: Date.now(),
+      sentAt: null,
+    });
+  }
+
+  await updateStatus();
+  scheduleSync();
+};
+
+/**
+ * Handles a record changed both on the device and on the server
+ * Clinical records become a conflict for the user to resolve, other records keep the newest change
+ */
+const resolveConcurrentChange = async (
+  data: UserSyncData,
+  collectionName: string,
+  { getRecords, isClinical }: RegisteredCollection,
+  local: SyncedRecord,
+  remote: SyncedRecord,
+) => {
+  const { outbox, conflicts } = data;
+  const records = getRecords(data.userId);
+  const entries = await getEntriesForRecord(data, collectionName, local.id);
+  await Promise.all(entries.map(entry => outbox.remove(entry.id)));
+
+  if (isClinical) {
+    const conflict: SyncConflict = {
+      id: getConflictId(collectionName, local.id),
+      collection: collectionName,
+      recordId: local.id,
+      local,
+      remote,
+      detectedAt: Date.now(),
+    };
+
+    if (await conflicts.getById(conflict.id)) {
+      await conflicts.update(conflict.id, conflict);
+    } else {
+      await conflicts.insert(conflict);
+    }
+    return;
+  }
+
+  if (local.updatedAt > remote.updatedAt) {
+    // The local change is the newest, send it again on top of the server version
+    const rebasedRecord = { ...local, version: remote.version };
+    await records.put(rebasedRecord);
+    await enqueueChange(data, collectionName, local.deletedAt !== null ? 'delete' : 'upsert', rebasedRecord);
+  } else {
+    await applyRemoteRecord(records, remote);
+  }
+};
+
+/**
+ * Updates the local record and the changes queued after it once the server accepted a change
+ */
+const handleAppliedChange = async (
+  data: UserSyncData,
+  entry: OutboxEntry,
+  remote: SyncedRecord,
+  { getRecords }: RegisteredCollection,
+) => {
+  const records = getRecords(data.userId);
+  const laterEntries = await getEntriesForRecord(data, entry.collection, entry.recordId);
+  await Promise.all(laterEntries.map(laterEntry => data.outbox.update(laterEntry.id, { baseVersion: remote.version })));
+
+  const local = await records.getById(entry.recordId);
+  if (!local) return;
+
+  if (laterEntries.length === 0 && local.updatedAt <= entry.record.updatedAt) {
+    // Nothing changed on the device since, the server version is now the local one
+    await applyRemoteRecord(records, remote);
+  } else {
+    await records.put({ ...local, version: remote.version });
+  }
+};
+
+/**
+ * Counts a failed push, setting the change aside once retrying won't help
+ */
+const recordFailedAttempt = async ({ outbox }: UserSyncData, entry: OutboxEntry, error: unknown) => {
+  const attempts = entry.attempts + 1;
+  const canRetry = isRetryableSyncError(error) && attempts < MAX_PUSH_ATTEMPTS;
+
+  await outbox.update(entry.id, {
+    attempts,
+    nextAttemptAt: Date.now() + Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS),
+    status: canRetry ? 'pending' : 'failed',
+    lastError: getErrorMessage(error),
+  });
+};
+
+/**
+ * Sends the outbox to the server in the order the changes were made
+ * Stops at the first connectivity error, as the following changes would fail the same way
+ */
+const pushChanges = async (data: UserSyncData, token: string) => {
+  const { outbox } = data;
+  // Every entry in the order the changes were made, set aside ones included as they still hold back their record
+  const entries = await outbox.getAll();
+  // Records with an earlier change still waiting, their later changes must not overtake it
+  const blockedRecords = new Set<string>();
+
+  for (const queuedEntry of entries) {
+    // Earlier pushes may have rebased or dropped the entry
+    const storedEntry = await outbox.getById(queuedEntry.id);
+    const recordKey = getConflictId(queuedEntry.collection, queuedEntry.recordId);
+    if (!storedEntry) continue;
+
+    const collection = collections.get(storedEntry.collection);
+    const isBlocked = blockedRecords.has(recordKey)
+      || storedEntry.status === 'failed'
+      || storedEntry.nextAttemptAt > Date.now();
+    if (!collection || isBlocked) {
+      blockedRecords.add(recordKey);
+      continue;
+    }
+
+    // Marked before it goes out, so later edits are queued separately instead of changing what was sent
+    const entry = storedEntry.sentAt === null
+      ? await outbox.update(storedEntry.id, { sentAt: Date.now() })
+      : storedEntry;
+
+    try {
+      const result = await getSyncBackend().push(token, {
+        idempotencyKey: entry.id,
+        collection: entry.collection,
+        operation: entry.operation,
+        record: entry.record,
+        baseVersion: entry.baseVersion,
+      });
+      await outbox.remove(entry.id);
+
+      if (result.status === 'applied') {
+        await handleAppliedChange(data, entry, result.record, collection);
+      } else {
+        const local = await collection.getRecords(data.userId).getById(entry.recordId);
+        await resolveConcurrentChange(data, entry.collection, collection, local ?? entry.record, result.record);
+      }
+    } catch (error) {
+      if (isOfflineSyncError(error) || (error instanceof SyncError && error.code === 'UNAUTHORIZED')) throw error;
+
+      console.warn(`Failed to push change to ${entry.collection}/${entry.recordId}:`, error);
+      await recordFailedAttempt(data, entry, error);
+      blockedRecords.add(recordKey);
+    }
+  }
+};
+
+/**
+ * Merges a record received from the server into its local collection
+ */
+const mergeRemoteRecord = async (
+  data: UserSyncData,
+  collectionName: string,
+  collection: RegisteredCollection,
+  remote: SyncedRecord,
+) => {
+  const { conflicts } = data;
+  const records = collection.getRecords(data.userId);
+  const conflict = await conflicts.getById(getConflictId(collectionName, remote.id));
+  if (conflict) {
+    // Keep the conflict pointing at the latest server version
+    if (remote.version > conflict.remote.version) await conflicts.update(conflict.id, { remote });
+    return;
+  }
+
+  const local = await records.getById(remote.id);
+  if (local && remote.version <= local.version) return;
+
+  const entries = await getEntriesForRecord(data, collectionName, remote.id);
+  if (entries.length === 0 || !local) {
+    await applyRemoteRecord(records, remote);
+  } else if (entries.some(entry => entry.baseVersion < remote.version)) {
+    await resolveConcurrentChange(data, collectionName, collection, local, remote);
+  }
+};
+
+/**
+ * Fetches what changed on the server since the last pull of each collection
+ */
+const pullChanges = async (data: UserSyncData, token: string) => {
+  const storedCursors = await safeStorage.getItem(data.cursorsKey);
+  const cursors: Record<string, string> = storedCursors ? JSON.parse(storedCursors) : {};
+
+  for (const [name, collection] of collections) {
+    const { records, cursor } = await getSyncBackend().pull(token, name, cursors[name] ?? null);
+    for (const remote of records) {
+      await mergeRemoteRecord(data, name, collection, remote);
+    }
+
+    cursors[name] = cursor;
+    await safeStorage.setItem(data.cursorsKey, JSON.stringify(cursors));
+  }
+};
+
+const runSync = async (): Promise<SyncStatus> => {
+  const [token, user, impersonatedUser] = await Promise.all([
+    AuthService.getSavedToken(),
+    AuthService.getSavedUser(),
+    AuthService.getImpersonatedUser(),
+  ]);
+
+  // Nothing is synced while signed out, or while an admin views the app as another user
+  if (!token || !user || impersonatedUser) return updateStatus();
+
+  const data = getUserSyncData(user.id);
+  await updateStatus({ state: 'syncing' });
+
+  try {
+    await pushChanges(data, token);
+    await pullChanges(data, token);
+    return await updateStatus({ state: 'idle', lastSyncedAt: Date.now(), lastError: null });
+  } catch (error) {
+    console.warn('Sync failed:', error);
+    return updateStatus({
+      state: isOfflineSyncError(error) ? 'offline' : 'error',
+      lastError: getErrorMessage(error),
+    });
+  }
+};
+
+/**
+ * Pushes the local changes and pulls the server ones, joining the sync in progress if there is one
+ */
+export const syncNow = (): Promise<SyncStatus> => {
+  if (!currentSync) {
+    currentSync = runSync().finally(() => {
+      currentSync = null;
+    });
+  }
+
+  return currentSync;
+};
+
+/**
+ * Syncs now, then periodically and whenever the app returns to the foreground
+ * Returns a function that stops it
+ */
+export const startAutoSync = (): (() => void) => {
+  syncNow();
+  // Lets the login screen mention the changes left on the device when the session ends on its own
+  AuthService.setUnsentChangesCounter(async () => (await updateStatus()).pendingCount);
+
+  const intervalId = setInterval(syncNow, AUTO_SYNC_INTERVAL_MS);
+  const subscription = AppState.addEventListener('change', appState => {
+    if (appState === 'active') syncNow();
+  });
+
+  return () => {
+    clearInterval(intervalId);
+    subscription.remove();
+    AuthService.setUnsentChangesCounter(null);
+  };
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+/**
+ * Queues the changes the server refused again, e.g. once the problem was fixed on the server
+ */
+export const retryFailedChanges = async (): Promise<void> => {
+  await AuthService.assertNotImpersonating();
+
+  const data = await getCurrentUserSyncData();
+  if (!data) return;
+
+  const { items: failedEntries } = await data.outbox.query({ where: { status: 'failed' } });
+  await Promise.all(failedEntries.map(entry => data.outbox.update(entry.id, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  })));
+
+  await updateStatus();
+  scheduleSync();
+};
+
+/**
+ * Drops the changes the server refused, with the changes queued after them for the same records,
+ * and pulls those collections again so the records go back to their server version
+ */
+export const discardFailedChanges = async (): Promise<void> => {
+  await AuthService.assertNotImpersonating();
+
+  const data = await getCurrentUserSyncData();
+  if (!data) return;
+
+  const { items: failedEntries } = await data.outbox.query({ where: { status: 'failed' } });
+  const affectedCollections = new Set<string>();
+
+  for (const failedEntry of failedEntries) {
+    const entries = await getEntriesForRecord(data, failedEntry.collection, failedEntry.recordId);
+    await Promise.all(entries.map(entry => data.outbox.remove(entry.id)));
+    await collections.get(failedEntry.collection)?.getRecords(data.userId).remove(failedEntry.recordId);
+    affectedCollections.add(failedEntry.collection);
+  }
+
+  // Without their cursor the next pull fetches the whole collection, the dropped records included
+  const storedCursors = await safeStorage.getItem(data.cursorsKey);
+  const cursors: Record<string, string> = storedCursors ? JSON.parse(storedCursors) : {};
+  affectedCollections.forEach(name => delete cursors[name]);
+  await safeStorage.setItem(data.cursorsKey, JSON.stringify(cursors));
+
+  await updateStatus();
+  scheduleSync();
+};
+
+/**
+ * Syncs, then makes sure no change of the signed-in user is still waiting to reach the server.
+ * Called before the user logs out, throws a SyncError with code UNSENT_CHANGES otherwise.
+ * Changes the server refused for good don't count, retrying won't send them.
+ */
+export const assertNoUnsentChanges = async (): Promise<void> => {
+  const { pendingCount } = await syncNow();
+  if (pendingCount > 0) throw new SyncError('UNSENT_CHANGES');
+};
+
+/**
+ * Listens to sync status changes, returns a function that removes the listener
+ */
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  updateStatus().catch(console.warn);
+
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+/**
+ * List the open conflicts, most recent first
+ */
+export const listConflicts = async (): Promise<SyncConflict[]> => {
+  const data = await getCurrentUserSyncData();
+  if (!data) return [];
+
+  const { items } = await data.conflicts.query({ sortBy: 'detectedAt', order: 'desc' });
+  return items;
+};
+
+/**
+ * Get how a collection and its fields are shown to the user
+ */
+export const getCollectionLabels = (name: string): { label: string; fieldLabels: Record<string, string> } => {
+  const collection = collections.get(name);
+  return { label: collection?.label ?? name, fieldLabels: collection?.fieldLabels ?? {} };
+};
+
+/**
+ * Settles a conflict with the version the user picked
+ * Keeping the local version sends it again on top of the server one
+ */
+export const resolveConflict = async (conflictId: string, resolution: ConflictResolution): Promise<void> => {
+  await AuthService.assertNotImpersonating();
+
+  const data = await getCurrentUserSyncData();
+  const conflict = data ? await data.conflicts.getById(conflictId) : null;
+  if (!data || !conflict) return;
+
+  const records = requireCollection(conflict.collection).getRecords(data.userId);
+
+  if (resolution === 'keep_remote') {
+    await applyRemoteRecord(records, conflict.remote);
+  } else {
+    const local: SyncedRecord = { ...conflict.local, version: conflict.remote.version };
+
+    await records.put(local);
+    await enqueueChange(data, conflict.collection, local.deletedAt !== null ? 'delete' : 'upsert', local);
+  }
+
+  await data.conflicts.remove(conflictId);
+  await updateStatus();
+};
+
+/**
+ * Creates a collection kept on the device and synced with the server
+ * Writes are local first and reach the server through the outbox, so they work offline.
+ * Each user has their own records on the device, reads and writes go to the signed-in user's.
+ * No collection is registered yet, the engine is in place for the trainer data to come.
+ */
+export const createSyncedCollection = <T extends SyncedRecord, F extends IndexableField<T> = never>({
+  name,
+  label,
+  fieldLabels = {},
+  indexes,
+  isClinical = false,
+  isRecord,
+}: SyncedCollectionOptions<T, F>): SyncedCollection<T, F> => {
+  if (collections.has(name)) throw new Error(`Synced collection "${name}" is already registered`);
+
+  const repositories = new Map<string, Repository<T, F>>();
+  const listeners = new Set<RepositoryListener<T>>();
+
+  const getRepository = (userId: string): Repository<T, F> => {
+    let repository = repositories.get(userId);
+
+    if (!repository) {
+      repository = createRepository<T, F>({ name: `sync:${userId}:${name}`, indexes });
+      repository.subscribe(change => listeners.forEach(listener => listener(change)));
+      repositories.set(userId, repository);
+    }
+
+    return repository;
+  };
+
+  const putRecord = async (repository: Repository<T, F>, record: T) => {
+    if (await repository.getById(record.id)) {
+      await repository.update(record.id, record);
+    } else {
+      await repository.insert(record);
+    }
+  };
+
+  collections.set(name, {
+    getRecords: userId => {
+      const repository = getRepository(userId);
+
+      return {
+        getById: id => repository.getById(id),
+        put: async record => {
+          if (!isRecord(record)) {
+            console.warn(`Skipped a record of ${name} without the fields of the collection:`, record.id);
+            return;
+          }
+          await putRecord(repository, record);
+        },
+        remove: id => repository.remove(id),
+      };
+    },
+    isClinical,
+    label,
+    fieldLabels: Object.fromEntries(Object.entries(fieldLabels)),
+  });
+
+  const isVisible = (record: T) => record.deletedAt === null;
+
+  /**
+   * Sync data of the signed-in user, writes are refused while signed out
+   */
+  const requireUserSyncData = async (): Promise<UserSyncData> => {
+    const data = await getCurrentUserSyncData();
+    if (!data) throw new AuthError('SESSION_EXPIRED');
+    return data;
+  };
+
+  const getById = async (id: string): Promise<T | null> => {
+    const data = await getCurrentUserSyncData();
+    const record = data ? await getRepository(data.userId).getById(id) : null;
+    return record && isVisible(record) ? record : null;
+  };
+
+  const query = async (options: QueryOptions<T, F> = {}): Promise<Page<T>> => {
+    const data = await getCurrentUserSyncData();
+    if (!data) return { items: [], total: 0, offset: options.offset ?? 0, hasMore: false };
+
+    const { filter } = options;
+    return getRepository(data.userId).query({
+      ...options,
+      filter: record => isVisible(record) && (!filter || filter(record)),
+    });
+  };
+
+  const save = async (data: NewSyncedRecord<T>): Promise<T> => {
+    await AuthService.assertNotImpersonating();
+
+    const userData = await requireUserSyncData();
+    const repository = getRepository(userData.userId);
+    const id = data.id ?? Crypto.randomUUID();
+    const existing = await repository.getById(id);
+    const record: SyncedRecord = {
+      ...existing,
+      ...data,
+      id,
+      version: existing?.version ?? 0,
+      updatedAt: Date.now(),
+      deletedAt: null,
+    };
+    if (!isRecord(record)) throw new Error(`Record does not have the fields of the "${name}" collection`);
+
+    await putRecord(repository, record);
+
+    // While a conflict is open the edit goes into the local side of it, the user still has to pick a version
+    const conflict = await userData.conflicts.getById(getConflictId(name, id));
+    if (conflict) {
+      await userData.conflicts.update(conflict.id, { local: record });
+    } else {
+      await enqueueChange(userData, name, 'upsert', record);
+    }
+
+    return record;
+  };
+
+  const remove = async (id: string): Promise<void> => {
+    await AuthService.assertNotImpersonating();
+
+    const data = await requireUserSyncData();
+    const repository = getRepository(data.userId);
+    const existing = await repository.getById(id);
+    if (!existing || existing.deletedAt !== null) return;
+
+    const entries = await getEntriesForRecord(data, name, id);
+    if (existing.version === 0 && entries.every(isUnsent)) {
+      // The record never reached the server, there is nothing to delete there
+      await Promise.all(entries.map(entry => data.outbox.remove(entry.id)));
+      await repository.remove(id);
+      await updateStatus();
+      return;
+    }
+
+    const tombstone = { ...existing, updatedAt: Date.now(), deletedAt: Date.now() };
+    await repository.update(id, tombstone);
+
+    const conflict = await data.conflicts.getById(getConflictId(name, id));
+    if (conflict) {
+      await data.conflicts.update(conflict.id, { local: tombstone });
+    } else {
+      await enqueueChange(data, name, 'delete', tombstone);
+    }
+  };
+
+  return {
+    getById,
+    query,
+    save,
+    remove,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * Fields every record kept in a synced collection carries
+ */
+export interface SyncedRecord {
+  id: string;
+  // Assigned by the server on every change it accepts, 0 until the record was first pushed
+  version: number;
+  // Milliseconds since the epoch of the last change, local or remote
+  updatedAt: number;
+  // Deleted records are kept until the deletion reached the server
+  deletedAt: number | null;
+}
+
+export type SyncOperation = 'upsert' | 'delete';
+
+/**
+ * Local change waiting to be pushed to the server
+ */
+export interface OutboxEntry {
+  // Doubles as the idempotency key, so a push repeated after a lost response is applied only once
+  id: string;
+  collection: string;
+  recordId: string;
+  operation: SyncOperation;
+  record: SyncedRecord;
+  // Server version the change was made on, the server rejects the change when it moved on since
+  baseVersion: number;
+  attempts: number;
+  nextAttemptAt: number;
+  // Entries the server refused for good are kept, and shown, instead of being retried
+  status: 'pending' | 'failed';
+  lastError: string | null;
+  createdAt: number;
+  // Set once the change went out, from then on the server may know its idempotency key and it is never replaced
+  sentAt: number | null;
+}
+
+export interface SyncMutation {
+  idempotencyKey: string;
+  collection: string;
+  operation: SyncOperation;
+  record: SyncedRecord;
+  baseVersion: number;
+}
+
+export type PushResult =
+  | { status: 'applied'; record: SyncedRecord }
+  // The record changed on the server since baseVersion, the current server record is returned
+  | { status: 'conflict'; record: SyncedRecord };
+
+export interface PullResult {
+  // Records changed since the cursor, deleted ones included with deletedAt set
+  records: SyncedRecord[];
+  // Opaque position to pull from next time
+  cursor: string;
+}
+
+/**
+ * Clinical record changed both on the device and on the server, waiting for the user to pick a version
+ */
+export interface SyncConflict {
+  // `${collection}:${recordId}`, a record has at most one open conflict
+  id: string;
+  collection: string;
+  recordId: string;
+  local: SyncedRecord;
+  remote: SyncedRecord;
+  detectedAt: number;
+}
+
+export type ConflictResolution = 'keep_local' | 'keep_remote';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  failedCount: number;
+  conflictCount: number;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+export type SyncErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'INVALID_CHANGE'
+  | 'SERVER_ERROR'
+  | 'UNSENT_CHANGES'
+  | 'UNKNOWN';
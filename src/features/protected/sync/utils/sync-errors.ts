@@ -0,0 +1,43 @@
+import { SyncErrorCode } from '../types';
+
+/**
+ * User-facing messages for each sync error code
+ */
+export const SYNC_ERROR_MESSAGES: Record<SyncErrorCode, string> = {
+  NETWORK_ERROR: 'Sem conexão com o servidor. As alterações serão enviadas quando a conexão voltar.',
+  TIMEOUT: 'O servidor demorou muito para responder. A sincronização será repetida.',
+  UNAUTHORIZED: 'Sua sessão expirou. Faça login novamente para sincronizar.',
+  FORBIDDEN: 'Você não tem permissão para alterar este registro.',
+  INVALID_CHANGE: 'O servidor recusou esta alteração.',
+  SERVER_ERROR: 'Ocorreu um erro no servidor. A sincronização será repetida.',
+  UNSENT_CHANGES: 'Há alterações que ainda não foram enviadas ao servidor. Conecte-se à internet e aguarde a sincronização antes de sair.',
+  UNKNOWN: 'Ocorreu um erro ao sincronizar. Tente novamente.',
+};
+
+/**
+ * Error thrown by sync backends and the sync service, the message can be shown to the user
+ */
+export class SyncError extends Error {
+  code: SyncErrorCode;
+
+  constructor(code: SyncErrorCode, message: string = SYNC_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'SyncError';
+    this.code = code;
+  }
+}
+
+/**
+ * Checks whether a failed push may succeed when repeated later
+ */
+export const isRetryableSyncError = (error: unknown): boolean => {
+  if (!(error instanceof SyncError)) return true;
+  return ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'UNAUTHORIZED', 'UNKNOWN'].includes(error.code);
+};
+
+/**
+ * Checks whether an error means the server can't be reached at all
+ */
+export const isOfflineSyncError = (error: unknown): boolean => {
+  return error instanceof SyncError && (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT');
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../../../public/authentication/services/auth-service';
+import { Invite } from '../../../public/authentication/types';
+
+export const useInvites = () => {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingCode, setRevokingCode] = useState<string | null>(null);
+  
+  // Load the invites that were not used yet
+  const loadInvites = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setInvites(await AuthService.listPendingInvites());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os convites.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+  
+  // Create an invite and show it first in the list
+  const createInvite = async () => {
+    setIsCreating(true);
+    
+    try {
+      const invite = await AuthService.createInvite();
+      setInvites(current => [invite, ...current]);
+      return invite;
+    } finally {
+      setIsCreating(false);
+    }
+  };
+  
+  // Revoke an invite and remove it from the list
+  const revokeInvite = async (code: string) => {
+    setRevokingCode(code);
+    
+    try {
+      await AuthService.revokeInvite(code);
+      setInvites(current => current.filter(invite => invite.code !== code));
+    } finally {
+      setRevokingCode(null);
+    }
+  };
+  
+  return {
+    invites,
+    isLoading,
+    error,
+    isCreating,
+    revokingCode,
+    createInvite,
+    revokeInvite,
+    reload: loadInvites,
+  };
+};
@@ -2,13 +2,16 @@ import React from 'react';
 import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, Image, ScrollView, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useAuthContext } from '../../../public/authentication/components/AuthProvider';
+import { RequirePermission, RoleSwitcher, useAuthContext } from '../../../public/authentication/components';
 import { colors, spacing, typography } from '../../../../theme';
 import { Button } from '../../../../shared/components';
+import { SyncStatusIndicator } from '../../sync/components';
+import { useSyncedLogout } from '../../sync/hooks/useSyncedLogout';
 
 const TrainerHomeScreen = () => {
   const router = useRouter();
-  const { user, logout } = useAuthContext();
+  const { user, impersonator } = useAuthContext();
+  const logout = useSyncedLogout();
   
   const handleLogout = async () => {
     await logout();
@@ -22,6 +25,8 @@ const TrainerHomeScreen = () => {
           <View style={styles.welcomeContainer}>
             <Text style={styles.welcomeText}>Olá,</Text>
             <Text style={styles.userName}>{user?.name || 'Treinador'}</Text>
+            <RoleSwitcher />
+            <SyncStatusIndicator onOpenConflicts={() => router.push('/trainer/sync-conflicts')} />
           </View>
           
           <TouchableOpacity style={styles.profileContainer} onPress={() => {}}>
@@ -68,20 +73,41 @@ const TrainerHomeScreen = () => {
           </View>
           
           <View style={styles.actionsContainer}>
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="add-circle" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Novo Agendamento</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="appointments:write">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="add-circle" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Novo Agendamento</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="person-add" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Novo Aluno</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="students:write">
+              <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/trainer/invites')}>
+                <Ionicons name="person-add" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Novo Aluno</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             
-            <TouchableOpacity style={styles.actionButton}>
-              <Ionicons name="document-text" size={24} color={colors.primary.default} />
-              <Text style={styles.actionText}>Registros</Text>
-            </TouchableOpacity>
+            <RequirePermission permission="records:read">
+              <TouchableOpacity style={styles.actionButton}>
+                <Ionicons name="document-text" size={24} color={colors.primary.default} />
+                <Text style={styles.actionText}>Registros</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            
+            {/* Account settings would act on the admin's own account while impersonating */}
+            {!impersonator && (
+              <>
+                <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/trainer/two-factor')}>
+                  <Ionicons name="shield-checkmark" size={24} color={colors.primary.default} />
+                  <Text style={styles.actionText}>Verificação em Duas Etapas</Text>
+                </TouchableOpacity>
+                
+                <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/trainer/devices')}>
+                  <Ionicons name="phone-portrait" size={24} color={colors.primary.default} />
+                  <Text style={styles.actionText}>Dispositivos Conectados</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
           
           <Button
@@ -0,0 +1,241 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Share,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography } from '../../../../theme';
+import { Button } from '../../../../shared/components';
+import { useInvites } from '../hooks/useInvites';
+import { Invite } from '../../../public/authentication/types';
+import { createDeepLinkUrl } from '../../../../navigation/deep-links';
+
+const InvitesScreen = () => {
+  const router = useRouter();
+  const { invites, isLoading, error, isCreating, revokingCode, createInvite, revokeInvite, reload } = useInvites();
+  
+  const shareInvite = (invite: Invite) => {
+    const link = createDeepLinkUrl({ type: 'invite', code: invite.code });
+    
+    Share.share({
+      message: `Você foi convidado para o PhysiPro! Use o código ${invite.code} ou abra o link: ${link}`,
+    }).catch(console.warn);
+  };
+  
+  const handleCreate = async () => {
+    try {
+      const invite = await createInvite();
+      shareInvite(invite);
+    } catch (createError) {
+      Alert.alert(
+        'Erro ao criar convite',
+        createError instanceof Error ? createError.message : 'Não foi possível criar o convite. Tente novamente.',
+      );
+    }
+  };
+  
+  const handleRevoke = (invite: Invite) => {
+    Alert.alert(
+      'Revogar convite',
+      `O código ${invite.code} deixará de funcionar. Deseja continuar?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Revogar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeInvite(invite.code);
+            } catch (revokeError) {
+              Alert.alert(
+                'Erro ao revogar convite',
+                revokeError instanceof Error ? revokeError.message : 'Não foi possível revogar o convite.',
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+  
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (error) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Tentar novamente" variant="outline" onPress={reload} />
+        </View>
+      );
+    }
+    
+    if (invites.length === 0) {
+      return (
+        <View style={styles.feedback}>
+          <Ionicons name="mail-outline" size={48} color={colors.text.secondary} />
+          <Text style={styles.emptyText}>Nenhum convite pendente</Text>
+        </View>
+      );
+    }
+    
+    return invites.map(invite => (
+      <View key={invite.code} style={styles.card}>
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{invite.code}</Text>
+          <Text style={styles.cardDetail}>
+            Expira em {new Date(invite.expiresAt).toLocaleDateString('pt-BR')}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.cardAction} onPress={() => shareInvite(invite)}>
+          <Ionicons name="share-outline" size={22} color={colors.primary.default} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.cardAction}
+          onPress={() => handleRevoke(invite)}
+          disabled={revokingCode !== null}
+        >
+          {revokingCode === invite.code ? (
+            <ActivityIndicator size="small" color={colors.feedback.error} />
+          ) : (
+            <Ionicons name="close-circle-outline" size={22} color={colors.feedback.error} />
+          )}
+        </TouchableOpacity>
+      </View>
+    ));
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Convidar Alunos</Text>
+      </View>
+      
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.description}>
+          Cada convite pode ser usado uma única vez e expira em 7 dias. O aluno que usar o convite
+          será vinculado automaticamente à sua conta.
+        </Text>
+        
+        <Button
+          title="Gerar convite"
+          isLoading={isCreating}
+          disabled={isCreating}
+          onPress={handleCreate}
+          style={styles.createButton}
+        />
+        
+        <Text style={styles.sectionTitle}>Convites pendentes</Text>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  description: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+  createButton: {
+    marginBottom: spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  feedback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.neutrals.white,
+    borderRadius: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  cardTitle: {
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+    letterSpacing: 2,
+  },
+  cardDetail: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  cardAction: {
+    padding: spacing.sm,
+  },
+});
+
+export default InvitesScreen;
@@ -1 +1,2 @@
-export { default as TrainerHomeScreen } from './HomeScreen'; 
\ No newline at end of file
+export { default as TrainerHomeScreen } from './HomeScreen';
+export { default as InvitesScreen } from './InvitesScreen';
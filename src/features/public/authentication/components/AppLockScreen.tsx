@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, TextInput } from '../../../../shared/components';
+import { colors, spacing, typography } from '../../../../theme';
+import { PinVerification } from '../services/app-lock-service';
+import { isPinValid } from '../utils/validators';
+
+const PIN_MAX_LENGTH = 6;
+
+interface AppLockScreenProps {
+  mode: 'setup' | 'unlock';
+  userName: string;
+  onCreatePin: (pin: string) => Promise<boolean>;
+  onUnlock: (pin: string) => Promise<PinVerification>;
+  onLogout: () => void;
+}
+
+/**
+ * Full-screen overlay asking for the app-lock PIN, or asking to create one
+ */
+const AppLockScreen: React.FC<AppLockScreenProps> = ({
+  mode,
+  userName,
+  onCreatePin,
+  onUnlock,
+  onLogout,
+}) => {
+  const [pin, setPin] = useState('');
+  const [pinConfirmation, setPinConfirmation] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  
+  const isSetup = mode === 'setup';
+  const firstName = userName.split(' ')[0];
+  const confirmationError = isSetup && pinConfirmation.length > 0 && pinConfirmation !== pin
+    ? 'Os PINs não coincidem'
+    : undefined;
+  const isFormValid = isPinValid(pin) && (!isSetup || pin === pinConfirmation);
+  
+  const handleChangePin = (text: string) => {
+    setPin(text.replace(/\D/g, ''));
+    setError(undefined);
+  };
+  
+  const handleSubmit = async () => {
+    if (!isFormValid) return;
+    
+    setIsSubmitting(true);
+    try {
+      if (isSetup) {
+        const success = await onCreatePin(pin);
+        if (!success) setError('Não foi possível salvar o PIN. Tente novamente.');
+        return;
+      }
+      
+      const result = await onUnlock(pin);
+      if (!result.isValid) {
+        setPin('');
+        setError(`PIN incorreto. Você ainda tem ${result.remainingAttempts} tentativa(s).`);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.iconContainer}>
+          <Ionicons name="lock-closed" size={48} color={colors.primary.default} />
+        </View>
+        
+        <Text style={styles.title}>{isSetup ? 'Crie um PIN' : 'App bloqueado'}</Text>
+        <Text style={styles.subtitle}>
+          {isSetup
+            ? 'O PIN de 4 a 6 dígitos será pedido quando o app ficar inativo ou voltar do segundo plano.'
+            : `Olá, ${firstName}. Digite seu PIN para continuar.`}
+        </Text>
+        
+        <View style={styles.inputContainer}>
+          <TextInput
+            label="PIN"
+            placeholder="Digite o PIN"
+            value={pin}
+            onChangeText={handleChangePin}
+            error={error}
+            keyboardType="number-pad"
+            maxLength={PIN_MAX_LENGTH}
+            isPassword
+            secureTextEntry
+            startIcon={
+              <Ionicons name="keypad-outline" size={24} color={colors.neutrals.darkGray} />
+            }
+          />
+          
+          {isSetup && (
+            <TextInput
+              label="Confirmar PIN"
+              placeholder="Digite o PIN novamente"
+              value={pinConfirmation}
+              onChangeText={text => setPinConfirmation(text.replace(/\D/g, ''))}
+              error={confirmationError}
+              keyboardType="number-pad"
+              maxLength={PIN_MAX_LENGTH}
+              isPassword
+              secureTextEntry
+              startIcon={
+                <Ionicons name="keypad-outline" size={24} color={colors.neutrals.darkGray} />
+              }
+            />
+          )}
+        </View>
+        
+        <Button
+          title={isSetup ? 'Salvar PIN' : 'Desbloquear'}
+          disabled={!isFormValid || isSubmitting}
+          isLoading={isSubmitting}
+          style={styles.submitButton}
+          onPress={handleSubmit}
+        />
+        
+        <TouchableOpacity style={styles.logoutButton} onPress={onLogout} disabled={isSubmitting}>
+          <Text style={styles.logoutText}>Sair e entrar com outra conta</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: spacing.xl,
+    paddingVertical: spacing.xxl,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontSize: typography.sizes.xxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+  submitButton: {
+    marginBottom: spacing.lg,
+  },
+  logoutButton: {
+    alignSelf: 'center',
+    padding: spacing.xs,
+  },
+  logoutText: {
+    color: colors.primary.default,
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.semiBold as '600',
+  },
+});
+
+export default AppLockScreen;
@@ -1,17 +1,49 @@
-import React, { createContext, useContext, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
+import { View, StyleSheet } from 'react-native';
 import { useAuth } from '../hooks/useAuth';
-import { LoginCredentials, User } from '../types';
+import * as AuthService from '../services/auth-service';
+import { DEFAULT_IDLE_TIMEOUT_MS, useAppLock } from '../hooks/useAppLock';
+import {
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  RegistrationData,
+  RegistrationResult,
+  TwoFactorChallenge,
+  User,
+  UserType,
+} from '../types';
+import { ApiError, setApiSessionHandler } from '../../../../shared/api';
+import { colors } from '../../../../theme';
+import AppLockScreen from './AppLockScreen';
+import ImpersonationBanner from './ImpersonationBanner';
 
 // Create the context with a default value
 interface AuthContextType {
   user: User | null;
+  impersonator: User | null;
   token: string | null;
+  expiresAt: number | null;
   isLoading: boolean;
+  isRefreshing: boolean;
+  isSessionStale: boolean;
   isInitialized: boolean;
   isAuthenticated: boolean;
+  isAppLocked: boolean;
   error: string | null;
-  login: (credentials: LoginCredentials) => Promise<any>;
-  logout: () => Promise<void>;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<LoginResponse>;
+  cancelTwoFactor: () => void;
+  register: (data: RegistrationData) => Promise<RegistrationResult>;
+  logout: (reason?: string) => Promise<void>;
+  expireSession: (error?: unknown) => Promise<void>;
+  refreshSession: () => Promise<string | null>;
+  reloadUser: () => Promise<void>;
+  startImpersonation: (userId: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
+  switchRole: (role: UserType) => Promise<void>;
+  lockApp: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,14 +51,76 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 // Create a provider component
 interface AuthProviderProps {
   children: ReactNode;
+  // Idle period after which the app asks for the PIN again
+  idleTimeoutMs?: number;
 }
 
-export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+export const AuthProvider: React.FC<AuthProviderProps> = ({
+  children,
+  idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+}) => {
   const auth = useAuth();
+  // The PIN belongs to the admin, also while viewing the app as someone else
+  const sessionUser = auth.impersonator ?? auth.user;
+  const appLock = useAppLock({
+    user: sessionUser,
+    isInitialized: auth.isInitialized,
+    idleTimeoutMs,
+    onForcedLogout: auth.logout,
+  });
+  
+  // Read by the API client when a request is sent, so requests always use the latest token
+  const tokenRef = useRef(auth.token);
+  tokenRef.current = auth.token;
+  const { refreshSession, expireSession } = auth;
+  
+  // Authenticate the API client requests with this session, logging out when the server no longer accepts it
+  useEffect(() => {
+    setApiSessionHandler({
+      getToken: () => tokenRef.current,
+      refreshToken: async () => {
+        const token = await refreshSession();
+        
+        // Still signed in: renewing failed for a transient reason, only this request fails
+        if (!token && await AuthService.getSavedToken()) throw new ApiError('NETWORK_ERROR');
+        return token;
+      },
+      onSessionExpired: () => expireSession(),
+    });
+    
+    return () => setApiSessionHandler(null);
+  }, [refreshSession, expireSession]);
+  
+  // Any touch anywhere in the app counts as activity
+  const handleTouchCapture = () => {
+    appLock.registerActivity();
+    return false;
+  };
   
   return (
-    <AuthContext.Provider value={auth}>
-      {children}
+    <AuthContext.Provider value={{ ...auth, isAppLocked: appLock.isLocked, lockApp: appLock.lock }}>
+      <View style={styles.container} onStartShouldSetResponderCapture={handleTouchCapture}>
+        {auth.impersonator && auth.user && (
+          <ImpersonationBanner userName={auth.user.name} onExit={auth.stopImpersonation} />
+        )}
+        
+        <View style={styles.container}>
+          {children}
+        </View>
+        
+        {/* Cover the app while the PIN lookup for a restored session is pending */}
+        {appLock.status === 'checking' && <View style={styles.cover} />}
+        
+        {(appLock.status === 'locked' || appLock.status === 'setup') && sessionUser && (
+          <AppLockScreen
+            mode={appLock.status === 'setup' ? 'setup' : 'unlock'}
+            userName={sessionUser.name}
+            onCreatePin={appLock.createPin}
+            onUnlock={appLock.unlock}
+            onLogout={() => auth.logout()}
+          />
+        )}
+      </View>
     </AuthContext.Provider>
   );
 };
@@ -40,4 +134,14 @@ export const useAuthContext = () => {
   }
   
   return context;
-}; 
\ No newline at end of file
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  cover: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: colors.background.light,
+  },
+});
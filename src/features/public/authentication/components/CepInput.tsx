@@ -0,0 +1,26 @@
+import React, { forwardRef } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+import { formatCep, isCepValid } from '../utils/validators';
+import MaskedInput, { MaskedInputProps } from './MaskedInput';
+
+const CepInput = forwardRef<RNTextInput, MaskedInputProps>((props, ref) => (
+  <MaskedInput
+    ref={ref}
+    {...props}
+    mask={{
+      label: 'CEP',
+      placeholder: '01310-100',
+      icon: 'location-outline',
+      maxLength: 9,
+      format: formatCep,
+      validate: isCepValid,
+      isComplete: value => value.length === 9,
+      incompleteMessage: 'CEP incompleto',
+      invalidMessage: 'CEP inválido',
+    }}
+  />
+));
+
+CepInput.displayName = 'CepInput';
+
+export default CepInput;
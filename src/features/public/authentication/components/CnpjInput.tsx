@@ -0,0 +1,26 @@
+import React, { forwardRef } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+import { formatCnpj, isCnpjValid } from '../utils/validators';
+import MaskedInput, { MaskedInputProps } from './MaskedInput';
+
+const CnpjInput = forwardRef<RNTextInput, MaskedInputProps>((props, ref) => (
+  <MaskedInput
+    ref={ref}
+    {...props}
+    mask={{
+      label: 'CNPJ',
+      placeholder: '12.345.678/0001-90',
+      icon: 'business-outline',
+      maxLength: 18,
+      format: formatCnpj,
+      validate: isCnpjValid,
+      isComplete: value => value.length === 18,
+      incompleteMessage: 'CNPJ incompleto',
+      invalidMessage: 'CNPJ inválido',
+    }}
+  />
+));
+
+CnpjInput.displayName = 'CnpjInput';
+
+export default CnpjInput;
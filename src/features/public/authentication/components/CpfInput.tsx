@@ -1,22 +1,25 @@
-import React, { useState } from 'react';
+import React, { forwardRef, useState } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { TextInput } from '../../../shared/components';
+import { TextInput } from '../../../../shared/components';
 import { formatCpf, isCpfValid } from '../utils/validators';
-import { colors } from '../../../theme';
+import { colors } from '../../../../theme';
 
 interface CpfInputProps {
   value: string;
   onChangeText: (text: string) => void;
   error?: string;
   onValidChange?: (isValid: boolean) => void;
+  onBlur?: () => void;
 }
 
-const CpfInput: React.FC<CpfInputProps> = ({
+const CpfInput = forwardRef<RNTextInput, CpfInputProps>(({
   value,
   onChangeText,
   error,
   onValidChange,
-}) => {
+  onBlur,
+}, ref) => {
   const [isTouched, setIsTouched] = useState(false);
   
   const handleChangeText = (text: string) => {
@@ -46,6 +49,8 @@ const CpfInput: React.FC<CpfInputProps> = ({
       const isValid = isCpfValid(value);
       onValidChange(isValid);
     }
+    
+    onBlur?.();
   };
   
   // Determine the error message to display
@@ -57,6 +62,7 @@ const CpfInput: React.FC<CpfInputProps> = ({
   
   return (
     <TextInput
+      ref={ref}
       label="CPF"
       placeholder="123.456.789-10"
       keyboardType="numeric"
@@ -74,6 +80,8 @@ const CpfInput: React.FC<CpfInputProps> = ({
       }
     />
   );
-};
+});
+
+CpfInput.displayName = 'CpfInput';
 
 export default CpfInput; 
\ No newline at end of file
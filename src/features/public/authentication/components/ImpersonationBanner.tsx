@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+
+interface ImpersonationBannerProps {
+  userName: string;
+  onExit: () => Promise<void>;
+}
+
+/**
+ * Persistent banner shown while an admin views the app as another user
+ */
+const ImpersonationBanner: React.FC<ImpersonationBannerProps> = ({ userName, onExit }) => {
+  const [isExiting, setIsExiting] = useState(false);
+  
+  const handleExit = async () => {
+    setIsExiting(true);
+    try {
+      await onExit();
+    } catch (error) {
+      Alert.alert(
+        'Erro ao sair da visualização',
+        error instanceof Error ? error.message : 'Não foi possível voltar à sua conta. Tente novamente.',
+      );
+    } finally {
+      setIsExiting(false);
+    }
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons name="eye" size={20} color={colors.neutrals.white} />
+        <View style={styles.textContainer}>
+          <Text style={styles.title} numberOfLines={1}>Visualizando como {userName}</Text>
+          <Text style={styles.subtitle}>Modo somente leitura</Text>
+        </View>
+        <TouchableOpacity style={styles.exitButton} onPress={handleExit} disabled={isExiting}>
+          {isExiting ? (
+            <ActivityIndicator size="small" color={colors.feedback.warning} />
+          ) : (
+            <Text style={styles.exitText}>Sair</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.feedback.warning,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  textContainer: {
+    flex: 1,
+    marginHorizontal: spacing.sm,
+  },
+  title: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.neutrals.white,
+  },
+  subtitle: {
+    fontSize: typography.sizes.xs,
+    color: colors.neutrals.white,
+  },
+  exitButton: {
+    minWidth: 56,
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutrals.white,
+  },
+  exitText: {
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.feedback.warning,
+  },
+});
+
+export default ImpersonationBanner;
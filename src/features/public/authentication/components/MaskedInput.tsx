@@ -0,0 +1,97 @@
+import React, { forwardRef, useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { KeyboardTypeOptions, TextInput as RNTextInput } from 'react-native';
+import { TextInput } from '../../../../shared/components';
+import { colors } from '../../../../theme';
+
+export interface MaskedInputProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  error?: string;
+  onValidChange?: (isValid: boolean) => void;
+  onBlur?: () => void;
+  label?: string;
+  placeholder?: string;
+}
+
+interface MaskConfig {
+  label: string;
+  placeholder: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  keyboardType?: KeyboardTypeOptions;
+  autoCapitalize?: 'none' | 'characters';
+  maxLength: number;
+  format: (text: string) => string;
+  validate: (text: string) => boolean;
+  // Whether the value was fully typed, before that it is only reported as incomplete
+  isComplete: (text: string) => boolean;
+  incompleteMessage: string;
+  invalidMessage: string;
+}
+
+/**
+ * Text input that formats its value with a mask and validates it once complete,
+ * the same way CpfInput does
+ */
+const MaskedInput = forwardRef<RNTextInput, MaskedInputProps & { mask: MaskConfig }>(({
+  value,
+  onChangeText,
+  error,
+  onValidChange,
+  onBlur,
+  label,
+  placeholder,
+  mask,
+}, ref) => {
+  const [isTouched, setIsTouched] = useState(false);
+  
+  const handleChangeText = (text: string) => {
+    const formattedValue = mask.format(text);
+    onChangeText(formattedValue);
+    
+    onValidChange?.(mask.isComplete(formattedValue) && mask.validate(formattedValue));
+  };
+  
+  const handleBlur = () => {
+    setIsTouched(true);
+    
+    if (value && onValidChange) {
+      onValidChange(mask.validate(value));
+    }
+    
+    onBlur?.();
+  };
+  
+  // Determine the error message to display
+  const displayError = error || (isTouched && value.length > 0 && !mask.isComplete(value)
+    ? mask.incompleteMessage
+    : (isTouched && value.length > 0 && !mask.validate(value)
+      ? mask.invalidMessage
+      : undefined));
+  
+  return (
+    <TextInput
+      ref={ref}
+      label={label ?? mask.label}
+      placeholder={placeholder ?? mask.placeholder}
+      keyboardType={mask.keyboardType ?? 'numeric'}
+      autoCapitalize={mask.autoCapitalize ?? 'none'}
+      value={value}
+      onChangeText={handleChangeText}
+      onBlur={handleBlur}
+      error={displayError}
+      maxLength={mask.maxLength}
+      startIcon={
+        <Ionicons
+          name={mask.icon}
+          size={24}
+          color={colors.neutrals.darkGray}
+        />
+      }
+    />
+  );
+});
+
+MaskedInput.displayName = 'MaskedInput';
+
+export default MaskedInput;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PasswordPolicy } from '../types';
+import {
+  PasswordContext,
+  estimatePasswordStrength,
+  getPasswordPolicyViolations,
+} from '../utils/password-policy';
+import { colors, spacing, typography } from '../../../../theme';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  // CPF and name of the user, when already known
+  context?: PasswordContext;
+}
+
+const SEGMENT_COUNT = 4;
+
+const SCORE_COLORS = [
+  colors.feedback.error,
+  colors.feedback.error,
+  colors.feedback.warning,
+  colors.feedback.success,
+  colors.feedback.success,
+];
+
+/**
+ * Shows how strong a password is and which policy rules it still breaks
+ */
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, policy, context }) => {
+  if (password.length === 0) return null;
+
+  const { score, label } = estimatePasswordStrength(password, context);
+  const violations = getPasswordPolicyViolations(password, policy, context);
+  const scoreColor = SCORE_COLORS[score];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments}>
+        {Array.from({ length: SEGMENT_COUNT }, (_, index) => (
+          <View
+            key={index}
+            style={[styles.segment, index < Math.max(score, 1) && { backgroundColor: scoreColor }]}
+          />
+        ))}
+      </View>
+      <Text style={styles.label}>
+        Força da senha: <Text style={[styles.labelValue, { color: scoreColor }]}>{label}</Text>
+      </Text>
+
+      {violations.map(violation => (
+        <View key={violation} style={styles.violation}>
+          <Ionicons name="close-circle-outline" size={16} color={colors.feedback.error} />
+          <Text style={styles.violationText}>{violation}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
+  segments: {
+    flexDirection: 'row',
+    marginBottom: spacing.xs,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    marginHorizontal: spacing.xs / 2,
+    backgroundColor: colors.neutrals.gray,
+  },
+  label: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  labelValue: {
+    fontWeight: typography.weights.semiBold as '600',
+  },
+  violation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  violationText: {
+    flex: 1,
+    marginLeft: spacing.xs,
+    fontSize: typography.sizes.xs,
+    color: colors.feedback.error,
+  },
+});
+
+export default PasswordStrengthMeter;
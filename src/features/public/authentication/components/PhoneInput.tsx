@@ -0,0 +1,36 @@
+import React, { forwardRef } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+import { formatPhone, isPhoneValid, PhoneType } from '../utils/validators';
+import MaskedInput, { MaskedInputProps } from './MaskedInput';
+
+interface PhoneInputProps extends MaskedInputProps {
+  // Accept only mobile or only landline numbers, both by default
+  type?: PhoneType;
+}
+
+// Formatted lengths of a landline, (11) 3265-4321, and a mobile, (11) 98765-4321
+const LANDLINE_LENGTH = 14;
+const MOBILE_LENGTH = 15;
+
+const PhoneInput = forwardRef<RNTextInput, PhoneInputProps>(({ type, ...props }, ref) => (
+  <MaskedInput
+    ref={ref}
+    {...props}
+    mask={{
+      label: type === 'landline' ? 'Telefone fixo' : type === 'mobile' ? 'Celular' : 'Telefone',
+      placeholder: type === 'landline' ? '(11) 3265-4321' : '(11) 98765-4321',
+      icon: type === 'landline' ? 'call-outline' : 'phone-portrait-outline',
+      keyboardType: 'phone-pad',
+      maxLength: MOBILE_LENGTH,
+      format: formatPhone,
+      validate: value => isPhoneValid(value, type),
+      isComplete: value => value.length === LANDLINE_LENGTH || value.length === MOBILE_LENGTH,
+      incompleteMessage: 'Telefone incompleto',
+      invalidMessage: 'Telefone inválido. Informe o DDD e o número',
+    }}
+  />
+));
+
+PhoneInput.displayName = 'PhoneInput';
+
+export default PhoneInput;
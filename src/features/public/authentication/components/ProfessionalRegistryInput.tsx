@@ -0,0 +1,47 @@
+import React, { forwardRef } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+import { formatCref, formatCrefito, isCrefValid, isCrefitoValid } from '../utils/validators';
+import MaskedInput, { MaskedInputProps } from './MaskedInput';
+
+interface ProfessionalRegistryInputProps extends MaskedInputProps {
+  // CREF for physical education professionals, CREFITO for physiotherapists
+  council: 'CREF' | 'CREFITO';
+}
+
+const ProfessionalRegistryInput = forwardRef<RNTextInput, ProfessionalRegistryInputProps>(({ council, ...props }, ref) => (
+  <MaskedInput
+    ref={ref}
+    {...props}
+    mask={council === 'CREF'
+      ? {
+        label: 'CREF',
+        placeholder: '012345-G/SP',
+        icon: 'ribbon-outline',
+        keyboardType: 'default',
+        autoCapitalize: 'characters',
+        maxLength: 11,
+        format: formatCref,
+        validate: isCrefValid,
+        isComplete: value => value.length === 11,
+        incompleteMessage: 'CREF incompleto',
+        invalidMessage: 'CREF inválido. Use o formato 012345-G/SP',
+      }
+      : {
+        label: 'CREFITO',
+        placeholder: '123456-F',
+        icon: 'ribbon-outline',
+        keyboardType: 'default',
+        autoCapitalize: 'characters',
+        maxLength: 9,
+        format: formatCrefito,
+        validate: isCrefitoValid,
+        isComplete: value => /-(F|TO)$/.test(value),
+        incompleteMessage: 'CREFITO incompleto',
+        invalidMessage: 'CREFITO inválido. Use o formato 123456-F',
+      }}
+  />
+));
+
+ProfessionalRegistryInput.displayName = 'ProfessionalRegistryInput';
+
+export default ProfessionalRegistryInput;
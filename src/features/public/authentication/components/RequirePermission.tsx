@@ -0,0 +1,45 @@
+import React, { ReactNode } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { usePermission } from '../hooks/usePermission';
+import { Permission } from '../types';
+
+interface RequirePermissionProps {
+  // Every listed permission is required
+  permission: Permission | Permission[];
+  children: ReactNode;
+  // hide: render the fallback instead, disable: keep the children visible but not interactive
+  mode?: 'hide' | 'disable';
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only for users holding the required permission
+ */
+const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  children,
+  mode = 'hide',
+  fallback = null,
+}) => {
+  const isAllowed = usePermission(permission);
+  
+  if (isAllowed) return <>{children}</>;
+  
+  if (mode === 'disable') {
+    return (
+      <View pointerEvents="none" style={styles.disabled} accessibilityState={{ disabled: true }}>
+        {children}
+      </View>
+    );
+  }
+  
+  return <>{fallback}</>;
+};
+
+const styles = StyleSheet.create({
+  disabled: {
+    opacity: 0.4,
+  },
+});
+
+export default RequirePermission;
@@ -0,0 +1,29 @@
+import React, { forwardRef } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+import { formatRg, isRgValid } from '../utils/validators';
+import MaskedInput, { MaskedInputProps } from './MaskedInput';
+
+const RgInput = forwardRef<RNTextInput, MaskedInputProps>((props, ref) => (
+  <MaskedInput
+    ref={ref}
+    {...props}
+    mask={{
+      label: 'RG',
+      placeholder: '12.345.678-9',
+      icon: 'card-outline',
+      keyboardType: 'default',
+      autoCapitalize: 'characters',
+      maxLength: 14,
+      format: formatRg,
+      validate: isRgValid,
+      // RG lengths vary by state, so any value with enough characters is checked
+      isComplete: value => value.replace(/[^\dX]/g, '').length >= 6,
+      incompleteMessage: 'RG incompleto',
+      invalidMessage: 'RG inválido',
+    }}
+  />
+));
+
+RgInput.displayName = 'RgInput';
+
+export default RgInput;
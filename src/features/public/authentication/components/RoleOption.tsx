@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+
+interface RoleOptionProps {
+  title: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  isSelected: boolean;
+  onPress: () => void;
+}
+
+const RoleOption: React.FC<RoleOptionProps> = ({
+  title,
+  description,
+  icon,
+  isSelected,
+  onPress,
+}) => {
+  return (
+    <TouchableOpacity
+      style={[styles.container, isSelected && styles.containerSelected]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityState={{ checked: isSelected }}
+    >
+      <Ionicons
+        name={icon}
+        size={32}
+        color={isSelected ? colors.primary.default : colors.neutrals.darkGray}
+      />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.description}>{description}</Text>
+      </View>
+      <Ionicons
+        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+        size={24}
+        color={isSelected ? colors.primary.default : colors.neutrals.mediumGray}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.neutrals.gray,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.neutrals.white,
+  },
+  containerSelected: {
+    borderColor: colors.primary.default,
+    backgroundColor: colors.neutrals.lightGray,
+  },
+  textContainer: {
+    flex: 1,
+    marginHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  description: {
+    fontSize: typography.sizes.sm,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+});
+
+export default RoleOption;
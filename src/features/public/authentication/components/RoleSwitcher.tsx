@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { UserType } from '../types';
+import { getUserRoles } from '../utils/permissions';
+import { USER_TYPE_LABELS } from '../utils/user-type-labels';
+import { useAuthContext } from './AuthProvider';
+
+/**
+ * Header control to change the active role of accounts holding more than one
+ * Renders nothing for single-role accounts and while impersonating
+ */
+const RoleSwitcher: React.FC = () => {
+  const { user, impersonator, switchRole } = useAuthContext();
+  const [isOpen, setIsOpen] = useState(false);
+  
+  if (!user || impersonator) return null;
+  
+  const roles = getUserRoles(user);
+  if (roles.length < 2) return null;
+  
+  const handleSelect = async (role: UserType) => {
+    setIsOpen(false);
+    if (role === user.userType) return;
+    
+    try {
+      await switchRole(role);
+    } catch (error) {
+      Alert.alert(
+        'Erro ao trocar de perfil',
+        error instanceof Error ? error.message : 'Não foi possível trocar de perfil. Tente novamente.',
+      );
+    }
+  };
+  
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.trigger}
+        onPress={() => setIsOpen(true)}
+        accessibilityRole="button"
+        accessibilityLabel="Trocar perfil"
+      >
+        <Text style={styles.triggerText}>{USER_TYPE_LABELS[user.userType]}</Text>
+        <Ionicons name="chevron-down" size={16} color={colors.neutrals.white} />
+      </TouchableOpacity>
+      
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={() => setIsOpen(false)}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={() => setIsOpen(false)}>
+          <View style={styles.menu}>
+            <Text style={styles.menuTitle}>Acessar como</Text>
+            {roles.map(role => {
+              const isActive = role === user.userType;
+              
+              return (
+                <TouchableOpacity
+                  key={role}
+                  style={styles.option}
+                  onPress={() => handleSelect(role)}
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Text style={[styles.optionText, isActive && styles.optionTextActive]}>
+                    {USER_TYPE_LABELS[role]}
+                  </Text>
+                  {isActive && <Ionicons name="checkmark" size={20} color={colors.primary.default} />}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+    borderRadius: borderRadius.pill,
+    borderWidth: 1,
+    borderColor: colors.neutrals.white,
+  },
+  triggerText: {
+    marginRight: spacing.xs,
+    fontSize: typography.sizes.sm,
+    color: colors.neutrals.white,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: spacing.xl,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  menu: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.neutrals.white,
+  },
+  menuTitle: {
+    marginBottom: spacing.sm,
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.neutrals.gray,
+  },
+  optionText: {
+    fontSize: typography.sizes.md,
+    color: colors.text.primary,
+  },
+  optionTextActive: {
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.primary.default,
+  },
+});
+
+export default RoleSwitcher;
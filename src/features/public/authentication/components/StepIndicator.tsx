@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing, typography } from '../../../../theme';
+
+interface StepIndicatorProps {
+  steps: string[];
+  currentStep: number;
+}
+
+const StepIndicator: React.FC<StepIndicatorProps> = ({ steps, currentStep }) => {
+  return (
+    <View style={styles.container}>
+      {steps.map((label, index) => {
+        const isActive = index <= currentStep;
+
+        return (
+          <View key={label} style={styles.step}>
+            <View style={[styles.bar, isActive && styles.barActive]} />
+            <Text style={[styles.label, index === currentStep && styles.labelCurrent]}>
+              {label}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    marginBottom: spacing.xl,
+  },
+  step: {
+    flex: 1,
+    marginHorizontal: spacing.xs / 2,
+  },
+  bar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.neutrals.gray,
+    marginBottom: spacing.xs,
+  },
+  barActive: {
+    backgroundColor: colors.primary.default,
+  },
+  label: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  labelCurrent: {
+    color: colors.primary.default,
+    fontWeight: typography.weights.semiBold as '600',
+  },
+});
+
+export default StepIndicator;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, TextInput } from '../../../../shared/components';
+import { colors, spacing, typography } from '../../../../theme';
+
+// Backup codes look like "a1b2-c3d4", authenticator codes have 6 digits
+const BACKUP_CODE_MAX_LENGTH = 9;
+const TOTP_CODE_LENGTH = 6;
+
+interface TwoFactorStepProps {
+  isLoading: boolean;
+  onSubmit: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step asking for the authenticator or backup code
+ */
+const TwoFactorStep: React.FC<TwoFactorStepProps> = ({ isLoading, onSubmit, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  
+  const isCodeComplete = useBackupCode
+    ? code.replace(/[^a-zA-Z0-9]/g, '').length === BACKUP_CODE_MAX_LENGTH - 1
+    : code.length === TOTP_CODE_LENGTH;
+  
+  const handleChangeCode = (text: string) => {
+    setCode(useBackupCode ? text.trim() : text.replace(/\D/g, ''));
+  };
+  
+  const handleToggleBackupCode = () => {
+    setUseBackupCode(current => !current);
+    setCode('');
+  };
+  
+  const handleSubmit = async () => {
+    if (!isCodeComplete) return;
+    
+    try {
+      await onSubmit(code);
+    } catch {
+      setCode('');
+    }
+  };
+  
+  return (
+    <View>
+      <Text style={styles.title}>Verificação em duas etapas</Text>
+      <Text style={styles.subtitle}>
+        {useBackupCode
+          ? 'Digite um dos códigos de backup que você salvou ao ativar a verificação.'
+          : 'Digite o código de 6 dígitos exibido no seu aplicativo autenticador.'}
+      </Text>
+      
+      <View style={styles.inputContainer}>
+        <TextInput
+          label={useBackupCode ? 'Código de backup' : 'Código de autenticação'}
+          placeholder={useBackupCode ? 'xxxx-xxxx' : '000000'}
+          value={code}
+          onChangeText={handleChangeCode}
+          keyboardType={useBackupCode ? 'default' : 'number-pad'}
+          autoCapitalize="none"
+          maxLength={useBackupCode ? BACKUP_CODE_MAX_LENGTH : TOTP_CODE_LENGTH}
+          autoComplete="one-time-code"
+          textContentType="oneTimeCode"
+          startIcon={
+            <Ionicons name="shield-checkmark-outline" size={24} color={colors.neutrals.darkGray} />
+          }
+        />
+      </View>
+      
+      <TouchableOpacity style={styles.toggleButton} onPress={handleToggleBackupCode}>
+        <Text style={styles.linkText}>
+          {useBackupCode ? 'Usar o aplicativo autenticador' : 'Usar um código de backup'}
+        </Text>
+      </TouchableOpacity>
+      
+      <Button
+        title="Verificar"
+        disabled={!isCodeComplete || isLoading}
+        isLoading={isLoading}
+        style={styles.submitButton}
+        onPress={handleSubmit}
+      />
+      
+      <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={isLoading}>
+        <Text style={styles.linkText}>Voltar para o login</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.sm,
+  },
+  toggleButton: {
+    alignSelf: 'flex-end',
+    marginBottom: spacing.xl,
+  },
+  submitButton: {
+    marginBottom: spacing.lg,
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    padding: spacing.xs,
+  },
+  linkText: {
+    color: colors.primary.default,
+    fontSize: typography.sizes.sm,
+    fontWeight: typography.weights.medium as '500',
+  },
+});
+
+export default TwoFactorStep;
@@ -1,2 +1,14 @@
 export { AuthProvider, useAuthContext } from './AuthProvider';
-export { default as CpfInput } from './CpfInput'; 
\ No newline at end of file
+export { default as CpfInput } from './CpfInput';
+export { default as CnpjInput } from './CnpjInput';
+export { default as CepInput } from './CepInput';
+export { default as PhoneInput } from './PhoneInput';
+export { default as RgInput } from './RgInput';
+export { default as ProfessionalRegistryInput } from './ProfessionalRegistryInput';
+export { default as RoleOption } from './RoleOption';
+export { default as StepIndicator } from './StepIndicator';
+export { default as PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { default as TwoFactorStep } from './TwoFactorStep';
+export { default as RequirePermission } from './RequirePermission';
+export { default as ImpersonationBanner } from './ImpersonationBanner';
+export { default as RoleSwitcher } from './RoleSwitcher';
@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import * as AppLockService from '../services/app-lock-service';
+import { User } from '../types';
+import { AUTH_ERROR_MESSAGES } from '../utils/auth-errors';
+
+// Default idle period before the app locks itself
+export const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// How often the idle period is checked
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
+
+/**
+ * - idle: nobody is signed in
+ * - checking: looking up whether the user has a PIN
+ * - setup: the user must create a PIN before continuing
+ * - locked: the PIN is required to continue
+ * - unlocked: the app can be used
+ */
+export type AppLockStatus = 'idle' | 'checking' | 'setup' | 'locked' | 'unlocked';
+
+interface UseAppLockOptions {
+  user: User | null;
+  isInitialized: boolean;
+  idleTimeoutMs: number;
+  // Ends the session when the PIN can't be entered any more
+  onForcedLogout: (reason: string) => Promise<void>;
+}
+
+export const useAppLock = ({ user, isInitialized, idleTimeoutMs, onForcedLogout }: UseAppLockOptions) => {
+  const [status, setStatus] = useState<AppLockStatus>('idle');
+  const lastActivityRef = useRef(Date.now());
+  const isRestoredSessionRef = useRef(true);
+  // Read through a ref so a new callback does not check the PIN again as if the session came from a login
+  const onForcedLogoutRef = useRef(onForcedLogout);
+  onForcedLogoutRef.current = onForcedLogout;
+  const userId = user?.id ?? null;
+  
+  // Decide what the signed in user has to do before using the app
+  useEffect(() => {
+    if (!isInitialized) return;
+    
+    // Only the session found when the app starts is a restored one, later ones come from a login
+    const isRestoredSession = isRestoredSessionRef.current;
+    isRestoredSessionRef.current = false;
+    
+    if (!userId) {
+      setStatus('idle');
+      return;
+    }
+    
+    let isActive = true;
+    setStatus('checking');
+    
+    const checkPin = async () => {
+      let hasPin: boolean;
+      try {
+        hasPin = await AppLockService.hasPin(userId);
+      } catch (error) {
+        console.error('Error retrieving app-lock PIN:', error);
+        // A restored session can't be let in unchecked, a fresh login already proved who the user is
+        hasPin = false;
+      }
+      if (!isActive) return;
+      
+      lastActivityRef.current = Date.now();
+      if (hasPin) {
+        setStatus(isRestoredSession ? 'locked' : 'unlocked');
+      } else if (isRestoredSession) {
+        // Only a fresh login may create a PIN, otherwise anyone holding the device could set one
+        setStatus('locked');
+        await onForcedLogoutRef.current(AUTH_ERROR_MESSAGES.APP_LOCK_UNAVAILABLE);
+      } else {
+        setStatus('setup');
+      }
+    };
+    
+    checkPin();
+    
+    return () => {
+      isActive = false;
+    };
+  }, [isInitialized, userId]);
+  
+  const lock = useCallback(() => {
+    setStatus(current => (current === 'unlocked' ? 'locked' : current));
+  }, []);
+  
+  const registerActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+  
+  // Lock after the idle period without any touch
+  useEffect(() => {
+    if (status !== 'unlocked') return;
+    
+    const intervalId = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= idleTimeoutMs) {
+        lock();
+      }
+    }, Math.min(IDLE_CHECK_INTERVAL_MS, idleTimeoutMs));
+    
+    return () => clearInterval(intervalId);
+  }, [status, idleTimeoutMs, lock]);
+  
+  // Lock whenever the app goes to the background, so it asks for the PIN when it comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'background') {
+        lock();
+      }
+    });
+    
+    return () => subscription.remove();
+  }, [lock]);
+  
+  const createPin = useCallback(async (pin: string) => {
+    if (!userId) return false;
+    
+    let success: boolean;
+    try {
+      success = await AppLockService.setPin(userId, pin);
+    } catch (error) {
+      console.error('Error saving app-lock PIN:', error);
+      success = false;
+    }
+    
+    if (success) {
+      lastActivityRef.current = Date.now();
+      setStatus('unlocked');
+    }
+    return success;
+  }, [userId]);
+  
+  /**
+   * Unlocks the app with the PIN
+   * The session is ended once too many wrong PINs are entered, before the PIN itself is dropped
+   */
+  const unlock = useCallback(async (pin: string) => {
+    if (!userId) return { isValid: false, remainingAttempts: 0 };
+    
+    let result: AppLockService.PinVerification;
+    try {
+      result = await AppLockService.verifyPin(userId, pin);
+    } catch (error) {
+      console.error('Error checking app-lock PIN:', error);
+      await onForcedLogout(AUTH_ERROR_MESSAGES.APP_LOCK_UNAVAILABLE);
+      return { isValid: false, remainingAttempts: 0 };
+    }
+    
+    if (result.isValid) {
+      lastActivityRef.current = Date.now();
+      setStatus('unlocked');
+    } else if (result.remainingAttempts === 0) {
+      await onForcedLogout(AUTH_ERROR_MESSAGES.PIN_ATTEMPTS_EXCEEDED);
+      await AppLockService.clearPin(userId);
+    }
+    
+    return result;
+  }, [userId, onForcedLogout]);
+  
+  return {
+    status,
+    isLocked: status === 'locked' || status === 'setup',
+    lock,
+    unlock,
+    createPin,
+    registerActivity,
+  };
+};
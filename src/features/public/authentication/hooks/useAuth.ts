@@ -1,14 +1,29 @@
-import { useEffect, useReducer, useState } from 'react';
+import { useCallback, useEffect, useReducer, useState } from 'react';
 import * as AuthService from '../services/auth-service';
-import { AuthAction, AuthState, LoginCredentials } from '../types';
+import { AccountStatus, AuthAction, AuthState, LoginCredentials, RegistrationData, UserType } from '../types';
+import { AUTH_ERROR_MESSAGES, AuthError, isSessionEndedError } from '../utils/auth-errors';
+
+// Refresh the access token this long before it expires
+const REFRESH_AHEAD_MS = 60 * 1000;
+
+// Delay before retrying a refresh that failed because of connectivity
+const REFRESH_RETRY_DELAY_MS = 15 * 1000;
+
+// Added to the login screen message when the session ended with changes still on the device
+const UNSENT_CHANGES_NOTICE = 'As alterações ainda não enviadas continuam no aparelho e serão enviadas quando você entrar novamente.';
 
 // Initial auth state
 const initialState: AuthState = {
   user: null,
+  impersonator: null,
   token: null,
+  expiresAt: null,
   isLoading: true, // Start with loading while we check if user is already logged in
+  isRefreshing: false,
+  isSessionStale: false,
   error: null,
   isAuthenticated: false,
+  twoFactorChallenge: null,
 };
 
 // Auth reducer function
@@ -20,15 +35,69 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isLoading: true,
         error: null,
       };
+    case 'TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        twoFactorChallenge: action.payload,
+        error: null,
+      };
+    case 'TWO_FACTOR_CANCEL':
+      return {
+        ...state,
+        isLoading: false,
+        twoFactorChallenge: null,
+        error: action.payload ?? null,
+      };
     case 'LOGIN_SUCCESS':
       return {
         ...state,
         isLoading: false,
         isAuthenticated: true,
+        isSessionStale: false,
         user: action.payload.user,
         token: action.payload.token,
+        expiresAt: action.payload.expiresAt,
+        twoFactorChallenge: null,
         error: null,
       };
+    case 'USER_UPDATE':
+      // The saved user is always the admin, even while impersonating
+      return state.impersonator
+        ? { ...state, impersonator: action.payload }
+        : { ...state, user: action.payload };
+    case 'IMPERSONATION_START':
+      return {
+        ...state,
+        impersonator: state.impersonator ?? state.user,
+        user: action.payload,
+      };
+    case 'IMPERSONATION_STOP':
+      return {
+        ...state,
+        user: state.impersonator ?? state.user,
+        impersonator: null,
+      };
+    case 'TOKEN_REFRESH_REQUEST':
+      return {
+        ...state,
+        isRefreshing: true,
+      };
+    case 'TOKEN_REFRESH_SUCCESS':
+      return {
+        ...state,
+        isRefreshing: false,
+        isSessionStale: false,
+        token: action.payload.token,
+        expiresAt: action.payload.expiresAt,
+      };
+    case 'TOKEN_REFRESH_FAILURE':
+      return {
+        ...state,
+        isRefreshing: false,
+        isSessionStale: true,
+        error: action.payload,
+      };
     case 'LOGIN_FAILURE':
       return {
         ...state,
@@ -40,6 +109,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
       return {
         ...initialState,
         isLoading: false,
+        error: action.payload ?? null,
       };
     default:
       return state;
@@ -49,34 +119,62 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 export const useAuth = () => {
   const [state, dispatch] = useReducer(authReducer, initialState);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [refreshRetryCount, setRefreshRetryCount] = useState(0);
   
-  // Check if user is already logged in when app starts
+  // Ends the session locally once the backend ended it, explaining why on the login screen.
+  // It can't be refused like a logout: changes not sent yet stay on the device, kept for this user.
+  const expireSession = useCallback(async (error?: unknown) => {
+    const hasUnsentChanges = await AuthService.hasUnsentChanges();
+    const clearSuccess = await AuthService.clearAuthData();
+    if (!clearSuccess) {
+      console.warn('Failed to clear auth data after session expiry');
+    }
+    
+    const isRevoked = error instanceof AuthError && error.code === 'SESSION_REVOKED';
+    const message = isRevoked ? AUTH_ERROR_MESSAGES.SESSION_REVOKED : AUTH_ERROR_MESSAGES.SESSION_EXPIRED;
+    dispatch({
+      type: 'LOGOUT',
+      payload: hasUnsentChanges ? `${message} ${UNSENT_CHANGES_NOTICE}` : message,
+    });
+  }, []);
+  
+  // Logs out a restored session that was revoked from another device while the app was closed
+  const verifyRestoredSession = useCallback(async () => {
+    try {
+      await AuthService.checkSession();
+    } catch (error) {
+      if (error instanceof AuthError && error.code === 'SESSION_REVOKED') {
+        await expireSession(error);
+      } else {
+        // Offline or server trouble, keep the session and check again on the next launch
+        console.warn('Failed to verify restored session:', error);
+      }
+    }
+  }, [expireSession]);
+  
+  // Restore the session saved on the device, usually already prefetched during the app bootstrap
   useEffect(() => {
     const checkAuthStatus = async () => {
       try {
-        // Check if there's a saved token
-        const isLoggedIn = await AuthService.isUserLoggedIn();
+        const restoredSession = await AuthService.takeSessionRestore();
         
-        if (isLoggedIn) {
-          // If user is logged in, get user data and token in parallel
-          const [user, token] = await Promise.all([
-            AuthService.getSavedUser(),
-            AuthService.getSavedToken()
-          ]);
+        if (restoredSession.status === 'authenticated') {
+          dispatch({ type: 'LOGIN_SUCCESS', payload: restoredSession.session });
+          // Resume viewing the app as another user when the admin left it in that mode
+          if (restoredSession.impersonatedUser) {
+            dispatch({ type: 'IMPERSONATION_START', payload: restoredSession.impersonatedUser });
+          }
           
-          if (user && token) {
-            dispatch({
-              type: 'LOGIN_SUCCESS',
-              payload: { user, token },
-            });
-          } else {
-            // If we can't get user data or token, log out
-            const clearSuccess = await AuthService.clearAuthData();
-            if (!clearSuccess) {
-              console.warn('Failed to clear auth data during authentication check');
-            }
-            dispatch({ type: 'LOGOUT' });
+          if (restoredSession.isStale) {
+            // Renewing failed while offline, it is retried shortly instead of right away
+            dispatch({ type: 'TOKEN_REFRESH_FAILURE', payload: AUTH_ERROR_MESSAGES.NETWORK_ERROR });
+            setRefreshRetryCount(1);
+          } else if (!restoredSession.wasRefreshed) {
+            // Checked in the background so an offline start is not delayed
+            verifyRestoredSession();
           }
+        } else if (restoredSession.status === 'expired') {
+          await expireSession(restoredSession.error);
         } else {
           dispatch({ type: 'LOGOUT' });
         }
@@ -95,47 +193,181 @@ export const useAuth = () => {
     };
     
     checkAuthStatus();
-  }, []);
+  }, [expireSession, verifyRestoredSession]);
+  
+  // Refresh function, resolves the new access token or null when the session could not be renewed
+  const refreshSession = useCallback(async (): Promise<string | null> => {
+    dispatch({ type: 'TOKEN_REFRESH_REQUEST' });
+    
+    try {
+      const tokens = await AuthService.refreshSession();
+      setRefreshRetryCount(0);
+      dispatch({ type: 'TOKEN_REFRESH_SUCCESS', payload: tokens });
+      return tokens.token;
+    } catch (error) {
+      console.warn('Session refresh failed:', error);
+      
+      if (isSessionEndedError(error)) {
+        await expireSession(error);
+        return null;
+      }
+      
+      // Offline or server trouble: keep the session, even with an expired token, and try again later
+      dispatch({
+        type: 'TOKEN_REFRESH_FAILURE',
+        payload: error instanceof Error ? error.message : AUTH_ERROR_MESSAGES.UNKNOWN,
+      });
+      setRefreshRetryCount(count => count + 1);
+      return null;
+    }
+  }, [expireSession]);
+  
+  // Schedule a silent refresh shortly before the access token expires
+  useEffect(() => {
+    if (!state.isAuthenticated || state.expiresAt === null) return;
+    
+    const delay = refreshRetryCount > 0
+      ? REFRESH_RETRY_DELAY_MS
+      : Math.max(state.expiresAt - Date.now() - REFRESH_AHEAD_MS, 0);
+    const timeoutId = setTimeout(refreshSession, delay);
+    
+    return () => clearTimeout(timeoutId);
+  }, [state.isAuthenticated, state.expiresAt, refreshRetryCount, refreshSession]);
   
   // Login function
   const login = async (credentials: LoginCredentials) => {
     dispatch({ type: 'LOGIN_REQUEST' });
     
     try {
-      const response = await AuthService.login(credentials);
+      const result = await AuthService.login(credentials);
+      if (result.status === 'two_factor_required') {
+        // The session only starts once the second step is verified
+        dispatch({
+          type: 'TWO_FACTOR_REQUIRED',
+          payload: result.challenge,
+        });
+      } else {
+        dispatch({
+          type: 'LOGIN_SUCCESS',
+          payload: result.session,
+        });
+      }
+      return result;
+    } catch (error) {
+      dispatch({
+        type: 'LOGIN_FAILURE',
+        payload: error instanceof Error ? error.message : AUTH_ERROR_MESSAGES.UNKNOWN,
+      });
+      throw error;
+    }
+  };
+  
+  // Second login step for accounts with two-factor authentication
+  const verifyTwoFactor = async (code: string) => {
+    if (!state.twoFactorChallenge) {
+      throw new AuthError('TWO_FACTOR_CHALLENGE_EXPIRED');
+    }
+    
+    dispatch({ type: 'LOGIN_REQUEST' });
+    
+    try {
+      const response = await AuthService.verifyTwoFactor(state.twoFactorChallenge.challengeToken, code);
       dispatch({
         type: 'LOGIN_SUCCESS',
         payload: response,
       });
       return response;
     } catch (error) {
+      const message = error instanceof Error ? error.message : AUTH_ERROR_MESSAGES.UNKNOWN;
+      
+      // An expired challenge sends the user back to the password step
+      if (error instanceof AuthError && error.code === 'TWO_FACTOR_CHALLENGE_EXPIRED') {
+        dispatch({ type: 'TWO_FACTOR_CANCEL', payload: message });
+      } else {
+        dispatch({ type: 'LOGIN_FAILURE', payload: message });
+      }
+      throw error;
+    }
+  };
+  
+  const cancelTwoFactor = () => {
+    dispatch({ type: 'TWO_FACTOR_CANCEL' });
+  };
+  
+  // Reload the user after it was changed in storage, e.g. by enabling two-factor authentication
+  const reloadUser = useCallback(async () => {
+    const user = await AuthService.getSavedUser();
+    if (user) {
+      dispatch({ type: 'USER_UPDATE', payload: user });
+    }
+  }, []);
+  
+  // Lets an admin view the app as another user, see AuthService.startImpersonation
+  const startImpersonation = async (userId: string) => {
+    const impersonatedUser = await AuthService.startImpersonation(userId);
+    dispatch({ type: 'IMPERSONATION_START', payload: impersonatedUser });
+  };
+  
+  // Returns to the admin session
+  const stopImpersonation = async () => {
+    await AuthService.stopImpersonation();
+    dispatch({ type: 'IMPERSONATION_STOP' });
+  };
+  
+  // Changes the module the user works in without logging out, AuthGuard follows the new role
+  const switchRole = async (role: UserType) => {
+    if (state.impersonator) {
+      throw new AuthError('IMPERSONATION_READ_ONLY');
+    }
+    
+    const user = await AuthService.switchRole(role);
+    dispatch({ type: 'USER_UPDATE', payload: user });
+  };
+  
+  // Register function
+  const register = async (data: RegistrationData) => {
+    const result = await AuthService.register(data);
+    
+    // Accounts that don't need approval are signed in right away
+    if (result.status === AccountStatus.ACTIVE) {
       dispatch({
-        type: 'LOGIN_FAILURE',
-        payload: error instanceof Error ? error.message : 'Failed to login',
+        type: 'LOGIN_SUCCESS',
+        payload: result.session,
       });
-      throw error;
     }
+    
+    return result;
   };
   
-  // Logout function
-  const logout = async () => {
+  // Logout function, the optional reason is shown on the login screen
+  const logout = useCallback(async (reason?: string) => {
     try {
       const success = await AuthService.logout();
       if (!success) {
         console.warn('Logout operation may not have completed successfully');
       }
-      dispatch({ type: 'LOGOUT' });
+      setRefreshRetryCount(0);
+      dispatch({ type: 'LOGOUT', payload: reason });
     } catch (error) {
       console.error('Error during logout:', error);
       // Still dispatch logout action to update UI state
-      dispatch({ type: 'LOGOUT' });
+      dispatch({ type: 'LOGOUT', payload: reason });
     }
-  };
+  }, []);
   
   return {
     ...state,
     isInitialized,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    register,
     logout,
+    expireSession,
+    refreshSession,
+    reloadUser,
+    startImpersonation,
+    stopImpersonation,
+    switchRole,
   };
 }; 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../services/auth-service';
+import { DeviceSession } from '../types';
+
+export const useDeviceSessions = () => {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  
+  // Load every device signed in to the account
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setSessions(await AuthService.listSessions());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível carregar os dispositivos.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+  
+  // Sign a device out and remove it from the list
+  const revokeSession = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    
+    try {
+      await AuthService.revokeSession(sessionId);
+      setSessions(current => current.filter(session => session.id !== sessionId));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+  
+  return {
+    sessions,
+    isLoading,
+    error,
+    revokingId,
+    revokeSession,
+    reload: loadSessions,
+  };
+};
@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+import * as AuthService from '../services/auth-service';
+import { InvitePreview } from '../types';
+
+export const useInvitePreview = () => {
+  const [invite, setInvite] = useState<InvitePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Look up an invite, keeping the reason when it cannot be used
+  const loadInvite = useCallback(async (code: string) => {
+    setIsLoading(true);
+    setError(null);
+    setInvite(null);
+    
+    try {
+      setInvite(await AuthService.getInvitePreview(code));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Não foi possível verificar o convite.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+  
+  return {
+    invite,
+    isLoading,
+    error,
+    loadInvite,
+  };
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as AuthService from '../services/auth-service';
+import { LoginThrottledError } from '../utils/auth-errors';
+
+// How often the remaining wait is refreshed on screen
+const COUNTDOWN_INTERVAL_MS = 1000;
+
+/**
+ * Tracks the login wait imposed on a CPF after failed attempts
+ * The persisted state is loaded as soon as the CPF is valid, so a lockout survives app restarts
+ */
+export const useLoginThrottle = (cpf: string, isCpfValid: boolean) => {
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  
+  // Load the stored state whenever a different CPF is typed
+  useEffect(() => {
+    setBlockedUntil(null);
+    setIsLocked(false);
+    
+    if (!isCpfValid) return;
+    
+    let isActive = true;
+    
+    AuthService.getLoginThrottleStatus(cpf).then(status => {
+      if (!isActive || status.retryAfterMs <= 0) return;
+      
+      setNow(Date.now());
+      setBlockedUntil(Date.now() + status.retryAfterMs);
+      setIsLocked(status.isLocked);
+    });
+    
+    return () => {
+      isActive = false;
+    };
+  }, [cpf, isCpfValid]);
+  
+  // Tick while there is a wait to count down
+  useEffect(() => {
+    if (!blockedUntil) return;
+    
+    const intervalId = setInterval(() => {
+      const currentTime = Date.now();
+      setNow(currentTime);
+      
+      if (currentTime >= blockedUntil) {
+        setBlockedUntil(null);
+        setIsLocked(false);
+      }
+    }, COUNTDOWN_INTERVAL_MS);
+    
+    return () => clearInterval(intervalId);
+  }, [blockedUntil]);
+  
+  /**
+   * Starts the countdown if the error is a throttling error
+   * Returns whether the error was handled
+   */
+  const handleLoginError = useCallback((error: unknown): boolean => {
+    if (!(error instanceof LoginThrottledError)) return false;
+    
+    setNow(Date.now());
+    setBlockedUntil(Date.now() + error.retryAfterMs);
+    setIsLocked(error.code === 'ACCOUNT_LOCKED');
+    return true;
+  }, []);
+  
+  const remainingMs = blockedUntil ? Math.max(0, blockedUntil - now) : 0;
+  
+  return {
+    isThrottled: remainingMs > 0,
+    isLocked,
+    remainingMs,
+    handleLoginError,
+  };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import * as AuthService from '../services/auth-service';
+import { PasswordPolicy } from '../types';
+import { DEFAULT_PASSWORD_POLICY } from '../utils/password-policy';
+
+/**
+ * Loads the password policy for the screens where a password is chosen
+ * The policy fetched at startup (or the default one) is used while loading or when the backend can't be reached,
+ * the backend still checks the password against the real policy
+ */
+export const usePasswordPolicy = () => {
+  const [policy, setPolicy] = useState<PasswordPolicy>(
+    () => AuthService.getCachedPasswordPolicy() ?? DEFAULT_PASSWORD_POLICY,
+  );
+  
+  useEffect(() => {
+    let isMounted = true;
+    
+    AuthService.getPasswordPolicy()
+      .then(loadedPolicy => {
+        if (isMounted) setPolicy(loadedPolicy);
+      })
+      .catch(error => {
+        console.error('Error loading password policy:', error);
+      });
+    
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+  
+  return policy;
+};
@@ -0,0 +1,30 @@
+import { useState } from 'react';
+import * as AuthService from '../services/auth-service';
+
+export const usePasswordReset = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  
+  // Track loading state around each step of the reset flow
+  const runStep = async <T>(step: () => Promise<T>): Promise<T> => {
+    setIsLoading(true);
+    try {
+      return await step();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const requestCode = (cpf: string) => runStep(() => AuthService.requestPasswordReset(cpf));
+  
+  const verifyCode = (cpf: string, code: string) => runStep(() => AuthService.verifyResetCode(cpf, code));
+  
+  const resetPassword = (resetToken: string, newPassword: string) =>
+    runStep(() => AuthService.resetPassword(resetToken, newPassword));
+  
+  return {
+    isLoading,
+    requestCode,
+    verifyCode,
+    resetPassword,
+  };
+};
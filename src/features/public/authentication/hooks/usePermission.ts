@@ -0,0 +1,30 @@
+import { useCallback, useMemo } from 'react';
+import { useAuthContext } from '../components/AuthProvider';
+import { Permission } from '../types';
+import { getUserPermissions, isGranted } from '../utils/permissions';
+
+/**
+ * Exposes the permissions of the logged-in user
+ * `can` accepts one permission or a list that must all be held
+ * While an admin impersonates someone, clinical writes are never allowed
+ */
+export const usePermissions = () => {
+  const { user, impersonator } = useAuthContext();
+  const isImpersonating = impersonator !== null;
+  const permissions = useMemo(() => getUserPermissions(user, isImpersonating), [user, isImpersonating]);
+  
+  const can = useCallback(
+    (permission: Permission | Permission[]) => isGranted(permissions, permission),
+    [permissions],
+  );
+  
+  return { permissions, can };
+};
+
+/**
+ * Checks a single permission (or list of permissions) for the logged-in user
+ */
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const { can } = usePermissions();
+  return can(permission);
+};
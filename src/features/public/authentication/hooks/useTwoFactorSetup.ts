@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import * as AuthService from '../services/auth-service';
+import { TwoFactorEnrollment } from '../types';
+import { useAuthContext } from '../components/AuthProvider';
+
+export const useTwoFactorSetup = () => {
+  const { reloadUser } = useAuthContext();
+  const [isLoading, setIsLoading] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  
+  // Track loading state around each step of the setup
+  const runStep = async <T>(step: () => Promise<T>): Promise<T> => {
+    setIsLoading(true);
+    try {
+      return await step();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const startEnrollment = () => runStep(async () => {
+    setBackupCodes(null);
+    setEnrollment(await AuthService.startTwoFactorEnrollment());
+  });
+  
+  const confirmEnrollment = (code: string) => runStep(async () => {
+    const codes = await AuthService.confirmTwoFactorEnrollment(code);
+    setEnrollment(null);
+    setBackupCodes(codes);
+    await reloadUser();
+  });
+  
+  const disable = (code: string) => runStep(async () => {
+    await AuthService.disableTwoFactor(code);
+    await reloadUser();
+  });
+  
+  return {
+    isLoading,
+    enrollment,
+    backupCodes,
+    startEnrollment,
+    confirmEnrollment,
+    disable,
+  };
+};
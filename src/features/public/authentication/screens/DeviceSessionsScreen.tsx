@@ -0,0 +1,205 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '../../../../shared/components';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { useDeviceSessions } from '../hooks/useDeviceSessions';
+import { DeviceSession } from '../types';
+
+const formatDateTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+const getPlatformIcon = (platform: string): keyof typeof Ionicons.glyphMap => {
+  if (platform === 'iOS') return 'logo-apple';
+  if (platform === 'Android') return 'logo-android';
+  return 'desktop-outline';
+};
+
+const DeviceSessionsScreen = () => {
+  const router = useRouter();
+  const { sessions, isLoading, error, revokingId, revokeSession, reload } = useDeviceSessions();
+  
+  const handleRevoke = (session: DeviceSession) => {
+    Alert.alert(
+      'Desconectar dispositivo',
+      `${session.deviceName} precisará entrar novamente para acessar sua conta. Deseja continuar?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Desconectar',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeSession(session.id);
+            } catch (revokeError) {
+              Alert.alert(
+                'Erro ao desconectar',
+                revokeError instanceof Error ? revokeError.message : 'Não foi possível desconectar o dispositivo.',
+              );
+            }
+          },
+        },
+      ],
+    );
+  };
+  
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (error) {
+      return (
+        <View style={styles.feedback}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Button title="Tentar novamente" variant="outline" onPress={reload} />
+        </View>
+      );
+    }
+    
+    return sessions.map(session => (
+      <View key={session.id} style={styles.card}>
+        <Ionicons name={getPlatformIcon(session.platform)} size={28} color={colors.primary.default} />
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{session.deviceName}</Text>
+          {session.isCurrent ? (
+            <Text style={styles.currentBadge}>Este dispositivo</Text>
+          ) : (
+            <Text style={styles.cardDetail}>Último acesso: {formatDateTime(session.lastSeenAt)}</Text>
+          )}
+          <Text style={styles.cardDetail}>
+            {session.platform} · Conectado em {formatDateTime(session.createdAt)}
+          </Text>
+        </View>
+        {!session.isCurrent && (
+          <TouchableOpacity
+            style={styles.cardAction}
+            onPress={() => handleRevoke(session)}
+            disabled={revokingId !== null}
+          >
+            {revokingId === session.id ? (
+              <ActivityIndicator size="small" color={colors.feedback.error} />
+            ) : (
+              <Ionicons name="log-out-outline" size={22} color={colors.feedback.error} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    ));
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Dispositivos Conectados</Text>
+      </View>
+      
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.description}>
+          Estes dispositivos estão conectados à sua conta. Desconecte os que você não reconhece ou
+          não usa mais.
+        </Text>
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  description: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+  feedback: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: typography.sizes.md,
+    color: colors.feedback.error,
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.neutrals.white,
+    borderRadius: borderRadius.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.neutrals.black,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardInfo: {
+    flex: 1,
+    marginHorizontal: spacing.md,
+  },
+  cardTitle: {
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  currentBadge: {
+    fontSize: typography.sizes.xs,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.feedback.success,
+  },
+  cardDetail: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  cardAction: {
+    padding: spacing.sm,
+  },
+});
+
+export default DeviceSessionsScreen;
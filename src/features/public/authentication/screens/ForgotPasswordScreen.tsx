@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { Button } from '../../../../shared/components';
+import { CpfInput } from '../components';
+import { usePasswordReset } from '../hooks/usePasswordReset';
+import { colors, spacing, typography } from '../../../../theme';
+
+const ForgotPasswordScreen = () => {
+  const router = useRouter();
+  const { requestCode, isLoading } = usePasswordReset();
+
+  const [cpf, setCpf] = useState('');
+  const [isCpfValid, setIsCpfValid] = useState(false);
+
+  const handleRequestCode = async () => {
+    if (!isCpfValid) return;
+
+    try {
+      await requestCode(cpf);
+      router.push({ pathname: '/forgot-password/verify', params: { cpf } });
+    } catch (error) {
+      Alert.alert(
+        'Erro ao solicitar código',
+        error instanceof Error ? error.message : 'Não foi possível enviar o código. Tente novamente.',
+      );
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+
+        <View style={styles.formContainer}>
+          <Text style={styles.title}>Recuperar senha</Text>
+          <Text style={styles.subtitle}>
+            Informe seu CPF e enviaremos um código de verificação para o e-mail cadastrado
+          </Text>
+
+          <View style={styles.inputContainer}>
+            <CpfInput
+              value={cpf}
+              onChangeText={setCpf}
+              onValidChange={setIsCpfValid}
+            />
+          </View>
+
+          <Button
+            title="Enviar código"
+            disabled={!isCpfValid || isLoading}
+            isLoading={isLoading}
+            onPress={handleRequestCode}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  backButton: {
+    marginTop: spacing.xl,
+    marginBottom: spacing.lg,
+    alignSelf: 'flex-start',
+    padding: spacing.xs,
+  },
+  formContainer: {
+    paddingHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+});
+
+export default ForgotPasswordScreen;
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { Button, TextInput } from '../../../../shared/components';
+import { useInvitePreview } from '../hooks/useInvitePreview';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+
+const INVITE_CODE_LENGTH = 8;
+
+interface InviteOnboardingScreenProps {
+  // Code from an invite link, when the screen was opened from one
+  initialCode?: string;
+}
+
+const InviteOnboardingScreen: React.FC<InviteOnboardingScreenProps> = ({ initialCode }) => {
+  const router = useRouter();
+  const { invite, isLoading, error, loadInvite } = useInvitePreview();
+  
+  const [code, setCode] = useState(initialCode ?? '');
+  
+  const isCodeComplete = code.length === INVITE_CODE_LENGTH;
+  
+  // Invite links are checked right away
+  useEffect(() => {
+    if (initialCode) {
+      loadInvite(initialCode);
+    }
+  }, [initialCode, loadInvite]);
+  
+  const handleChangeCode = (text: string) => {
+    setCode(text.toUpperCase().replace(/[^A-Z0-9]/g, ''));
+  };
+  
+  const handleContinue = () => {
+    if (!invite) return;
+    
+    router.replace({
+      pathname: '/register',
+      params: { inviteCode: invite.code, trainerName: invite.trainerName },
+    });
+  };
+  
+  const renderInvite = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={colors.primary.default} style={styles.feedback} />;
+    }
+    
+    if (!invite) return null;
+    
+    return (
+      <View style={styles.inviteCard}>
+        <Ionicons name="mail-open-outline" size={32} color={colors.primary.default} />
+        <View style={styles.inviteInfo}>
+          <Text style={styles.inviteTitle}>Convite de {invite.trainerName}</Text>
+          <Text style={styles.inviteDetail}>
+            Válido até {new Date(invite.expiresAt).toLocaleDateString('pt-BR')}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+  
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/login')}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        
+        <View style={styles.formContainer}>
+          <Text style={styles.title}>Convite</Text>
+          <Text style={styles.subtitle}>
+            Use o código enviado pelo seu treinador para criar sua conta de aluno
+          </Text>
+          
+          <View style={styles.inputContainer}>
+            <TextInput
+              label="Código do convite"
+              placeholder="ABCD2345"
+              value={code}
+              onChangeText={handleChangeCode}
+              error={error ?? undefined}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={INVITE_CODE_LENGTH}
+              editable={!isLoading}
+              startIcon={
+                <Ionicons name="ticket-outline" size={24} color={colors.neutrals.darkGray} />
+              }
+            />
+          </View>
+          
+          {renderInvite()}
+          
+          {invite && invite.code === code ? (
+            <Button title="Criar minha conta" onPress={handleContinue} />
+          ) : (
+            <Button
+              title="Verificar convite"
+              disabled={!isCodeComplete || isLoading}
+              isLoading={isLoading}
+              onPress={() => loadInvite(code)}
+            />
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  backButton: {
+    marginTop: spacing.xl,
+    marginBottom: spacing.lg,
+    alignSelf: 'flex-start',
+    padding: spacing.xs,
+  },
+  formContainer: {
+    paddingHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+  feedback: {
+    marginBottom: spacing.lg,
+  },
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.default,
+    backgroundColor: colors.neutrals.white,
+  },
+  inviteInfo: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  inviteTitle: {
+    fontSize: typography.sizes.md,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  inviteDetail: {
+    fontSize: typography.sizes.sm,
+    color: colors.text.secondary,
+  },
+});
+
+export default InviteOnboardingScreen;
@@ -13,33 +13,93 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { Button, TextInput } from '../../../shared/components';
-import { CpfInput } from '../components';
+import { Button, TextInput } from '../../../../shared/components';
+import { getErrorMessage } from '../../../../shared/api';
+import { CpfInput, TwoFactorStep } from '../components';
 import { useAuthContext } from '../components/AuthProvider';
-import { colors, spacing, typography } from '../../../theme';
+import { useLoginThrottle } from '../hooks/useLoginThrottle';
+import { useForm, FormSchema } from '../../../../shared/hooks';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { AUTH_ERROR_MESSAGES, AuthError } from '../utils/auth-errors';
+import { isCpfValid } from '../utils/validators';
+
+type LoginFormValues = {
+  cpf: string;
+  password: string;
+};
+
+const LOGIN_INITIAL_VALUES: LoginFormValues = { cpf: '', password: '' };
+
+const LOGIN_FORM_SCHEMA: FormSchema<LoginFormValues> = {
+  cpf: {
+    required: 'Informe seu CPF',
+    rules: [{ validate: isCpfValid, message: 'CPF inválido' }],
+  },
+  // The password policy applies when a password is chosen, so older passwords keep working
+  password: { required: 'Informe sua senha' },
+};
+
+/**
+ * Formats a wait in milliseconds as mm:ss
+ */
+const formatRemainingTime = (remainingMs: number): string => {
+  const totalSeconds = Math.ceil(remainingMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
 
 const LoginScreen = () => {
   const router = useRouter();
-  const { login, isLoading } = useAuthContext();
+  const { login, verifyTwoFactor, cancelTwoFactor, twoFactorChallenge, isLoading, error } = useAuthContext();
   
-  const [cpf, setCpf] = useState('');
-  const [password, setPassword] = useState('');
-  const [isCpfValid, setIsCpfValid] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   
-  const isFormValid = isCpfValid && password.length >= 6;
-  
-  const handleLogin = async () => {
-    if (!isFormValid) return;
-    
+  const handleLogin = async ({ cpf, password }: LoginFormValues) => {
     try {
       await login({ cpf, password });
-      // Router will automatically redirect based on auth state
+      // Router will automatically redirect based on auth state,
+      // or the two-factor step is shown when the account requires it
     } catch (error) {
+      // Throttling is shown inline with a countdown instead of an alert
+      if (handleLoginError(error)) return;
+      
       Alert.alert(
         'Erro ao fazer login',
-        error instanceof Error ? error.message : 'Ocorreu um erro ao tentar fazer login. Tente novamente.',
+        getErrorMessage(error, AUTH_ERROR_MESSAGES.UNKNOWN),
+      );
+    }
+  };
+  
+  const { values, getFieldProps, handleSubmit } = useForm({
+    initialValues: LOGIN_INITIAL_VALUES,
+    schema: LOGIN_FORM_SCHEMA,
+    onSubmit: handleLogin,
+  });
+  const { isThrottled, isLocked, remainingMs, handleLoginError } = useLoginThrottle(
+    values.cpf,
+    isCpfValid(values.cpf),
+  );
+  
+  // Reasons the previous session was ended, shown as a notice instead of an error
+  const isSessionEnded = error === AUTH_ERROR_MESSAGES.SESSION_EXPIRED
+    || error === AUTH_ERROR_MESSAGES.SESSION_REVOKED
+    || error === AUTH_ERROR_MESSAGES.PIN_ATTEMPTS_EXCEEDED
+    || error === AUTH_ERROR_MESSAGES.TWO_FACTOR_CHALLENGE_EXPIRED;
+  
+  const handleVerifyTwoFactor = async (code: string) => {
+    try {
+      await verifyTwoFactor(code);
+    } catch (error) {
+      // An expired challenge is shown as a notice on the password step
+      if (error instanceof AuthError && error.code === 'TWO_FACTOR_CHALLENGE_EXPIRED') return;
+      
+      Alert.alert(
+        'Erro na verificação',
+        getErrorMessage(error, 'Não foi possível verificar o código. Tente novamente.'),
       );
+      throw error;
     }
   };
   
@@ -61,64 +121,82 @@ const LoginScreen = () => {
           />
         </View>
         
-        <View style={styles.formContainer}>
-          <Text style={styles.title}>Login</Text>
-          <Text style={styles.subtitle}>Entre com suas credenciais para acessar</Text>
-          
-          <View style={styles.inputContainer}>
-            <CpfInput
-              value={cpf}
-              onChangeText={setCpf}
-              onValidChange={setIsCpfValid}
-            />
-            
-            <TextInput
-              label="Senha"
-              placeholder="Digite sua senha"
-              value={password}
-              onChangeText={setPassword}
-              isPassword
-              secureTextEntry={!showPassword}
-              startIcon={
-                <Ionicons
-                  name="lock-closed-outline"
-                  size={24}
-                  color={colors.neutrals.darkGray}
-                />
-              }
+        {twoFactorChallenge ? (
+          <View style={styles.formContainer}>
+            <TwoFactorStep
+              isLoading={isLoading}
+              onSubmit={handleVerifyTwoFactor}
+              onCancel={cancelTwoFactor}
             />
           </View>
-          
-          <TouchableOpacity
-            style={styles.forgotPassword}
-            onPress={() => {
-              // Navigate to forgot password screen
-              Alert.alert('Funcionalidade', 'Recuperação de senha será implementada em breve.');
-            }}
-          >
-            <Text style={styles.forgotPasswordText}>Esqueceu sua senha?</Text>
-          </TouchableOpacity>
-          
-          <Button
-            title={isLoading ? 'Entrando...' : 'Entrar'}
-            disabled={!isFormValid || isLoading}
-            isLoading={isLoading}
-            style={styles.loginButton}
-            onPress={handleLogin}
-          />
-          
-          <View style={styles.registerContainer}>
-            <Text style={styles.registerText}>Não tem uma conta? </Text>
+        ) : (
+          <View style={styles.formContainer}>
+            <Text style={styles.title}>Login</Text>
+            <Text style={styles.subtitle}>Entre com suas credenciais para acessar</Text>
+            
+            {isSessionEnded && (
+              <View style={styles.noticeContainer}>
+                <Ionicons name="time-outline" size={20} color={colors.feedback.warning} />
+                <Text style={styles.noticeText}>{error}</Text>
+              </View>
+            )}
+            
+            {isThrottled && (
+              <View style={styles.noticeContainer}>
+                <Ionicons name="lock-closed-outline" size={20} color={colors.feedback.error} />
+                <Text style={styles.noticeText}>
+                  {isLocked
+                    ? AUTH_ERROR_MESSAGES.ACCOUNT_LOCKED
+                    : 'Muitas tentativas inválidas.'}
+                  {` Tente novamente em ${formatRemainingTime(remainingMs)}.`}
+                </Text>
+              </View>
+            )}
+            
+            <View style={styles.inputContainer}>
+              <CpfInput {...getFieldProps('cpf')} />
+            
+              <TextInput
+                label="Senha"
+                placeholder="Digite sua senha"
+                {...getFieldProps('password')}
+                isPassword
+                secureTextEntry={!showPassword}
+                startIcon={
+                  <Ionicons
+                    name="lock-closed-outline"
+                    size={24}
+                    color={colors.neutrals.darkGray}
+                  />
+                }
+              />
+            </View>
+            
             <TouchableOpacity
-              onPress={() => {
-                // Navigate to register screen
-                Alert.alert('Funcionalidade', 'Cadastro será implementado em breve.');
-              }}
+              style={styles.forgotPassword}
+              onPress={() => router.push('/forgot-password')}
             >
-              <Text style={styles.registerLink}>Cadastre-se</Text>
+              <Text style={styles.forgotPasswordText}>Esqueceu sua senha?</Text>
             </TouchableOpacity>
+            
+            <Button
+              title={isLoading ? 'Entrando...' : 'Entrar'}
+              disabled={isLoading || isThrottled}
+              isLoading={isLoading}
+              style={styles.loginButton}
+              onPress={handleSubmit}
+            />
+            
+            <View style={styles.registerContainer}>
+              <Text style={styles.registerText}>Não tem uma conta? </Text>
+              <TouchableOpacity
+                onPress={() => router.push('/register')}
+              >
+                <Text style={styles.registerLink}>Cadastre-se</Text>
+              </TouchableOpacity>
+            </View>
           </View>
-        </View>
+        )}
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -157,6 +235,20 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginBottom: spacing.xl,
   },
+  noticeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.sm,
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutrals.lightGray,
+  },
+  noticeText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: typography.sizes.sm,
+    color: colors.text.primary,
+  },
   inputContainer: {
     marginBottom: spacing.md,
   },
@@ -0,0 +1,330 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Button, TextInput } from '../../../../shared/components';
+import { CpfInput, PasswordStrengthMeter, RoleOption, StepIndicator } from '../components';
+import { useAuthContext } from '../components/AuthProvider';
+import { usePasswordPolicy } from '../hooks/usePasswordPolicy';
+import { colors, spacing, typography } from '../../../../theme';
+import { describePasswordPolicy } from '../utils/password-policy';
+import { isEmailValid, isPasswordValid } from '../utils/validators';
+import { AccountStatus, SelfServiceUserType, UserType } from '../types';
+
+const STEPS = ['Dados pessoais', 'Senha', 'Perfil'];
+
+// Invited users always join as students, so the profile step is skipped
+const INVITE_STEPS = STEPS.slice(0, 2);
+
+const RegisterScreen = () => {
+  const router = useRouter();
+  const { register } = useAuthContext();
+  const { inviteCode, trainerName } = useLocalSearchParams<{ inviteCode?: string; trainerName?: string }>();
+  const steps = inviteCode ? INVITE_STEPS : STEPS;
+  const passwordPolicy = usePasswordPolicy();
+
+  const [currentStep, setCurrentStep] = useState(0);
+  const [name, setName] = useState('');
+  const [cpf, setCpf] = useState('');
+  const [isCpfValid, setIsCpfValid] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState('');
+  const [userType, setUserType] = useState<SelfServiceUserType | null>(inviteCode ? UserType.STUDENT : null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPendingApproval, setIsPendingApproval] = useState(false);
+
+  const emailError = email.length > 0 && !isEmailValid(email) ? 'E-mail inválido' : undefined;
+  const confirmationError = passwordConfirmation.length > 0 && passwordConfirmation !== password
+    ? 'As senhas não coincidem'
+    : undefined;
+
+  const isStepValid = [
+    name.trim().length > 0 && isCpfValid && isEmailValid(email),
+    isPasswordValid(password, passwordPolicy, { cpf, name }) && password === passwordConfirmation,
+    userType !== null,
+  ][currentStep];
+  const isLastStep = currentStep === steps.length - 1;
+
+  const handleBack = () => {
+    if (currentStep > 0) {
+      setCurrentStep(currentStep - 1);
+    } else {
+      router.back();
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!userType) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await register({ name, cpf, email, password, userType, inviteCode });
+      if (result.status === AccountStatus.PENDING) {
+        setIsPendingApproval(true);
+      }
+      // Active accounts are signed in and redirected based on auth state
+    } catch (error) {
+      Alert.alert(
+        'Erro ao criar conta',
+        error instanceof Error ? error.message : 'Ocorreu um erro ao criar sua conta. Tente novamente.',
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (!isStepValid) return;
+
+    if (isLastStep) {
+      handleSubmit();
+    } else {
+      setCurrentStep(currentStep + 1);
+    }
+  };
+
+  if (isPendingApproval) {
+    return (
+      <View style={styles.pendingContainer}>
+        <Ionicons name="hourglass-outline" size={64} color={colors.primary.default} />
+        <Text style={styles.pendingTitle}>Cadastro enviado</Text>
+        <Text style={styles.pendingMessage}>
+          Seu cadastro como treinador foi recebido e está aguardando aprovação de um administrador.
+          Você poderá entrar assim que ele for aprovado.
+        </Text>
+        <Button
+          title="Voltar para o login"
+          onPress={() => router.replace('/login')}
+          style={styles.pendingButton}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+
+        <View style={styles.formContainer}>
+          <Text style={styles.title}>Cadastro</Text>
+          <Text style={styles.subtitle}>
+            {inviteCode
+              ? `Você foi convidado por ${trainerName ?? 'seu treinador'}. Crie sua conta de aluno.`
+              : 'Crie sua conta para começar a usar o PhysiPro'}
+          </Text>
+
+          <StepIndicator steps={steps} currentStep={currentStep} />
+
+          {currentStep === 0 && (
+            <View style={styles.inputContainer}>
+              <TextInput
+                label="Nome completo"
+                placeholder="Digite seu nome"
+                value={name}
+                onChangeText={setName}
+                autoCapitalize="words"
+                startIcon={
+                  <Ionicons name="person-circle-outline" size={24} color={colors.neutrals.darkGray} />
+                }
+              />
+
+              <CpfInput
+                value={cpf}
+                onChangeText={setCpf}
+                onValidChange={setIsCpfValid}
+              />
+
+              <TextInput
+                label="E-mail"
+                placeholder="seu@email.com"
+                value={email}
+                onChangeText={setEmail}
+                error={emailError}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                startIcon={
+                  <Ionicons name="mail-outline" size={24} color={colors.neutrals.darkGray} />
+                }
+              />
+            </View>
+          )}
+
+          {currentStep === 1 && (
+            <View style={styles.inputContainer}>
+              <TextInput
+                label="Senha"
+                placeholder="Crie uma senha"
+                value={password}
+                onChangeText={setPassword}
+                helper={describePasswordPolicy(passwordPolicy)}
+                isPassword
+                secureTextEntry
+                startIcon={
+                  <Ionicons name="lock-closed-outline" size={24} color={colors.neutrals.darkGray} />
+                }
+              />
+
+              <PasswordStrengthMeter password={password} policy={passwordPolicy} context={{ cpf, name }} />
+
+              <TextInput
+                label="Confirmar senha"
+                placeholder="Digite a senha novamente"
+                value={passwordConfirmation}
+                onChangeText={setPasswordConfirmation}
+                error={confirmationError}
+                isPassword
+                secureTextEntry
+                startIcon={
+                  <Ionicons name="lock-closed-outline" size={24} color={colors.neutrals.darkGray} />
+                }
+              />
+            </View>
+          )}
+
+          {currentStep === 2 && (
+            <View style={styles.inputContainer}>
+              <RoleOption
+                title="Aluno"
+                description="Acompanhe seus treinos e agendamentos"
+                icon="body-outline"
+                isSelected={userType === UserType.STUDENT}
+                onPress={() => setUserType(UserType.STUDENT)}
+              />
+
+              <RoleOption
+                title="Treinador"
+                description="Gerencie alunos e sessões. Requer aprovação de um administrador"
+                icon="fitness-outline"
+                isSelected={userType === UserType.TRAINER}
+                onPress={() => setUserType(UserType.TRAINER)}
+              />
+            </View>
+          )}
+
+          <Button
+            title={isLastStep ? 'Criar conta' : 'Continuar'}
+            disabled={!isStepValid || isSubmitting}
+            isLoading={isSubmitting}
+            style={styles.nextButton}
+            onPress={handleNext}
+          />
+
+          {!inviteCode && (
+            <TouchableOpacity style={styles.inviteLink} onPress={() => router.push('/invite')}>
+              <Text style={styles.loginLink}>Tenho um código de convite</Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.loginContainer}>
+            <Text style={styles.loginText}>Já tem uma conta? </Text>
+            <TouchableOpacity onPress={() => router.replace('/login')}>
+              <Text style={styles.loginLink}>Entrar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  backButton: {
+    marginTop: spacing.xl,
+    marginBottom: spacing.lg,
+    alignSelf: 'flex-start',
+    padding: spacing.xs,
+  },
+  formContainer: {
+    paddingHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+  nextButton: {
+    marginBottom: spacing.xl,
+  },
+  inviteLink: {
+    alignSelf: 'center',
+    marginBottom: spacing.md,
+  },
+  loginContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: spacing.md,
+  },
+  loginText: {
+    color: colors.text.secondary,
+    fontSize: typography.sizes.md,
+  },
+  loginLink: {
+    color: colors.primary.default,
+    fontWeight: typography.weights.semiBold as '600',
+    fontSize: typography.sizes.md,
+  },
+  pendingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.background.light,
+  },
+  pendingTitle: {
+    fontSize: typography.sizes.xxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  pendingMessage: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+  },
+  pendingButton: {
+    alignSelf: 'stretch',
+  },
+});
+
+export default RegisterScreen;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Button, TextInput } from '../../../../shared/components';
+import { PasswordStrengthMeter } from '../components';
+import { usePasswordPolicy } from '../hooks/usePasswordPolicy';
+import { usePasswordReset } from '../hooks/usePasswordReset';
+import { colors, spacing, typography } from '../../../../theme';
+import { describePasswordPolicy } from '../utils/password-policy';
+import { isPasswordValid } from '../utils/validators';
+import { AuthError } from '../utils/auth-errors';
+
+const ResetPasswordScreen = () => {
+  const router = useRouter();
+  const { resetToken } = useLocalSearchParams<{ resetToken: string }>();
+  const { resetPassword, isLoading } = usePasswordReset();
+  const passwordPolicy = usePasswordPolicy();
+
+  const [password, setPassword] = useState('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState('');
+
+  const confirmationError = passwordConfirmation.length > 0 && passwordConfirmation !== password
+    ? 'As senhas não coincidem'
+    : undefined;
+  // Only the backend knows who the reset is for, so it checks the personal information rule
+  const isFormValid = isPasswordValid(password, passwordPolicy) && password === passwordConfirmation;
+
+  const handleResetPassword = async () => {
+    if (!isFormValid) return;
+
+    try {
+      await resetPassword(resetToken, password);
+      Alert.alert('Senha redefinida', 'Sua senha foi alterada. Entre com a nova senha.');
+      router.replace('/login');
+    } catch (error) {
+      const isSessionExpired = error instanceof AuthError && error.code === 'RESET_SESSION_EXPIRED';
+
+      Alert.alert(
+        'Erro ao redefinir senha',
+        error instanceof Error ? error.message : 'Não foi possível redefinir sua senha. Tente novamente.',
+      );
+
+      if (isSessionExpired) {
+        router.replace('/forgot-password');
+      }
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.formContainer}>
+          <Text style={styles.title}>Nova senha</Text>
+          <Text style={styles.subtitle}>Crie uma nova senha para acessar sua conta</Text>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              label="Nova senha"
+              placeholder="Digite a nova senha"
+              value={password}
+              onChangeText={setPassword}
+              helper={describePasswordPolicy(passwordPolicy)}
+              isPassword
+              secureTextEntry
+              startIcon={
+                <Ionicons name="lock-closed-outline" size={24} color={colors.neutrals.darkGray} />
+              }
+            />
+
+            <PasswordStrengthMeter password={password} policy={passwordPolicy} />
+
+            <TextInput
+              label="Confirmar nova senha"
+              placeholder="Digite a senha novamente"
+              value={passwordConfirmation}
+              onChangeText={setPasswordConfirmation}
+              error={confirmationError}
+              isPassword
+              secureTextEntry
+              startIcon={
+                <Ionicons name="lock-closed-outline" size={24} color={colors.neutrals.darkGray} />
+              }
+            />
+          </View>
+
+          <Button
+            title="Redefinir senha"
+            disabled={!isFormValid || isLoading}
+            isLoading={isLoading}
+            onPress={handleResetPassword}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  formContainer: {
+    marginTop: spacing.xl * 2,
+    paddingHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+});
+
+export default ResetPasswordScreen;
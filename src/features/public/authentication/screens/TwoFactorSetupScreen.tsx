@@ -0,0 +1,336 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Linking,
+  Share,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { Button, TextInput } from '../../../../shared/components';
+import { colors, spacing, typography, borderRadius } from '../../../../theme';
+import { useAuthContext } from '../components/AuthProvider';
+import { useTwoFactorSetup } from '../hooks/useTwoFactorSetup';
+import { TOTP_DIGITS } from '../utils/totp';
+
+/**
+ * Splits the secret in groups of four so it is easier to type by hand
+ */
+const formatSecret = (secret: string): string => secret.replace(/(.{4})/g, '$1 ').trim();
+
+const QR_CODE_SIZE = 200;
+
+const TwoFactorSetupScreen = () => {
+  const router = useRouter();
+  const { user } = useAuthContext();
+  const { isLoading, enrollment, backupCodes, startEnrollment, confirmEnrollment, disable } = useTwoFactorSetup();
+  
+  const [code, setCode] = useState('');
+  
+  const isCodeComplete = code.length === TOTP_DIGITS;
+  
+  const showError = (title: string, error: unknown) => {
+    Alert.alert(title, error instanceof Error ? error.message : 'Ocorreu um erro inesperado. Tente novamente.');
+  };
+  
+  const handleStart = async () => {
+    try {
+      await startEnrollment();
+    } catch (error) {
+      showError('Erro ao iniciar a configuração', error);
+    }
+  };
+  
+  const handleOpenAuthenticator = async () => {
+    if (!enrollment) return;
+    
+    try {
+      await Linking.openURL(enrollment.otpauthUri);
+    } catch {
+      Alert.alert(
+        'Aplicativo não encontrado',
+        'Nenhum aplicativo autenticador foi encontrado. Adicione a chave manualmente.',
+      );
+    }
+  };
+  
+  const handleConfirm = async () => {
+    if (!isCodeComplete) return;
+    
+    try {
+      await confirmEnrollment(code);
+    } catch (error) {
+      showError('Código inválido', error);
+    } finally {
+      setCode('');
+    }
+  };
+  
+  const handleDisable = async () => {
+    if (!isCodeComplete) return;
+    
+    try {
+      await disable(code);
+      Alert.alert('Verificação desativada', 'A verificação em duas etapas foi desativada.');
+    } catch (error) {
+      showError('Erro ao desativar', error);
+    } finally {
+      setCode('');
+    }
+  };
+  
+  const handleShareBackupCodes = () => {
+    if (!backupCodes) return;
+    
+    Share.share({
+      message: `Códigos de backup PhysiPro:\n${backupCodes.join('\n')}`,
+    }).catch(console.warn);
+  };
+  
+  const renderCodeInput = () => (
+    <TextInput
+      label="Código de autenticação"
+      placeholder="000000"
+      value={code}
+      onChangeText={text => setCode(text.replace(/\D/g, ''))}
+      keyboardType="number-pad"
+      maxLength={TOTP_DIGITS}
+      autoComplete="one-time-code"
+      textContentType="oneTimeCode"
+      startIcon={
+        <Ionicons name="shield-checkmark-outline" size={24} color={colors.neutrals.darkGray} />
+      }
+    />
+  );
+  
+  const renderContent = () => {
+    // Backup codes are only available right after the enrollment
+    if (backupCodes) {
+      return (
+        <>
+          <Text style={styles.title}>Verificação ativada</Text>
+          <Text style={styles.description}>
+            Guarde estes códigos de backup em um lugar seguro. Cada um pode ser usado uma única vez
+            caso você perca acesso ao aplicativo autenticador. Eles não serão exibidos novamente.
+          </Text>
+          
+          <View style={styles.codesContainer}>
+            {backupCodes.map(backupCode => (
+              <Text key={backupCode} style={styles.backupCode}>{backupCode}</Text>
+            ))}
+          </View>
+          
+          <Button
+            title="Compartilhar códigos"
+            variant="outline"
+            style={styles.actionButton}
+            onPress={handleShareBackupCodes}
+          />
+          <Button title="Concluir" onPress={() => router.back()} />
+        </>
+      );
+    }
+    
+    if (enrollment) {
+      return (
+        <>
+          <Text style={styles.title}>Configure o aplicativo</Text>
+          <Text style={styles.description}>
+            Escaneie o QR code com o aplicativo autenticador (Google Authenticator, Microsoft
+            Authenticator, etc.) ou adicione a chave abaixo manualmente. Depois, digite o código exibido.
+          </Text>
+          
+          <View style={styles.qrCodeContainer}>
+            <QRCode
+              value={enrollment.otpauthUri}
+              size={QR_CODE_SIZE}
+              color={colors.text.primary}
+              backgroundColor={colors.neutrals.white}
+            />
+          </View>
+          
+          <View style={styles.secretContainer}>
+            <Text style={styles.secretLabel}>Chave de configuração</Text>
+            <Text style={styles.secret} selectable>{formatSecret(enrollment.secret)}</Text>
+          </View>
+          
+          <Button
+            title="Abrir no aplicativo autenticador"
+            variant="outline"
+            style={styles.actionButton}
+            onPress={handleOpenAuthenticator}
+          />
+          
+          {renderCodeInput()}
+          
+          <Button
+            title="Confirmar"
+            disabled={!isCodeComplete || isLoading}
+            isLoading={isLoading}
+            onPress={handleConfirm}
+          />
+        </>
+      );
+    }
+    
+    if (user?.twoFactorEnabled) {
+      return (
+        <>
+          <View style={styles.statusContainer}>
+            <Ionicons name="shield-checkmark" size={32} color={colors.feedback.success} />
+            <Text style={styles.statusText}>Verificação em duas etapas ativada</Text>
+          </View>
+          <Text style={styles.description}>
+            Para desativar, digite um código do aplicativo autenticador.
+          </Text>
+          
+          {renderCodeInput()}
+          
+          <Button
+            title="Desativar"
+            variant="outline"
+            disabled={!isCodeComplete || isLoading}
+            isLoading={isLoading}
+            onPress={handleDisable}
+          />
+        </>
+      );
+    }
+    
+    return (
+      <>
+        <View style={styles.statusContainer}>
+          <Ionicons name="shield-outline" size={32} color={colors.feedback.warning} />
+          <Text style={styles.statusText}>Verificação em duas etapas desativada</Text>
+        </View>
+        <Text style={styles.description}>
+          Além da senha, será pedido um código gerado pelo aplicativo autenticador do seu celular
+          sempre que você entrar. Isso protege os dados dos pacientes mesmo se sua senha vazar.
+        </Text>
+        
+        <Button
+          title="Ativar"
+          disabled={isLoading}
+          isLoading={isLoading}
+          onPress={handleStart}
+        />
+      </>
+    );
+  };
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.neutrals.white} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Verificação em Duas Etapas</Text>
+      </View>
+      
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.primary.default,
+  },
+  backButton: {
+    marginRight: spacing.md,
+  },
+  headerTitle: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.neutrals.white,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.lg,
+  },
+  statusContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  statusText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    fontSize: typography.sizes.lg,
+    fontWeight: typography.weights.semiBold as '600',
+    color: colors.text.primary,
+  },
+  qrCodeContainer: {
+    alignItems: 'center',
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutrals.white,
+  },
+  secretContainer: {
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutrals.white,
+  },
+  secretLabel: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
+  secret: {
+    fontSize: typography.sizes.md,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    color: colors.text.primary,
+  },
+  codesContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.neutrals.white,
+  },
+  backupCode: {
+    width: '48%',
+    paddingVertical: spacing.xs,
+    fontSize: typography.sizes.md,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  actionButton: {
+    marginBottom: spacing.md,
+  },
+});
+
+export default TwoFactorSetupScreen;
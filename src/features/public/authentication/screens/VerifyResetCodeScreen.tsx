@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Button, TextInput } from '../../../../shared/components';
+import { usePasswordReset } from '../hooks/usePasswordReset';
+import { colors, spacing, typography } from '../../../../theme';
+import { AuthError } from '../utils/auth-errors';
+
+const CODE_LENGTH = 6;
+
+const VerifyResetCodeScreen = () => {
+  const router = useRouter();
+  const { cpf } = useLocalSearchParams<{ cpf: string }>();
+  const { verifyCode, requestCode, isLoading } = usePasswordReset();
+
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | undefined>();
+
+  const isCodeComplete = code.length === CODE_LENGTH;
+
+  const handleChangeCode = (text: string) => {
+    setCode(text.replace(/\D/g, ''));
+    setError(undefined);
+  };
+
+  const handleVerify = async () => {
+    if (!isCodeComplete) return;
+
+    try {
+      const resetToken = await verifyCode(cpf, code);
+      router.replace({ pathname: '/forgot-password/reset', params: { resetToken } });
+    } catch (verifyError) {
+      const isCodeDiscarded = verifyError instanceof AuthError
+        && (verifyError.code === 'RESET_CODE_EXPIRED' || verifyError.code === 'RESET_CODE_ATTEMPTS_EXCEEDED');
+
+      setCode('');
+      setError(verifyError instanceof Error ? verifyError.message : 'Não foi possível verificar o código.');
+
+      if (isCodeDiscarded) {
+        Alert.alert('Código inválido', 'Solicite um novo código para continuar.');
+      }
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      await requestCode(cpf);
+      setCode('');
+      setError(undefined);
+      Alert.alert('Código reenviado', 'Se o CPF estiver cadastrado, um novo código foi enviado para o e-mail da conta.');
+    } catch (resendError) {
+      Alert.alert(
+        'Erro ao reenviar código',
+        resendError instanceof Error ? resendError.message : 'Não foi possível reenviar o código. Tente novamente.',
+      );
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+
+        <View style={styles.formContainer}>
+          <Text style={styles.title}>Verificar código</Text>
+          <Text style={styles.subtitle}>
+            Se o CPF estiver cadastrado, enviamos um código de {CODE_LENGTH} dígitos para o e-mail da conta
+          </Text>
+
+          <View style={styles.inputContainer}>
+            <TextInput
+              label="Código de verificação"
+              placeholder="000000"
+              value={code}
+              onChangeText={handleChangeCode}
+              error={error}
+              keyboardType="number-pad"
+              maxLength={CODE_LENGTH}
+              autoComplete="one-time-code"
+              textContentType="oneTimeCode"
+              startIcon={
+                <Ionicons name="keypad-outline" size={24} color={colors.neutrals.darkGray} />
+              }
+            />
+          </View>
+
+          <Button
+            title="Verificar"
+            disabled={!isCodeComplete || isLoading}
+            isLoading={isLoading}
+            style={styles.verifyButton}
+            onPress={handleVerify}
+          />
+
+          <View style={styles.resendContainer}>
+            <Text style={styles.resendText}>Não recebeu o código? </Text>
+            <TouchableOpacity onPress={handleResend} disabled={isLoading}>
+              <Text style={styles.resendLink}>Reenviar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.light,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  backButton: {
+    marginTop: spacing.xl,
+    marginBottom: spacing.lg,
+    alignSelf: 'flex-start',
+    padding: spacing.xs,
+  },
+  formContainer: {
+    paddingHorizontal: spacing.md,
+  },
+  title: {
+    fontSize: typography.sizes.xxxl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    marginBottom: spacing.xl,
+  },
+  inputContainer: {
+    marginBottom: spacing.md,
+  },
+  verifyButton: {
+    marginBottom: spacing.xl,
+  },
+  resendContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  resendText: {
+    color: colors.text.secondary,
+    fontSize: typography.sizes.md,
+  },
+  resendLink: {
+    color: colors.primary.default,
+    fontWeight: typography.weights.semiBold as '600',
+    fontSize: typography.sizes.md,
+  },
+});
+
+export default VerifyResetCodeScreen;
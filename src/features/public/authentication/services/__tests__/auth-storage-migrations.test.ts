@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MigrationError, STORAGE_VERSION_KEY, runStorageMigrations, secureStorage } from '../../../../../shared/storage';
+import { AUTH_STORAGE_MIGRATIONS } from '../auth-service';
+
+jest.mock('@react-native-async-storage/async-storage', () => (
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+));
+
+// In-memory keychain holding the device encryption key
+jest.mock('expo-secure-store', () => {
+  const keychain = new Map<string, string>();
+
+  return {
+    AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 0,
+    isAvailableAsync: async () => true,
+    getItemAsync: async (key: string) => keychain.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      keychain.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      keychain.delete(key);
+    },
+  };
+});
+
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+const USER_DATA_KEY = '@PhysiPro:userData';
+const AUTH_TOKEN_KEY = '@PhysiPro:authToken';
+
+// User saved by a version from before encryption at rest and multi-role accounts
+const LEGACY_USER = {
+  id: '2',
+  name: 'Carlos Silva',
+  cpf: '529.982.247-25',
+  email: 'carlos@physipro.com',
+  userType: 'trainer',
+};
+
+const getStoredValues = async () => Object.fromEntries(await AsyncStorage.multiGet(await AsyncStorage.getAllKeys()));
+
+describe('AUTH_STORAGE_MIGRATIONS', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs every migration on plaintext data in a dry run without changing the device', async () => {
+    await AsyncStorage.multiSet([
+      [USER_DATA_KEY, JSON.stringify(LEGACY_USER)],
+      [AUTH_TOKEN_KEY, 'legacy-token'],
+    ]);
+    const storedBefore = await getStoredValues();
+
+    const result = await runStorageMigrations(AUTH_STORAGE_MIGRATIONS, { dryRun: true });
+
+    expect(result).toEqual({ fromVersion: 0, toVersion: 2, appliedVersions: [1, 2], isDryRun: true });
+    expect(await getStoredValues()).toEqual(storedBefore);
+  });
+
+  it('runs the roles migration on legacy user data in a dry run without changing the device', async () => {
+    await secureStorage.setItem(USER_DATA_KEY, JSON.stringify(LEGACY_USER));
+    await AsyncStorage.setItem(STORAGE_VERSION_KEY, '1');
+    const storedBefore = await getStoredValues();
+
+    const result = await runStorageMigrations(AUTH_STORAGE_MIGRATIONS, { dryRun: true });
+
+    expect(result.appliedVersions).toEqual([2]);
+    expect(await getStoredValues()).toEqual(storedBefore);
+  });
+
+  it('encrypts plaintext data and lists the roles when the migrations run for real', async () => {
+    await AsyncStorage.multiSet([
+      [USER_DATA_KEY, JSON.stringify(LEGACY_USER)],
+      [AUTH_TOKEN_KEY, 'legacy-token'],
+    ]);
+
+    await runStorageMigrations(AUTH_STORAGE_MIGRATIONS);
+
+    expect(await AsyncStorage.getItem(USER_DATA_KEY)).toMatch(/^enc:v1:/);
+    expect(await secureStorage.getItem(AUTH_TOKEN_KEY)).toBe('legacy-token');
+    expect(JSON.parse(await secureStorage.getItem(USER_DATA_KEY) ?? '')).toEqual({ ...LEGACY_USER, roles: ['trainer'] });
+    expect(await AsyncStorage.getItem(STORAGE_VERSION_KEY)).toBe('2');
+  });
+
+  it('fails instead of skipping the migrations when the stored version is corrupted', async () => {
+    await AsyncStorage.multiSet([
+      [STORAGE_VERSION_KEY, 'not-a-number'],
+      [USER_DATA_KEY, JSON.stringify(LEGACY_USER)],
+    ]);
+
+    const migration = runStorageMigrations(AUTH_STORAGE_MIGRATIONS);
+    await expect(migration).rejects.toThrow(MigrationError);
+    await expect(migration).rejects.toThrow('Invalid storage version');
+    expect(await AsyncStorage.getItem(USER_DATA_KEY)).toBe(JSON.stringify(LEGACY_USER));
+  });
+});
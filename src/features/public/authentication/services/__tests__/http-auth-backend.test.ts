@@ -0,0 +1,144 @@
+import { AuthError, LoginThrottledError } from '../../utils/auth-errors';
+import { createHttpAuthBackend } from '../http-auth-backend';
+
+const DEVICE = { deviceName: 'Pixel 8', platform: 'android' };
+
+const USER = {
+  id: '1',
+  name: 'Carlos Silva',
+  cpf: '529.982.247-25',
+  email: 'carlos@physipro.com',
+  userType: 'trainer' as const,
+};
+
+interface StandInRoute {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Local stand-in for the PhysiPro API: answers each `METHOD /path` with the configured route
+ * and records every request it receives
+ */
+const createStandInServer = (routes: Record<string, StandInRoute>) => {
+  const requests: { method: string; path: string; headers: Record<string, string>; body: unknown }[] = [];
+
+  const fetchFn = jest.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    const path = url.replace('https://api.physipro.test', '');
+    requests.push({
+      method,
+      path,
+      headers: (init.headers ?? {}) as Record<string, string>,
+      body: init.body ? JSON.parse(String(init.body)) : undefined,
+    });
+
+    const route = routes[`${method} ${path}`];
+    if (!route) throw new TypeError('Network request failed');
+
+    const text = route.body === undefined ? '' : JSON.stringify(route.body);
+    return {
+      status: route.status,
+      ok: route.status >= 200 && route.status < 300,
+      headers: { get: (name: string) => route.headers?.[name] ?? null },
+      json: async () => JSON.parse(text),
+      text: async () => text,
+    } as unknown as Response;
+  });
+
+  return { fetchFn: fetchFn as unknown as typeof fetch, requests };
+};
+
+const createBackend = (routes: Record<string, StandInRoute>) => {
+  const server = createStandInServer(routes);
+  const backend = createHttpAuthBackend({
+    baseUrl: 'https://api.physipro.test/',
+    fetchFn: server.fetchFn,
+    // Failures are checked as they come, without the client repeating the request
+    maxRetries: 0,
+  });
+
+  return { backend, requests: server.requests };
+};
+
+describe('createHttpAuthBackend', () => {
+  it('logs in with the device the session is opened from', async () => {
+    const session = { token: 'access', refreshToken: 'refresh', expiresAt: 1000, user: USER };
+    const { backend, requests } = createBackend({ 'POST /auth/login': { status: 200, body: session } });
+
+    const result = await backend.login({ cpf: USER.cpf, password: 'Senha@123' }, DEVICE);
+
+    expect(result).toEqual({ status: 'authenticated', session });
+    expect(requests[0].body).toEqual({ cpf: USER.cpf, password: 'Senha@123', device: DEVICE });
+  });
+
+  it('returns the two-factor challenge instead of a session', async () => {
+    const { backend } = createBackend({
+      'POST /auth/login': {
+        status: 200,
+        body: { twoFactorRequired: true, challengeToken: 'challenge', expiresAt: 2000 },
+      },
+    });
+
+    const result = await backend.login({ cpf: USER.cpf, password: 'Senha@123' }, DEVICE);
+
+    expect(result).toEqual({
+      status: 'two_factor_required',
+      challenge: { challengeToken: 'challenge', expiresAt: 2000 },
+    });
+  });
+
+  it('sends the session token to authenticated endpoints', async () => {
+    const { backend, requests } = createBackend({ 'GET /auth/sessions': { status: 200, body: [] } });
+
+    await backend.listSessions('access');
+
+    expect(requests[0].headers.Authorization).toBe('Bearer access');
+  });
+
+  it('prefers the error code sent by the server', async () => {
+    const { backend } = createBackend({
+      'POST /auth/login': { status: 403, body: { code: 'ACCOUNT_PENDING_APPROVAL' } },
+    });
+
+    await expect(backend.login({ cpf: USER.cpf, password: 'Senha@123' }, DEVICE)).rejects.toMatchObject({
+      code: 'ACCOUNT_PENDING_APPROVAL',
+      message: 'Seu cadastro está aguardando aprovação de um administrador.',
+    });
+  });
+
+  it('ignores server codes that are not authentication error codes', async () => {
+    const { backend } = createBackend({ 'POST /auth/login': { status: 401, body: { code: 'constructor' } } });
+
+    const error = await backend.login({ cpf: USER.cpf, password: 'errada' }, DEVICE).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.code).toBe('INVALID_CREDENTIALS');
+    expect(error.message).toBe('CPF ou senha inválidos.');
+  });
+
+  it('passes on the wait imposed by the server login limits', async () => {
+    const { backend } = createBackend({
+      'POST /auth/login': { status: 429, body: { code: 'ACCOUNT_LOCKED' }, headers: { 'Retry-After': '900' } },
+    });
+
+    const error = await backend.login({ cpf: USER.cpf, password: 'errada' }, DEVICE).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.code).toBe('ACCOUNT_LOCKED');
+    expect(error.retryAfterMs).toBe(900000);
+  });
+
+  it('reports a server that can not be reached as a network error', async () => {
+    const { backend } = createBackend({});
+
+    await expect(backend.getPasswordPolicy()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+  });
+
+  it('ends the session when the refresh token is rejected', async () => {
+    const { backend } = createBackend({ 'POST /auth/refresh': { status: 401 } });
+
+    await expect(backend.refresh('refresh')).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+  });
+});
@@ -0,0 +1,114 @@
+import * as Crypto from 'expo-crypto';
+import { secureStorage } from '../../../../shared/storage';
+
+// Storage key for the app-lock PINs, one per user that signed in on this device
+export const APP_LOCK_KEY = '@PhysiPro:appLock';
+
+// Wrong PINs accepted before the session is ended
+export const MAX_PIN_ATTEMPTS = 5;
+
+const SALT_LENGTH = 16;
+
+interface PinRecord {
+  salt: string;
+  pinHash: string;
+  failedAttempts: number;
+}
+
+type PinRecords = Record<string, PinRecord>;
+
+export interface PinVerification {
+  isValid: boolean;
+  remainingAttempts: number;
+}
+
+const hashPin = (pin: string, salt: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+};
+
+const generateSalt = (): string => {
+  return Array.from(Crypto.getRandomBytes(SALT_LENGTH), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Rejects when the PINs can't be read, an empty list would let a restored session skip the lock
+ */
+const loadRecords = async (): Promise<PinRecords> => {
+  const storedRecords = await secureStorage.getItem(APP_LOCK_KEY);
+  return storedRecords ? JSON.parse(storedRecords) : {};
+};
+
+const isExhausted = (record: PinRecord) => record.failedAttempts >= MAX_PIN_ATTEMPTS;
+
+const saveRecords = async (records: PinRecords): Promise<boolean> => {
+  try {
+    await secureStorage.setItem(APP_LOCK_KEY, JSON.stringify(records));
+    return true;
+  } catch (error) {
+    console.error('Error storing app-lock PINs:', error);
+    return false;
+  }
+};
+
+/**
+ * Checks whether the user has an app-lock PIN on this device that can still be entered
+ * A PIN with no attempts left doesn't count, its session has to end
+ */
+export const hasPin = async (userId: string): Promise<boolean> => {
+  const records = await loadRecords();
+  const record = records[userId];
+  return !!record && !isExhausted(record);
+};
+
+/**
+ * Saves a new PIN for the user, replacing any previous one
+ * Only a salted hash of the PIN is stored
+ */
+export const setPin = async (userId: string, pin: string): Promise<boolean> => {
+  const records = await loadRecords();
+  const salt = generateSalt();
+
+  records[userId] = {
+    salt,
+    pinHash: await hashPin(pin, salt),
+    failedAttempts: 0,
+  };
+
+  return await saveRecords(records);
+};
+
+/**
+ * Checks a PIN, counting wrong attempts across app restarts
+ * Once no attempts are left the PIN is kept but refuses every entry, until clearPin runs after the session ended
+ */
+export const verifyPin = async (userId: string, pin: string): Promise<PinVerification> => {
+  const records = await loadRecords();
+  const record = records[userId];
+
+  if (!record || isExhausted(record)) {
+    return { isValid: false, remainingAttempts: 0 };
+  }
+
+  if (record.pinHash === await hashPin(pin, record.salt)) {
+    record.failedAttempts = 0;
+    await saveRecords(records);
+    return { isValid: true, remainingAttempts: MAX_PIN_ATTEMPTS };
+  }
+
+  record.failedAttempts += 1;
+  await saveRecords(records);
+
+  return { isValid: false, remainingAttempts: Math.max(0, MAX_PIN_ATTEMPTS - record.failedAttempts) };
+};
+
+/**
+ * Removes the PIN of a user
+ */
+export const clearPin = async (userId: string): Promise<boolean> => {
+  const records = await loadRecords();
+
+  if (!records[userId]) return true;
+
+  delete records[userId];
+  return await saveRecords(records);
+};
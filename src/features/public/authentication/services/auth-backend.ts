@@ -0,0 +1,105 @@
+import Constants from 'expo-constants';
+import {
+  AuthTokens,
+  DeviceInfo,
+  DeviceSession,
+  Invite,
+  InvitePreview,
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  PasswordPolicy,
+  PasswordResetRequest,
+  RegistrationData,
+  RegistrationResult,
+  TwoFactorEnrollment,
+  User,
+} from '../types';
+import { createHttpAuthBackend } from './http-auth-backend';
+import { createMockAuthBackend } from './mock-auth-backend';
+
+/**
+ * Contract implemented by every authentication backend.
+ * The auth service only talks to the backend through this interface,
+ * so the mock and the real API can be swapped without touching the UI.
+ */
+export interface AuthBackend {
+  // Every new session is registered for the device it was opened from
+  login: (credentials: LoginCredentials, device: DeviceInfo) => Promise<LoginResult>;
+  // Completes a login that requires a TOTP or backup code
+  verifyTwoFactor: (challengeToken: string, code: string, device: DeviceInfo) => Promise<LoginResponse>;
+  // Revokes the session the token belongs to
+  logout: (token: string) => Promise<void>;
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  register: (data: RegistrationData, device: DeviceInfo) => Promise<RegistrationResult>;
+  // Records activity on the session, failing with SESSION_REVOKED once it was ended elsewhere
+  checkSession: (token: string) => Promise<void>;
+  listSessions: (token: string) => Promise<DeviceSession[]>;
+  revokeSession: (token: string, sessionId: string) => Promise<void>;
+  listPendingUsers: (token: string) => Promise<User[]>;
+  approveUser: (token: string, userId: string) => Promise<User>;
+  // Accounts linked to the logged-in guardian
+  listDependents: (token: string) => Promise<User[]>;
+  // Users an admin may view the app as
+  listUsers: (token: string) => Promise<User[]>;
+  // Both impersonation calls are recorded in the audit log
+  startImpersonation: (token: string, userId: string) => Promise<User>;
+  stopImpersonation: (token: string, userId: string) => Promise<void>;
+  // Answers the same for every CPF, with or without an account, and limits the codes sent per account
+  requestPasswordReset: (cpf: string) => Promise<PasswordResetRequest>;
+  // Exchanges a valid verification code for a single-use reset token
+  verifyResetCode: (cpf: string, code: string) => Promise<string>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<void>;
+  // Public, as the registration and reset screens need it before the user is logged in
+  getPasswordPolicy: () => Promise<PasswordPolicy>;
+  updatePasswordPolicy: (token: string, policy: PasswordPolicy) => Promise<PasswordPolicy>;
+  startTwoFactorEnrollment: (token: string) => Promise<TwoFactorEnrollment>;
+  // Enables two-factor authentication once the first code is confirmed, returning the backup codes
+  confirmTwoFactorEnrollment: (token: string, code: string) => Promise<string[]>;
+  disableTwoFactor: (token: string, code: string) => Promise<void>;
+  createInvite: (token: string) => Promise<Invite>;
+  listPendingInvites: (token: string) => Promise<Invite[]>;
+  revokeInvite: (token: string, code: string) => Promise<void>;
+  // Public lookup used by the onboarding screen before the student has an account
+  getInvitePreview: (code: string) => Promise<InvitePreview>;
+}
+
+interface ApiConfig {
+  baseUrl?: string;
+}
+
+let currentBackend: AuthBackend | null = null;
+
+/**
+ * Creates the backend described by the app config.
+ * When `expo.extra.api.baseUrl` is set the HTTP backend is used,
+ * otherwise the app falls back to the local mock.
+ */
+const createDefaultBackend = (): AuthBackend => {
+  const apiConfig = Constants.expoConfig?.extra?.api as ApiConfig | undefined;
+
+  if (apiConfig?.baseUrl) {
+    return createHttpAuthBackend({ baseUrl: apiConfig.baseUrl });
+  }
+
+  return createMockAuthBackend();
+};
+
+/**
+ * Get the backend currently used by the auth service
+ */
+export const getAuthBackend = (): AuthBackend => {
+  if (!currentBackend) {
+    currentBackend = createDefaultBackend();
+  }
+
+  return currentBackend;
+};
+
+/**
+ * Replace the backend used by the auth service.
+ * Passing null restores the backend described by the app config.
+ */
+export const setAuthBackend = (backend: AuthBackend | null): void => {
+  currentBackend = backend;
+};
@@ -1,105 +1,381 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { LoginCredentials, LoginResponse, User, UserType } from '../types';
+import { StorageMigration, safeStorage } from '../../../../shared/storage';
+import {
+  AccountStatus,
+  AuthTokens,
+  DeviceSession,
+  Invite,
+  InvitePreview,
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  LoginThrottleStatus,
+  PasswordPolicy,
+  PasswordResetRequest,
+  RegistrationData,
+  RegistrationResult,
+  RestoredSession,
+  TwoFactorEnrollment,
+  User,
+  UserType,
+} from '../types';
+import { AuthError, isSessionEndedError } from '../utils/auth-errors';
+import { getDeviceInfo } from '../utils/device-info';
+import { getUserRoles, hasRole } from '../utils/permissions';
+import { getAuthBackend } from './auth-backend';
+import * as LoginThrottle from './login-throttle';
 
 // Storage keys
 const AUTH_TOKEN_KEY = '@PhysiPro:authToken';
 const USER_DATA_KEY = '@PhysiPro:userData';
+const REFRESH_TOKEN_KEY = '@PhysiPro:refreshToken';
+const TOKEN_EXPIRES_AT_KEY = '@PhysiPro:tokenExpiresAt';
+const IMPERSONATED_USER_KEY = '@PhysiPro:impersonatedUser';
+
+// Tokens are considered expired slightly before their real expiry to absorb clock skew
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000;
+
+// Every key holding auth data, all of them encrypted at rest
+export const AUTH_DATA_KEYS = [AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, TOKEN_EXPIRES_AT_KEY, USER_DATA_KEY, IMPERSONATED_USER_KEY];
+
+// Restore started during the app bootstrap, handed over to the auth hook once it mounts
+let pendingSessionRestore: Promise<RestoredSession> | null = null;
+
+// Last password policy received, so screens can start from it instead of the default
+let cachedPasswordPolicy: PasswordPolicy | null = null;
+
+// Counts the changes of the signed-in user not sent to the server yet, registered by the sync module
+let unsentChangesCounter: (() => Promise<number>) | null = null;
 
 /**
- * Safely executes AsyncStorage operations with error handling
+ * Authenticates the user against the configured backend
+ * and persists the session on success
+ * Repeated invalid credentials for a CPF are throttled and eventually locked out
+ * Accounts with two-factor authentication get a challenge to complete with verifyTwoFactor
  */
-const safeStorage = {
-  getItem: async (key: string): Promise<string | null> => {
-    try {
-      return await AsyncStorage.getItem(key);
-    } catch (error) {
-      console.error(`Error retrieving ${key} from AsyncStorage:`, error);
-      return null;
-    }
-  },
-  setItem: async (key: string, value: string): Promise<boolean> => {
-    try {
-      await AsyncStorage.setItem(key, value);
-      return true;
-    } catch (error) {
-      console.error(`Error storing ${key} in AsyncStorage:`, error);
-      return false;
+export const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
+  await LoginThrottle.assertLoginAllowed(credentials.cpf);
+
+  let result: LoginResult;
+  try {
+    result = await getAuthBackend().login(credentials, getDeviceInfo());
+  } catch (error) {
+    if (error instanceof AuthError && error.code === 'INVALID_CREDENTIALS') {
+      const throttledError = await LoginThrottle.recordFailedLogin(credentials.cpf);
+      if (throttledError) throw throttledError;
     }
-  },
-  multiSet: async (keyValuePairs: [string, string][]): Promise<boolean> => {
+    throw error;
+  }
+
+  await LoginThrottle.resetFailedLogins(credentials.cpf);
+
+  // Save auth data to storage
+  if (result.status === 'authenticated') {
+    await saveAuthData(result.session);
+  }
+
+  return result;
+};
+
+/**
+ * Completes a two-factor login with a TOTP or backup code and persists the session
+ */
+export const verifyTwoFactor = async (challengeToken: string, code: string): Promise<LoginResponse> => {
+  const response = await getAuthBackend().verifyTwoFactor(challengeToken, code, getDeviceInfo());
+  await saveAuthData(response);
+
+  return response;
+};
+
+/**
+ * Start enabling two-factor authentication for the logged-in user
+ */
+export const startTwoFactorEnrollment = async (): Promise<TwoFactorEnrollment> => {
+  await assertNotImpersonating();
+  return await getAuthBackend().startTwoFactorEnrollment(await requireSavedToken());
+};
+
+/**
+ * Confirm the enrollment with a first code, returning the backup codes
+ */
+export const confirmTwoFactorEnrollment = async (code: string): Promise<string[]> => {
+  await assertNotImpersonating();
+  const backupCodes = await getAuthBackend().confirmTwoFactorEnrollment(await requireSavedToken(), code);
+  await updateSavedUser({ twoFactorEnabled: true });
+
+  return backupCodes;
+};
+
+/**
+ * Turn two-factor authentication off for the logged-in user
+ */
+export const disableTwoFactor = async (code: string): Promise<void> => {
+  await assertNotImpersonating();
+  await getAuthBackend().disableTwoFactor(await requireSavedToken(), code);
+  await updateSavedUser({ twoFactorEnabled: false });
+};
+
+/**
+ * Returns how long a CPF must wait before its next login attempt
+ */
+export const getLoginThrottleStatus = async (cpf: string): Promise<LoginThrottleStatus> => {
+  return await LoginThrottle.getThrottleStatus(cpf);
+};
+
+/**
+ * Creates a new account for a student or trainer
+ * Active accounts are signed in right away, pending ones must wait for approval
+ */
+export const register = async (data: RegistrationData): Promise<RegistrationResult> => {
+  const result = await getAuthBackend().register(data, getDeviceInfo());
+
+  if (result.status === AccountStatus.ACTIVE) {
+    await saveAuthData(result.session);
+  }
+
+  return result;
+};
+
+/**
+ * List accounts waiting for admin approval
+ */
+export const listPendingUsers = async (): Promise<User[]> => {
+  return await getAuthBackend().listPendingUsers(await requireSavedToken());
+};
+
+/**
+ * Approve a pending account so the user can sign in
+ */
+export const approveUser = async (userId: string): Promise<User> => {
+  return await getAuthBackend().approveUser(await requireSavedToken(), userId);
+};
+
+/**
+ * List the dependents of the logged-in guardian
+ */
+export const listDependents = async (): Promise<User[]> => {
+  return await getAuthBackend().listDependents(await requireSavedToken());
+};
+
+/**
+ * List the users an admin may view the app as
+ */
+export const listUsers = async (): Promise<User[]> => {
+  return await getAuthBackend().listUsers(await requireSavedToken());
+};
+
+/**
+ * Start viewing the app as another user, keeping the admin session underneath
+ * The impersonated user is saved so the mode survives an app restart until it is stopped
+ */
+export const startImpersonation = async (userId: string): Promise<User> => {
+  const user = await getAuthBackend().startImpersonation(await requireSavedToken(), userId);
+  await safeStorage.setItem(IMPERSONATED_USER_KEY, JSON.stringify(user));
+
+  return user;
+};
+
+/**
+ * Return to the admin session
+ */
+export const stopImpersonation = async (): Promise<void> => {
+  const user = await getImpersonatedUser();
+  if (!user) return;
+
+  await getAuthBackend().stopImpersonation(await requireSavedToken(), user.id);
+  await safeStorage.multiRemove([IMPERSONATED_USER_KEY]);
+};
+
+/**
+ * Get the user being impersonated, or null outside of impersonation
+ */
+export const getImpersonatedUser = async (): Promise<User | null> => {
+  const userData = await safeStorage.getItem(IMPERSONATED_USER_KEY);
+  if (!userData) return null;
+
+  try {
+    return JSON.parse(userData);
+  } catch (error) {
+    console.error('Error parsing impersonated user data:', error);
+    return null;
+  }
+};
+
+/**
+ * Impersonation is read-only: clinical data can't be changed on behalf of another user.
+ * Requests still carry the admin's own token, so account settings (devices, two-factor, invites)
+ * are refused too rather than acting on the admin's account.
+ * Throws an AuthError with code IMPERSONATION_READ_ONLY while an admin impersonates someone.
+ */
+export const assertNotImpersonating = async (): Promise<void> => {
+  if (await getImpersonatedUser()) throw new AuthError('IMPERSONATION_READ_ONLY');
+};
+
+/**
+ * Check the saved session is still valid on the backend
+ * Throws an AuthError with code SESSION_REVOKED when it was ended from another device
+ */
+export const checkSession = async (): Promise<void> => {
+  await getAuthBackend().checkSession(await requireSavedToken());
+};
+
+/**
+ * List the devices signed in to the logged-in account
+ */
+export const listSessions = async (): Promise<DeviceSession[]> => {
+  await assertNotImpersonating();
+  return await getAuthBackend().listSessions(await requireSavedToken());
+};
+
+/**
+ * Sign another device out of the logged-in account
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await assertNotImpersonating();
+  await getAuthBackend().revokeSession(await requireSavedToken(), sessionId);
+};
+
+/**
+ * Create a single-use invite for a new student of the logged-in trainer
+ */
+export const createInvite = async (): Promise<Invite> => {
+  await assertNotImpersonating();
+  return await getAuthBackend().createInvite(await requireSavedToken());
+};
+
+/**
+ * List the invites of the logged-in trainer that were not used yet
+ */
+export const listPendingInvites = async (): Promise<Invite[]> => {
+  await assertNotImpersonating();
+  return await getAuthBackend().listPendingInvites(await requireSavedToken());
+};
+
+/**
+ * Cancel an invite so it can no longer be redeemed
+ */
+export const revokeInvite = async (code: string): Promise<void> => {
+  await assertNotImpersonating();
+  await getAuthBackend().revokeInvite(await requireSavedToken(), code);
+};
+
+/**
+ * Look up who sent an invite, without being logged in
+ */
+export const getInvitePreview = async (code: string): Promise<InvitePreview> => {
+  return await getAuthBackend().getInvitePreview(code);
+};
+
+/**
+ * Send a verification code to the e-mail of the account with the given CPF
+ */
+export const requestPasswordReset = async (cpf: string): Promise<PasswordResetRequest> => {
+  return await getAuthBackend().requestPasswordReset(cpf);
+};
+
+/**
+ * Check a verification code, returning the token required to set the new password
+ */
+export const verifyResetCode = async (cpf: string, code: string): Promise<string> => {
+  return await getAuthBackend().verifyResetCode(cpf, code);
+};
+
+/**
+ * Set a new password using the token obtained from verifyResetCode
+ */
+export const resetPassword = async (resetToken: string, newPassword: string): Promise<void> => {
+  await getAuthBackend().resetPassword(resetToken, newPassword);
+};
+
+/**
+ * Get the rules new passwords must follow
+ */
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  cachedPasswordPolicy = await getAuthBackend().getPasswordPolicy();
+  return cachedPasswordPolicy;
+};
+
+/**
+ * Get the password policy received last, without calling the backend
+ */
+export const getCachedPasswordPolicy = (): PasswordPolicy | null => cachedPasswordPolicy;
+
+/**
+ * Change the rules new passwords must follow (admins only)
+ * Existing passwords keep working, the policy applies when a password is chosen
+ */
+export const updatePasswordPolicy = async (policy: PasswordPolicy): Promise<PasswordPolicy> => {
+  await assertNotImpersonating();
+  return await getAuthBackend().updatePasswordPolicy(await requireSavedToken(), policy);
+};
+
+/**
+ * Logs the user out on the backend and clears the local session.
+ * The local session is always cleared, even if the backend call fails.
+ */
+export const logout = async (): Promise<boolean> => {
+  const token = await getSavedToken();
+
+  if (token) {
     try {
-      await AsyncStorage.multiSet(keyValuePairs);
-      return true;
+      // Close an open impersonation first so the audit log records its end
+      await stopImpersonation();
     } catch (error) {
-      console.error(`Error storing multiple keys in AsyncStorage:`, error);
-      return false;
+      console.warn('Failed to stop impersonation before logout:', error);
     }
-  },
-  multiRemove: async (keys: string[]): Promise<boolean> => {
+
     try {
-      await AsyncStorage.multiRemove(keys);
-      return true;
+      await getAuthBackend().logout(token);
     } catch (error) {
-      console.error(`Error removing keys from AsyncStorage:`, error);
-      return false;
+      console.warn('Failed to invalidate session on the server:', error);
     }
   }
-};
 
-/**
- * Mock login function - simulates API call
- * In a real application, this would make a network request
- */
-export const login = async (credentials: LoginCredentials): Promise<LoginResponse> => {
-  // For development/demo, we'll simulate a network request delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-
-  // Simulate validation - in a real app this would be done on the server
-  if (credentials.cpf === '123.456.789-10' && credentials.password === 'password123') {
-    // Mock successful response
-    const response: LoginResponse = {
-      user: {
-        id: '1',
-        name: 'Treinador',
-        userType: UserType.TRAINER,
-        cpf: '123.456.789-10',
-        email: 'john@example.com',
-        profileImage: 'https://via.placeholder.com/150',
-      },
-      token: 'mock-jwt-token-would-be-here',
-    };
-
-    // Save auth data to storage
-    await saveAuthData(response);
-
-    return response;
-  } else {
-    // Simulate error
-    throw new Error('CPF ou senha inválidos.');
-  }
+  return await clearAuthData();
 };
 
 /**
- * Mock logout function
+ * Exchanges the saved refresh token for a new token pair and persists it
+ * Throws an AuthError with code SESSION_EXPIRED when there is nothing to refresh
  */
-export const logout = async (): Promise<boolean> => {
-  // In a real app, you might need to invalidate the token on the server
-  return await clearAuthData();
+export const refreshSession = async (): Promise<AuthTokens> => {
+  const savedTokens = await getSavedTokens();
+
+  if (!savedTokens) {
+    throw new AuthError('SESSION_EXPIRED');
+  }
+
+  const tokens = await getAuthBackend().refresh(savedTokens.refreshToken);
+  await saveTokens(tokens);
+
+  return tokens;
 };
 
 /**
  * Save authentication data to persistent storage
- * Uses multiSet to ensure both values are stored atomically
+ * Uses multiSet to ensure all values are stored atomically
  */
 export const saveAuthData = async (data: LoginResponse): Promise<boolean> => {
   const keyValuePairs: [string, string][] = [
     [AUTH_TOKEN_KEY, data.token],
+    [REFRESH_TOKEN_KEY, data.refreshToken],
+    [TOKEN_EXPIRES_AT_KEY, String(data.expiresAt)],
     [USER_DATA_KEY, JSON.stringify(data.user)]
   ];
   
   return await safeStorage.multiSet(keyValuePairs);
 };
 
+/**
+ * Save a refreshed token pair, keeping the stored user untouched
+ */
+export const saveTokens = async (tokens: AuthTokens): Promise<boolean> => {
+  return await safeStorage.multiSet([
+    [AUTH_TOKEN_KEY, tokens.token],
+    [REFRESH_TOKEN_KEY, tokens.refreshToken],
+    [TOKEN_EXPIRES_AT_KEY, String(tokens.expiresAt)],
+  ]);
+};
+
 /**
  * Get saved user data from storage
  */
@@ -115,6 +391,34 @@ export const getSavedUser = async (): Promise<User | null> => {
   }
 };
 
+/**
+ * Merge changes into the saved user, returning the updated user
+ */
+export const updateSavedUser = async (changes: Partial<Omit<User, 'id'>>): Promise<User | null> => {
+  const user = await getSavedUser();
+  if (!user) return null;
+  
+  const updatedUser = { ...user, ...changes };
+  await safeStorage.setItem(USER_DATA_KEY, JSON.stringify(updatedUser));
+  
+  return updatedUser;
+};
+
+/**
+ * Change the active role of the saved user to another role the account holds
+ * Takes effect on the device only, the session and its tokens stay the same
+ */
+export const switchRole = async (role: UserType): Promise<User> => {
+  const user = await getSavedUser();
+  if (!user) throw new AuthError('SESSION_EXPIRED');
+  if (!hasRole(user, role)) throw new AuthError('ROLE_NOT_ASSIGNED');
+
+  const updatedUser = await updateSavedUser({ userType: role });
+  if (!updatedUser) throw new AuthError('UNKNOWN');
+
+  return updatedUser;
+};
+
 /**
  * Get saved auth token from storage
  */
@@ -122,17 +426,167 @@ export const getSavedToken = async (): Promise<string | null> => {
   return await safeStorage.getItem(AUTH_TOKEN_KEY);
 };
 
+/**
+ * Get the saved auth token, failing when there is no session
+ */
+const requireSavedToken = async (): Promise<string> => {
+  const token = await getSavedToken();
+  if (!token) throw new AuthError('SESSION_EXPIRED');
+  return token;
+};
+
+/**
+ * Get the saved token pair from storage
+ * Returns null when any part of the pair is missing or malformed
+ */
+export const getSavedTokens = async (): Promise<AuthTokens | null> => {
+  const values = await safeStorage.multiGet([AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, TOKEN_EXPIRES_AT_KEY]);
+  const token = values[AUTH_TOKEN_KEY];
+  const refreshToken = values[REFRESH_TOKEN_KEY];
+  const expiresAt = Number(values[TOKEN_EXPIRES_AT_KEY]);
+  
+  if (!token || !refreshToken || !Number.isFinite(expiresAt)) return null;
+  
+  return { token, refreshToken, expiresAt };
+};
+
+/**
+ * Check if an access token has expired (or is about to)
+ */
+export const isTokenExpired = (expiresAt: number, marginMs: number = TOKEN_EXPIRY_MARGIN_MS): boolean => {
+  return Date.now() >= expiresAt - marginMs;
+};
+
 /**
  * Check if user is already logged in
+ * A session with an expired access token still counts, as it can be refreshed
  */
 export const isUserLoggedIn = async (): Promise<boolean> => {
-  const token = await getSavedToken();
-  return !!token;
+  const tokens = await getSavedTokens();
+  return !!tokens;
+};
+
+/**
+ * Restore the session saved on the device, renewing the access token if it expired while the app was closed
+ */
+export const restoreSession = async (): Promise<RestoredSession> => {
+  const [user, tokens] = await Promise.all([getSavedUser(), getSavedTokens()]);
+
+  if (!tokens) return { status: 'signed_out' };
+
+  if (!user) {
+    // Tokens without a user can't be used, start over
+    const clearSuccess = await clearAuthData();
+    if (!clearSuccess) {
+      console.warn('Failed to clear auth data during authentication check');
+    }
+    return { status: 'signed_out' };
+  }
+
+  let sessionTokens = tokens;
+  let wasRefreshed = false;
+  let isStale = false;
+
+  if (isTokenExpired(tokens.expiresAt)) {
+    try {
+      sessionTokens = await refreshSession();
+      wasRefreshed = true;
+    } catch (refreshError) {
+      console.warn('Failed to refresh expired session:', refreshError);
+      if (isSessionEndedError(refreshError)) return { status: 'expired', error: refreshError };
+
+      // Offline or server trouble, the session is kept so the app still opens on the local data
+      isStale = true;
+    }
+  }
+
+  return {
+    status: 'authenticated',
+    session: { user, ...sessionTokens },
+    impersonatedUser: await getImpersonatedUser(),
+    wasRefreshed,
+    isStale,
+  };
+};
+
+/**
+ * Start restoring the saved session ahead of time, e.g. while the splash screen is shown
+ * A failed restore is forgotten so a later call can try again
+ */
+export const prefetchSessionRestore = (): Promise<RestoredSession> => {
+  if (!pendingSessionRestore) {
+    pendingSessionRestore = restoreSession();
+    pendingSessionRestore.catch(() => {
+      pendingSessionRestore = null;
+    });
+  }
+
+  return pendingSessionRestore;
+};
+
+/**
+ * Hand over the restore started by prefetchSessionRestore, or start a new one
+ */
+export const takeSessionRestore = (): Promise<RestoredSession> => {
+  const sessionRestore = pendingSessionRestore ?? restoreSession();
+  pendingSessionRestore = null;
+  return sessionRestore;
+};
+
+/**
+ * Register how the changes not sent to the server yet are counted.
+ * Passing null removes the counter.
+ */
+export const setUnsentChangesCounter = (counter: (() => Promise<number>) | null): void => {
+  unsentChangesCounter = counter;
+};
+
+/**
+ * Checks whether the signed-in user has changes not sent to the server yet, e.g. when the session ends on its own
+ */
+export const hasUnsentChanges = async (): Promise<boolean> => {
+  if (!unsentChangesCounter) return false;
+
+  try {
+    return (await unsentChangesCounter()) > 0;
+  } catch (error) {
+    console.warn('Failed to count unsent changes:', error);
+    return false;
+  }
 };
 
 /**
  * Clear all authentication data from storage
  */
 export const clearAuthData = async (): Promise<boolean> => {
-  return await safeStorage.multiRemove([AUTH_TOKEN_KEY, USER_DATA_KEY]);
-}; 
\ No newline at end of file
+  return await safeStorage.multiRemove(AUTH_DATA_KEYS);
+};
+
+/**
+ * Storage migrations of the auth data, run at startup before the session is restored
+ */
+export const AUTH_STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Encrypt auth data saved in plain text by versions before encryption at rest',
+    migrate: async ({ encryptLegacyItems }) => {
+      const migratedCount = await encryptLegacyItems(AUTH_DATA_KEYS);
+      if (migratedCount > 0) {
+        console.info(`Encrypted ${migratedCount} legacy auth entries`);
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'List every role of the saved users, added with multi-role accounts',
+    migrate: async ({ getItem, setItem }) => {
+      for (const key of [USER_DATA_KEY, IMPERSONATED_USER_KEY]) {
+        const userData = await getItem(key);
+        if (!userData) continue;
+
+        const user: User = JSON.parse(userData);
+        await setItem(key, JSON.stringify({ ...user, roles: getUserRoles(user) }));
+      }
+    },
+  },
+]; 
\ No newline at end of file
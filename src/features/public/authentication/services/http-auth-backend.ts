@@ -0,0 +1,197 @@
+import {
+  AuthErrorCode,
+  AuthTokens,
+  DeviceInfo,
+  DeviceSession,
+  Invite,
+  InvitePreview,
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  PasswordPolicy,
+  PasswordResetRequest,
+  RegistrationData,
+  RegistrationResult,
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+  User,
+} from '../types';
+import { ApiClientOptions, ApiError, ApiRequestOptions, createApiClient } from '../../../../shared/api';
+import { AuthError, LoginThrottledError, isAuthErrorCode } from '../utils/auth-errors';
+import type { AuthBackend } from './auth-backend';
+
+export interface HttpAuthBackendOptions extends Pick<ApiClientOptions, 'timeoutMs' | 'maxRetries' | 'fetchFn'> {
+  baseUrl: string;
+}
+
+interface AuthRequestOptions extends Pick<ApiRequestOptions, 'method' | 'query' | 'body'> {
+  // Session the request is sent for
+  token?: string;
+}
+
+interface ErrorResponseBody {
+  code?: unknown;
+}
+
+// The login endpoint answers with a challenge instead of a session when 2FA is enabled
+type LoginResponseBody = LoginResponse | (TwoFactorChallenge & { twoFactorRequired: true });
+
+/**
+ * Maps an HTTP status to an error code when the server does not send one
+ */
+const getCodeFromStatus = (status: number): AuthErrorCode => {
+  if (status === 401) return 'INVALID_CREDENTIALS';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'USER_NOT_FOUND';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+/**
+ * Turns an API client failure into an AuthError, preferring the code sent by the server
+ */
+const toAuthError = (error: unknown): unknown => {
+  if (!(error instanceof ApiError)) return error;
+
+  const { code } = (error.body ?? {}) as ErrorResponseBody;
+  // The server enforces the login limits, answering 429 with the wait in Retry-After
+  if (code === 'TOO_MANY_ATTEMPTS' || code === 'ACCOUNT_LOCKED') {
+    return new LoginThrottledError(code, error.retryAfterMs ?? 0);
+  }
+  if (isAuthErrorCode(code)) return new AuthError(code);
+
+  if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT' || error.code === 'SERVER_ERROR') {
+    return new AuthError(error.code);
+  }
+  return new AuthError(error.status === null ? 'UNKNOWN' : getCodeFromStatus(error.status));
+};
+
+/**
+ * Backend that talks to the PhysiPro REST API
+ */
+export const createHttpAuthBackend = ({ baseUrl, ...clientOptions }: HttpAuthBackendOptions): AuthBackend => {
+  const client = createApiClient({ ...clientOptions, baseUrl });
+
+  // Tokens are passed in by the auth service, the client must not renew the session it is managing
+  const request = async <T>(path: string, { token, ...options }: AuthRequestOptions): Promise<T> => {
+    try {
+      return await client.request<T>(path, {
+        ...options,
+        authenticated: false,
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  };
+
+  return {
+    login: async (credentials: LoginCredentials, device: DeviceInfo): Promise<LoginResult> => {
+      const body = await request<LoginResponseBody>('/auth/login', {
+        method: 'POST',
+        body: { ...credentials, device },
+      });
+
+      if ('twoFactorRequired' in body) {
+        return {
+          status: 'two_factor_required',
+          challenge: { challengeToken: body.challengeToken, expiresAt: body.expiresAt },
+        };
+      }
+      return { status: 'authenticated', session: body };
+    },
+    verifyTwoFactor: (challengeToken: string, code: string, device: DeviceInfo) =>
+      request<LoginResponse>('/auth/2fa/verify', {
+        method: 'POST',
+        body: { challengeToken, code, device },
+      }),
+    logout: (token: string) =>
+      request<void>('/auth/logout', { method: 'POST', token }),
+    refresh: async (refreshToken: string) => {
+      try {
+        return await request<AuthTokens>('/auth/refresh', {
+          method: 'POST',
+          body: { refreshToken },
+        });
+      } catch (error) {
+        // A rejected refresh token means the session is over
+        if (error instanceof AuthError && error.code === 'INVALID_CREDENTIALS') {
+          throw new AuthError('SESSION_EXPIRED');
+        }
+        throw error;
+      }
+    },
+    register: (data: RegistrationData, device: DeviceInfo) =>
+      request<RegistrationResult>('/auth/register', {
+        method: 'POST',
+        body: { ...data, device },
+      }),
+    checkSession: (token: string) =>
+      request<void>('/auth/sessions/current', { method: 'POST', token }),
+    listSessions: (token: string) =>
+      request<DeviceSession[]>('/auth/sessions', { method: 'GET', token }),
+    revokeSession: (token: string, sessionId: string) =>
+      request<void>(`/auth/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE', token }),
+    listPendingUsers: (token: string) =>
+      request<User[]>('/users', { method: 'GET', query: { status: 'pending' }, token }),
+    approveUser: (token: string, userId: string) =>
+      request<User>(`/users/${encodeURIComponent(userId)}/approve`, { method: 'POST', token }),
+    listDependents: (token: string) =>
+      request<User[]>('/users/me/dependents', { method: 'GET', token }),
+    listUsers: (token: string) =>
+      request<User[]>('/users', { method: 'GET', token }),
+    startImpersonation: (token: string, userId: string) =>
+      request<User>(`/users/${encodeURIComponent(userId)}/impersonation`, { method: 'POST', token }),
+    stopImpersonation: (token: string, userId: string) =>
+      request<void>(`/users/${encodeURIComponent(userId)}/impersonation`, { method: 'DELETE', token }),
+    requestPasswordReset: (cpf: string) =>
+      request<PasswordResetRequest>('/auth/password-reset', {
+        method: 'POST',
+        body: { cpf },
+      }),
+    verifyResetCode: async (cpf: string, code: string) => {
+      const { resetToken } = await request<{ resetToken: string }>('/auth/password-reset/verify', {
+        method: 'POST',
+        body: { cpf, code },
+      });
+      return resetToken;
+    },
+    resetPassword: (resetToken: string, newPassword: string) =>
+      request<void>('/auth/password-reset/confirm', {
+        method: 'POST',
+        body: { resetToken, newPassword },
+      }),
+    getPasswordPolicy: () =>
+      request<PasswordPolicy>('/auth/password-policy', { method: 'GET' }),
+    updatePasswordPolicy: (token: string, policy: PasswordPolicy) =>
+      request<PasswordPolicy>('/auth/password-policy', {
+        method: 'PUT',
+        body: policy,
+        token,
+      }),
+    startTwoFactorEnrollment: (token: string) =>
+      request<TwoFactorEnrollment>('/auth/2fa/enroll', { method: 'POST', token }),
+    confirmTwoFactorEnrollment: async (token: string, code: string) => {
+      const { backupCodes } = await request<{ backupCodes: string[] }>('/auth/2fa/enroll/confirm', {
+        method: 'POST',
+        body: { code },
+        token,
+      });
+      return backupCodes;
+    },
+    disableTwoFactor: (token: string, code: string) =>
+      request<void>('/auth/2fa/disable', {
+        method: 'POST',
+        body: { code },
+        token,
+      }),
+    createInvite: (token: string) =>
+      request<Invite>('/invites', { method: 'POST', token }),
+    listPendingInvites: (token: string) =>
+      request<Invite[]>('/invites', { method: 'GET', query: { status: 'pending' }, token }),
+    revokeInvite: (token: string, code: string) =>
+      request<void>(`/invites/${encodeURIComponent(code)}/revoke`, { method: 'POST', token }),
+    getInvitePreview: (code: string) =>
+      request<InvitePreview>(`/invites/${encodeURIComponent(code)}`, { method: 'GET' }),
+  };
+};
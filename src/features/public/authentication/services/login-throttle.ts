@@ -0,0 +1,172 @@
+import { secureStorage } from '../../../../shared/storage';
+import { LoginThrottleStatus } from '../types';
+import { LoginThrottledError } from '../utils/auth-errors';
+
+/**
+ * Throttling of failed logins per CPF.
+ *
+ * The device keeps its own counters so the login screen can show the wait without calling the server,
+ * but they are a convenience only: clearing the app data resets them and they don't protect the API.
+ * The backend enforces the same limits on its side (the mock backend through createLoginThrottle,
+ * the HTTP backend answering 429 with TOO_MANY_ATTEMPTS or ACCOUNT_LOCKED).
+ */
+
+// Storage key for the failed login counters, kept across app restarts
+export const LOGIN_THROTTLE_KEY = '@PhysiPro:loginThrottle';
+
+// Failures after which every new attempt has to wait
+const FREE_ATTEMPTS = 3;
+
+// Wait after the first throttled failure, doubled on each following one
+const BASE_BACKOFF_MS = 5 * 1000;
+
+// Failures that lock the CPF out for the whole lockout window
+export const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+// Counters are forgotten once the CPF had no failure for this long, locked out or not
+const FAILURE_RESET_MS = LOCKOUT_WINDOW_MS;
+
+interface ThrottleEntry {
+  failedAttempts: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+}
+
+type ThrottleEntries = Record<string, ThrottleEntry>;
+
+// Where the counters are kept, the subset of the AsyncStorage API the throttle needs
+export interface ThrottleStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+export interface LoginThrottle {
+  getThrottleStatus: (cpf: string) => Promise<LoginThrottleStatus>;
+  assertLoginAllowed: (cpf: string) => Promise<void>;
+  recordFailedLogin: (cpf: string) => Promise<LoginThrottledError | null>;
+  resetFailedLogins: (cpf: string) => Promise<void>;
+}
+
+const getEntryKey = (cpf: string): string => cpf.replace(/\D/g, '');
+
+const isStale = (entry: ThrottleEntry): boolean => Date.now() - entry.lastFailureAt >= FAILURE_RESET_MS;
+
+/**
+ * Wait imposed after the given number of consecutive failures
+ */
+const getBlockDuration = (failedAttempts: number): number => {
+  if (failedAttempts >= MAX_FAILED_ATTEMPTS) return LOCKOUT_WINDOW_MS;
+  if (failedAttempts < FREE_ATTEMPTS) return 0;
+
+  return BASE_BACKOFF_MS * 2 ** (failedAttempts - FREE_ATTEMPTS);
+};
+
+const toStatus = (entry: ThrottleEntry | undefined): LoginThrottleStatus => {
+  if (!entry) {
+    return { failedAttempts: 0, retryAfterMs: 0, isLocked: false };
+  }
+
+  return {
+    failedAttempts: entry.failedAttempts,
+    retryAfterMs: Math.max(0, entry.blockedUntil - Date.now()),
+    isLocked: entry.failedAttempts >= MAX_FAILED_ATTEMPTS && entry.blockedUntil > Date.now(),
+  };
+};
+
+const toError = (status: LoginThrottleStatus): LoginThrottledError => {
+  return new LoginThrottledError(status.isLocked ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS', status.retryAfterMs);
+};
+
+/**
+ * Creates a throttle keeping its counters under the given key
+ */
+export const createLoginThrottle = (storageKey: string, storage: ThrottleStorage): LoginThrottle => {
+  const loadEntries = async (): Promise<ThrottleEntries> => {
+    try {
+      const storedEntries = await storage.getItem(storageKey);
+      return storedEntries ? JSON.parse(storedEntries) : {};
+    } catch (error) {
+      console.error('Error retrieving login throttle state:', error);
+      return {};
+    }
+  };
+
+  const saveEntries = async (entries: ThrottleEntries): Promise<void> => {
+    try {
+      await storage.setItem(storageKey, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error storing login throttle state:', error);
+    }
+  };
+
+  /**
+   * Returns the current throttle state for a CPF
+   * A CPF without failures in the last lockout window starts counting from zero again
+   */
+  const getThrottleStatus = async (cpf: string): Promise<LoginThrottleStatus> => {
+    const entries = await loadEntries();
+    const entryKey = getEntryKey(cpf);
+    const entry = entries[entryKey];
+
+    if (entry && isStale(entry)) {
+      delete entries[entryKey];
+      await saveEntries(entries);
+      return toStatus(undefined);
+    }
+
+    return toStatus(entry);
+  };
+
+  return {
+    getThrottleStatus,
+    /**
+     * Throws a LoginThrottledError if the CPF must still wait before trying again
+     */
+    assertLoginAllowed: async (cpf: string): Promise<void> => {
+      const status = await getThrottleStatus(cpf);
+
+      if (status.retryAfterMs > 0) {
+        throw toError(status);
+      }
+    },
+    /**
+     * Counts a failed attempt and returns the error describing the wait it imposes,
+     * or null while the CPF still has free attempts left
+     */
+    recordFailedLogin: async (cpf: string): Promise<LoginThrottledError | null> => {
+      const entries = await loadEntries();
+      const entryKey = getEntryKey(cpf);
+      const previousEntry = entries[entryKey];
+      const failedAttempts = (previousEntry && !isStale(previousEntry) ? previousEntry.failedAttempts : 0) + 1;
+      const now = Date.now();
+
+      entries[entryKey] = {
+        failedAttempts,
+        lastFailureAt: now,
+        blockedUntil: now + getBlockDuration(failedAttempts),
+      };
+      await saveEntries(entries);
+
+      const status = toStatus(entries[entryKey]);
+      return status.retryAfterMs > 0 ? toError(status) : null;
+    },
+    /**
+     * Clears the failure counter after a successful login
+     */
+    resetFailedLogins: async (cpf: string): Promise<void> => {
+      const entries = await loadEntries();
+      const entryKey = getEntryKey(cpf);
+
+      if (entries[entryKey]) {
+        delete entries[entryKey];
+        await saveEntries(entries);
+      }
+    },
+  };
+};
+
+// Counters of this device, encrypted like the other session data as they list the CPFs typed on it
+const deviceThrottle = createLoginThrottle(LOGIN_THROTTLE_KEY, secureStorage);
+
+export const { getThrottleStatus, assertLoginAllowed, recordFailedLogin, resetFailedLogins } = deviceThrottle;
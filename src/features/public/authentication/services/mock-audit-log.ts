@@ -0,0 +1,28 @@
+import { createRepository } from '../../../../shared/storage';
+import { AuditEntry } from '../types';
+
+// Audit log kept by the mock backend, stored under @PhysiPro:mock:auditLog:*
+const auditLog = createRepository<AuditEntry, 'actorId' | 'targetUserId'>({
+  name: 'mock:auditLog',
+  indexes: ['actorId', 'targetUserId'],
+});
+
+/**
+ * Appends an entry to the audit log
+ */
+export const recordAuditEntry = async (entry: Omit<AuditEntry, 'id' | 'createdAt'>): Promise<AuditEntry> => {
+  return auditLog.insert({ ...entry, createdAt: Date.now() });
+};
+
+/**
+ * Lists the audit log, most recent entries first
+ * Passing a user id only lists the entries about that user
+ */
+export const listAuditEntries = async (targetUserId?: string): Promise<AuditEntry[]> => {
+  const { items } = await auditLog.query({
+    where: targetUserId ? { targetUserId } : undefined,
+    sortBy: 'createdAt',
+    order: 'desc',
+  });
+  return items;
+};
@@ -0,0 +1,434 @@
+import {
+  AccountStatus,
+  AuthTokens,
+  DeviceInfo,
+  DeviceSession,
+  Invite,
+  InvitePreview,
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  PasswordPolicy,
+  PasswordResetRequest,
+  RegistrationData,
+  RegistrationResult,
+  TwoFactorEnrollment,
+  User,
+  UserType,
+} from '../types';
+import { AuthError } from '../utils/auth-errors';
+import { MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH, getPasswordPolicyViolations } from '../utils/password-policy';
+import { getUserRoles, hasRole } from '../utils/permissions';
+import { buildOtpauthUri } from '../utils/totp';
+import { isCpfValid, isEmailValid } from '../utils/validators';
+import type { AuthBackend } from './auth-backend';
+import * as UserDirectory from './mock-user-directory';
+import * as PasswordResetStore from './mock-password-reset-store';
+import * as PasswordPolicyStore from './mock-password-policy-store';
+import * as TwoFactorStore from './mock-two-factor-store';
+import * as InviteStore from './mock-invite-store';
+import * as SessionStore from './mock-session-store';
+import * as AuditLog from './mock-audit-log';
+import * as LoginAttempts from './mock-login-attempts';
+
+// Simulated network latency for the mock backend
+const MOCK_DELAY_MS = 1000;
+
+// Lifetime of the mock access tokens
+const MOCK_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Mock tokens have the shape `<prefix>.<userId>.<sessionId>`
+const MOCK_ACCESS_TOKEN_PREFIX = 'mock-access';
+const MOCK_REFRESH_TOKEN_PREFIX = 'mock-refresh';
+
+const SELF_SERVICE_USER_TYPES: UserType[] = [UserType.STUDENT, UserType.TRAINER];
+
+// Roles that may protect their account with two-factor authentication
+const TWO_FACTOR_USER_TYPES: UserType[] = [UserType.ADMIN, UserType.TRAINER];
+
+const simulateNetworkDelay = () => new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+
+interface TokenClaims {
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Issues a new mock access/refresh token pair for a session
+ */
+const issueTokens = (userId: string, sessionId: string): AuthTokens => ({
+  token: `${MOCK_ACCESS_TOKEN_PREFIX}.${userId}.${sessionId}`,
+  refreshToken: `${MOCK_REFRESH_TOKEN_PREFIX}.${userId}.${sessionId}`,
+  expiresAt: Date.now() + MOCK_TOKEN_TTL_MS,
+});
+
+/**
+ * Opens a session for a user on a device and issues its tokens
+ */
+const startSession = async (user: User, device: DeviceInfo): Promise<LoginResponse> => {
+  const sessionId = await SessionStore.createSession(user.id, device);
+  return { user, ...issueTokens(user.id, sessionId) };
+};
+
+/**
+ * Extracts the user and session ids from a mock token, or null if the token was not issued by the mock
+ */
+const parseToken = (token: string, prefix: string): TokenClaims | null => {
+  const [tokenPrefix, userId, sessionId] = token.split('.');
+  return tokenPrefix === prefix && userId && sessionId ? { userId, sessionId } : null;
+};
+
+/**
+ * Resolves the session of an authenticated request and checks the account is active
+ * Fails with SESSION_REVOKED when the session was ended from another device
+ */
+const requireSession = async (token: string): Promise<{ user: User; sessionId: string }> => {
+  const claims = parseToken(token, MOCK_ACCESS_TOKEN_PREFIX);
+  const account = claims ? await UserDirectory.findAccountById(claims.userId) : null;
+
+  if (!claims || !account || account.user.status !== AccountStatus.ACTIVE) throw new AuthError('SESSION_EXPIRED');
+
+  await SessionStore.touchSession(claims.userId, claims.sessionId);
+
+  return { user: account.user, sessionId: claims.sessionId };
+};
+
+/**
+ * Resolves the caller of an authenticated request and checks the account is active
+ */
+const requireUser = async (token: string): Promise<User> => {
+  const { user } = await requireSession(token);
+  return user;
+};
+
+/**
+ * Resolves the caller of an authenticated request and checks it is an active admin
+ * Role checks accept any role the account holds, as the active role is only chosen on the device
+ */
+const requireAdmin = async (token: string): Promise<User> => {
+  const user = await requireUser(token);
+  if (!hasRole(user, UserType.ADMIN)) throw new AuthError('FORBIDDEN');
+
+  return user;
+};
+
+/**
+ * Resolves the caller of an authenticated request and checks it is an active trainer
+ */
+const requireTrainer = async (token: string): Promise<User> => {
+  const user = await requireUser(token);
+  if (!hasRole(user, UserType.TRAINER)) throw new AuthError('FORBIDDEN');
+
+  return user;
+};
+
+const isRegistrationDataValid = (data: RegistrationData): boolean => {
+  return data.name.trim().length > 0
+    && isCpfValid(data.cpf)
+    && isEmailValid(data.email)
+    && SELF_SERVICE_USER_TYPES.includes(data.userType);
+};
+
+/**
+ * Checks a new password against the configured policy, failing with the first broken rule
+ */
+const assertPasswordAllowed = async (password: string, owner: Pick<User, 'cpf' | 'name'>): Promise<void> => {
+  const policy = await PasswordPolicyStore.getPasswordPolicy();
+  const [violation] = getPasswordPolicyViolations(password, policy, owner);
+
+  if (violation) throw new AuthError('WEAK_PASSWORD', violation);
+};
+
+const isPasswordPolicyValid = (policy: PasswordPolicy): boolean => {
+  return Number.isInteger(policy.minLength)
+    && policy.minLength >= MIN_PASSWORD_LENGTH
+    && policy.minLength <= MAX_PASSWORD_LENGTH;
+};
+
+/**
+ * Mock backend used for development and offline demos.
+ * Accounts are kept in a local user directory.
+ */
+export const createMockAuthBackend = (): AuthBackend => ({
+  login: async (credentials: LoginCredentials, device: DeviceInfo): Promise<LoginResult> => {
+    await simulateNetworkDelay();
+
+    // Failures are limited per CPF, known or not, so the limit doesn't reveal which CPFs have an account
+    await LoginAttempts.assertLoginAllowed(credentials.cpf);
+
+    // Simulate validation - in a real app this would be done on the server
+    const account = await UserDirectory.findAccountByCpf(credentials.cpf);
+    if (!account || !(await UserDirectory.isPasswordCorrect(account, credentials.password))) {
+      throw await LoginAttempts.recordFailedLogin(credentials.cpf) ?? new AuthError('INVALID_CREDENTIALS');
+    }
+    await LoginAttempts.resetFailedLogins(credentials.cpf);
+
+    // Status is only revealed to someone who knows the password
+    if (account.user.status === AccountStatus.INACTIVE) {
+      throw new AuthError('ACCOUNT_INACTIVE');
+    }
+    if (account.user.status === AccountStatus.PENDING) {
+      throw new AuthError('ACCOUNT_PENDING_APPROVAL');
+    }
+
+    if (await TwoFactorStore.isTwoFactorEnabled(account.user.id)) {
+      return {
+        status: 'two_factor_required',
+        challenge: await TwoFactorStore.createChallenge(account.user.id),
+      };
+    }
+
+    return {
+      status: 'authenticated',
+      session: await startSession(account.user, device),
+    };
+  },
+  verifyTwoFactor: async (challengeToken: string, code: string, device: DeviceInfo): Promise<LoginResponse> => {
+    await simulateNetworkDelay();
+
+    // Codes are checked locally, so the second step also works offline
+    const userId = await TwoFactorStore.verifyChallenge(challengeToken, code);
+    const account = await UserDirectory.findAccountById(userId);
+    if (!account || account.user.status !== AccountStatus.ACTIVE) {
+      throw new AuthError('TWO_FACTOR_CHALLENGE_EXPIRED');
+    }
+
+    return startSession(account.user, device);
+  },
+  logout: async (token: string): Promise<void> => {
+    const claims = parseToken(token, MOCK_ACCESS_TOKEN_PREFIX);
+    if (claims) {
+      await SessionStore.revokeSession(claims.userId, claims.sessionId);
+    }
+  },
+  refresh: async (refreshToken: string): Promise<AuthTokens> => {
+    await simulateNetworkDelay();
+
+    // Sessions of deactivated users cannot be renewed
+    const claims = parseToken(refreshToken, MOCK_REFRESH_TOKEN_PREFIX);
+    const account = claims ? await UserDirectory.findAccountById(claims.userId) : null;
+    if (!claims || !account || account.user.status !== AccountStatus.ACTIVE) {
+      throw new AuthError('SESSION_EXPIRED');
+    }
+
+    // Neither can sessions revoked from another device
+    await SessionStore.touchSession(claims.userId, claims.sessionId);
+
+    return issueTokens(claims.userId, claims.sessionId);
+  },
+  register: async (data: RegistrationData, device: DeviceInfo): Promise<RegistrationResult> => {
+    await simulateNetworkDelay();
+
+    if (!isRegistrationDataValid(data)) {
+      throw new AuthError('INVALID_REGISTRATION_DATA');
+    }
+    await assertPasswordAllowed(data.password, data);
+    if (await UserDirectory.findAccountByCpf(data.cpf)) {
+      throw new AuthError('CPF_ALREADY_REGISTERED');
+    }
+    if (await UserDirectory.findAccountByEmail(data.email)) {
+      throw new AuthError('EMAIL_ALREADY_REGISTERED');
+    }
+
+    // Invited users always join as students of the trainer who sent the invite
+    const invite = data.inviteCode ? await InviteStore.getRedeemableInvite(data.inviteCode) : null;
+    const userType = invite ? UserType.STUDENT : data.userType;
+
+    // Trainers can only use the app after an admin approves them
+    const status = userType === UserType.TRAINER ? AccountStatus.PENDING : AccountStatus.ACTIVE;
+    const user = await UserDirectory.createAccount(
+      {
+        name: data.name.trim(),
+        cpf: data.cpf,
+        email: data.email.trim(),
+        userType,
+        status,
+        ...(invite && { trainerId: invite.trainerId }),
+      },
+      data.password,
+    );
+
+    if (invite) {
+      await InviteStore.markInviteRedeemed(invite.code, user.id);
+    }
+
+    if (status === AccountStatus.PENDING) {
+      return { status, user };
+    }
+
+    return { status, session: await startSession(user, device) };
+  },
+  listPendingUsers: async (token: string): Promise<User[]> => {
+    await simulateNetworkDelay();
+    await requireAdmin(token);
+
+    return UserDirectory.listUsers(user => user.status === AccountStatus.PENDING);
+  },
+  approveUser: async (token: string, userId: string): Promise<User> => {
+    await simulateNetworkDelay();
+    await requireAdmin(token);
+
+    const user = await UserDirectory.updateUser(userId, { status: AccountStatus.ACTIVE });
+    if (!user) throw new AuthError('USER_NOT_FOUND');
+
+    return user;
+  },
+  listDependents: async (token: string): Promise<User[]> => {
+    await simulateNetworkDelay();
+
+    const user = await requireUser(token);
+    if (!hasRole(user, UserType.GUARDIAN)) throw new AuthError('FORBIDDEN');
+
+    const dependentIds = user.dependentIds ?? [];
+    return UserDirectory.listUsers(
+      dependent => dependentIds.includes(dependent.id) && dependent.status === AccountStatus.ACTIVE,
+    );
+  },
+  listUsers: async (token: string): Promise<User[]> => {
+    await simulateNetworkDelay();
+    await requireAdmin(token);
+
+    return UserDirectory.listUsers(user => !hasRole(user, UserType.ADMIN) && user.status === AccountStatus.ACTIVE);
+  },
+  startImpersonation: async (token: string, userId: string): Promise<User> => {
+    await simulateNetworkDelay();
+
+    const admin = await requireAdmin(token);
+    const account = await UserDirectory.findAccountById(userId);
+    if (!account || account.user.status !== AccountStatus.ACTIVE) throw new AuthError('USER_NOT_FOUND');
+    // Admins can't view the app as another admin
+    if (hasRole(account.user, UserType.ADMIN)) throw new AuthError('FORBIDDEN');
+
+    await AuditLog.recordAuditEntry({ action: 'impersonation_started', actorId: admin.id, targetUserId: userId });
+
+    return account.user;
+  },
+  stopImpersonation: async (token: string, userId: string): Promise<void> => {
+    await simulateNetworkDelay();
+
+    const admin = await requireAdmin(token);
+    await AuditLog.recordAuditEntry({ action: 'impersonation_stopped', actorId: admin.id, targetUserId: userId });
+  },
+  requestPasswordReset: async (cpf: string): Promise<PasswordResetRequest> => {
+    await simulateNetworkDelay();
+
+    // Every CPF gets the same answer, whether a code was sent or not
+    const response: PasswordResetRequest = { expiresAt: Date.now() + PasswordResetStore.CODE_TTL_MS };
+    const account = await UserDirectory.findAccountByCpf(cpf);
+    if (!account) return response;
+
+    const resetCode = await PasswordResetStore.createResetCode(account.user.id);
+    if (!resetCode) {
+      console.info('[mock] Limite de códigos de recuperação atingido');
+      return response;
+    }
+
+    // There is no e-mail delivery offline, so the code is logged for testing, in development builds only
+    // as the mock backend also answers release builds without a server
+    if (__DEV__) {
+      console.info(`[mock] Código de recuperação de senha: ${resetCode.code}`);
+    }
+
+    return { expiresAt: resetCode.expiresAt };
+  },
+  verifyResetCode: async (cpf: string, code: string): Promise<string> => {
+    await simulateNetworkDelay();
+
+    const account = await UserDirectory.findAccountByCpf(cpf);
+    if (!account) throw new AuthError('RESET_CODE_INVALID');
+
+    return PasswordResetStore.verifyResetCode(account.user.id, code);
+  },
+  resetPassword: async (resetToken: string, newPassword: string): Promise<void> => {
+    await simulateNetworkDelay();
+
+    // The token is only consumed once the new password is accepted
+    const account = await UserDirectory.findAccountById(await PasswordResetStore.getResetTokenUserId(resetToken));
+    if (!account) throw new AuthError('RESET_SESSION_EXPIRED');
+    await assertPasswordAllowed(newPassword, account.user);
+
+    const userId = await PasswordResetStore.consumeResetToken(resetToken);
+    await UserDirectory.updatePassword(userId, newPassword);
+  },
+  getPasswordPolicy: async (): Promise<PasswordPolicy> => {
+    await simulateNetworkDelay();
+    return PasswordPolicyStore.getPasswordPolicy();
+  },
+  updatePasswordPolicy: async (token: string, policy: PasswordPolicy): Promise<PasswordPolicy> => {
+    await simulateNetworkDelay();
+    await requireAdmin(token);
+
+    if (!isPasswordPolicyValid(policy)) throw new AuthError('INVALID_PASSWORD_POLICY');
+
+    await PasswordPolicyStore.savePasswordPolicy(policy);
+    return policy;
+  },
+  startTwoFactorEnrollment: async (token: string): Promise<TwoFactorEnrollment> => {
+    await simulateNetworkDelay();
+
+    const user = await requireUser(token);
+    if (!getUserRoles(user).some(role => TWO_FACTOR_USER_TYPES.includes(role))) throw new AuthError('FORBIDDEN');
+
+    const secret = await TwoFactorStore.startEnrollment(user.id);
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+  },
+  confirmTwoFactorEnrollment: async (token: string, code: string): Promise<string[]> => {
+    await simulateNetworkDelay();
+
+    const user = await requireUser(token);
+    const backupCodes = await TwoFactorStore.confirmEnrollment(user.id, code);
+    await UserDirectory.updateUser(user.id, { twoFactorEnabled: true });
+
+    return backupCodes;
+  },
+  disableTwoFactor: async (token: string, code: string): Promise<void> => {
+    await simulateNetworkDelay();
+
+    const user = await requireUser(token);
+    await TwoFactorStore.disable(user.id, code);
+    await UserDirectory.updateUser(user.id, { twoFactorEnabled: false });
+  },
+  checkSession: async (token: string): Promise<void> => {
+    await simulateNetworkDelay();
+    await requireSession(token);
+  },
+  listSessions: async (token: string): Promise<DeviceSession[]> => {
+    await simulateNetworkDelay();
+
+    const { user, sessionId } = await requireSession(token);
+    return SessionStore.listSessions(user.id, sessionId);
+  },
+  revokeSession: async (token: string, sessionId: string): Promise<void> => {
+    await simulateNetworkDelay();
+
+    const user = await requireUser(token);
+    await SessionStore.revokeSession(user.id, sessionId);
+  },
+  createInvite: async (token: string): Promise<Invite> => {
+    await simulateNetworkDelay();
+
+    const trainer = await requireTrainer(token);
+    return InviteStore.createInvite(trainer.id);
+  },
+  listPendingInvites: async (token: string): Promise<Invite[]> => {
+    await simulateNetworkDelay();
+
+    const trainer = await requireTrainer(token);
+    return InviteStore.listPendingInvites(trainer.id);
+  },
+  revokeInvite: async (token: string, code: string): Promise<void> => {
+    await simulateNetworkDelay();
+
+    const trainer = await requireTrainer(token);
+    await InviteStore.revokeInvite(trainer.id, code);
+  },
+  getInvitePreview: async (code: string): Promise<InvitePreview> => {
+    await simulateNetworkDelay();
+
+    const invite = await InviteStore.getRedeemableInvite(code);
+    const trainer = await UserDirectory.findAccountById(invite.trainerId);
+    if (!trainer || trainer.user.status !== AccountStatus.ACTIVE) throw new AuthError('INVITE_INVALID');
+
+    return { code: invite.code, trainerName: trainer.user.name, expiresAt: invite.expiresAt };
+  },
+});
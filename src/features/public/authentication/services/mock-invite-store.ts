@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Invite, InviteStatus } from '../types';
+import { AuthError } from '../utils/auth-errors';
+
+// Storage key for the invites issued by the mock backend
+const INVITES_KEY = '@PhysiPro:mock:invites';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CODE_LENGTH = 8;
+
+// No 0/O or 1/I, so codes can be read aloud or typed without mistakes
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+type Invites = Record<string, Invite>;
+
+const loadInvites = async (): Promise<Invites> => {
+  const storedInvites = await AsyncStorage.getItem(INVITES_KEY);
+  return storedInvites ? JSON.parse(storedInvites) : {};
+};
+
+const saveInvites = async (invites: Invites): Promise<void> => {
+  await AsyncStorage.setItem(INVITES_KEY, JSON.stringify(invites));
+};
+
+/**
+ * Codes are matched without case or separators
+ */
+export const normalizeInviteCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const generateCode = (): string => {
+  return Array.from(
+    Crypto.getRandomBytes(CODE_LENGTH),
+    byte => CODE_ALPHABET[byte % CODE_ALPHABET.length],
+  ).join('');
+};
+
+/**
+ * Issues a new invite for a trainer
+ */
+export const createInvite = async (trainerId: string): Promise<Invite> => {
+  const invites = await loadInvites();
+
+  let code = generateCode();
+  while (invites[code]) {
+    code = generateCode();
+  }
+
+  const now = Date.now();
+  const invite: Invite = {
+    code,
+    trainerId,
+    createdAt: now,
+    expiresAt: now + INVITE_TTL_MS,
+    status: InviteStatus.PENDING,
+  };
+
+  invites[code] = invite;
+  await saveInvites(invites);
+
+  return invite;
+};
+
+/**
+ * Lists the invites of a trainer that can still be redeemed, newest first
+ */
+export const listPendingInvites = async (trainerId: string): Promise<Invite[]> => {
+  const invites = await loadInvites();
+
+  return Object.values(invites)
+    .filter(invite => invite.trainerId === trainerId
+      && invite.status === InviteStatus.PENDING
+      && invite.expiresAt > Date.now())
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Cancels a pending invite, only the trainer who issued it may do so
+ */
+export const revokeInvite = async (trainerId: string, code: string): Promise<void> => {
+  const invites = await loadInvites();
+  const invite = invites[normalizeInviteCode(code)];
+
+  if (!invite || invite.trainerId !== trainerId) throw new AuthError('INVITE_INVALID');
+  if (invite.status === InviteStatus.REDEEMED) throw new AuthError('INVITE_ALREADY_USED');
+
+  invite.status = InviteStatus.REVOKED;
+  await saveInvites(invites);
+};
+
+/**
+ * Returns an invite that can be redeemed, or throws the reason it cannot
+ */
+export const getRedeemableInvite = async (code: string): Promise<Invite> => {
+  const invites = await loadInvites();
+  const invite = invites[normalizeInviteCode(code)];
+
+  if (!invite) throw new AuthError('INVITE_INVALID');
+  if (invite.status === InviteStatus.REDEEMED) throw new AuthError('INVITE_ALREADY_USED');
+  if (invite.status === InviteStatus.REVOKED) throw new AuthError('INVITE_REVOKED');
+  if (invite.expiresAt <= Date.now()) throw new AuthError('INVITE_EXPIRED');
+
+  return invite;
+};
+
+/**
+ * Marks an invite as used by the student who registered with it
+ */
+export const markInviteRedeemed = async (code: string, studentId: string): Promise<void> => {
+  const invites = await loadInvites();
+  const invite = invites[normalizeInviteCode(code)];
+  if (!invite) return;
+
+  invite.status = InviteStatus.REDEEMED;
+  invite.redeemedBy = studentId;
+  await saveInvites(invites);
+};
@@ -0,0 +1,14 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLoginThrottle } from './login-throttle';
+
+// Storage key for the failed logins counted by the mock backend, apart from the device counters
+const LOGIN_ATTEMPTS_KEY = '@PhysiPro:mock:loginAttempts';
+
+/**
+ * Failed login limits enforced by the mock backend, as a real server does,
+ * whatever the app does with its own counters
+ */
+export const { assertLoginAllowed, recordFailedLogin, resetFailedLogins } = createLoginThrottle(
+  LOGIN_ATTEMPTS_KEY,
+  AsyncStorage,
+);
@@ -0,0 +1,18 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PasswordPolicy } from '../types';
+import { DEFAULT_PASSWORD_POLICY } from '../utils/password-policy';
+
+// Storage key for the password policy configured on the mock backend
+const PASSWORD_POLICY_KEY = '@PhysiPro:mock:passwordPolicy';
+
+/**
+ * Get the configured password policy, or the default one if no admin changed it yet
+ */
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  const storedPolicy = await AsyncStorage.getItem(PASSWORD_POLICY_KEY);
+  return storedPolicy ? { ...DEFAULT_PASSWORD_POLICY, ...JSON.parse(storedPolicy) } : DEFAULT_PASSWORD_POLICY;
+};
+
+export const savePasswordPolicy = async (policy: PasswordPolicy): Promise<void> => {
+  await AsyncStorage.setItem(PASSWORD_POLICY_KEY, JSON.stringify(policy));
+};
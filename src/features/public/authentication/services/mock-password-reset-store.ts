@@ -0,0 +1,191 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AuthError } from '../utils/auth-errors';
+
+// Storage key for the password reset requests issued by the mock backend
+const RESET_REQUESTS_KEY = '@PhysiPro:mock:passwordResets';
+// Usage of the reset flow per account, kept apart so it outlives the codes
+const RESET_LIMITS_KEY = '@PhysiPro:mock:passwordResetLimits';
+
+const CODE_LENGTH = 6;
+export const CODE_TTL_MS = 10 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 10 * 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+
+// Caps on an account within a window, so requesting new codes doesn't bring new guesses forever
+const LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_CODES_PER_WINDOW = 3;
+const MAX_FAILED_ATTEMPTS_PER_WINDOW = 10;
+
+// Largest multiple of 10 a random byte can reach, higher bytes would favour the lower digits
+const MAX_UNBIASED_BYTE = 250;
+
+interface ResetRequest {
+  userId: string;
+  codeHash: string;
+  codeExpiresAt: number;
+  attempts: number;
+  // Issued once the code is verified, consumed when the password is changed
+  resetToken?: string;
+  resetTokenExpiresAt?: number;
+}
+
+type ResetRequests = Record<string, ResetRequest>;
+
+interface ResetLimit {
+  windowStartedAt: number;
+  codesIssued: number;
+  failedAttempts: number;
+}
+
+type ResetLimits = Record<string, ResetLimit>;
+
+const hashCode = (code: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, code);
+};
+
+const loadRequests = async (): Promise<ResetRequests> => {
+  const storedRequests = await AsyncStorage.getItem(RESET_REQUESTS_KEY);
+  return storedRequests ? JSON.parse(storedRequests) : {};
+};
+
+const saveRequests = async (requests: ResetRequests): Promise<void> => {
+  await AsyncStorage.setItem(RESET_REQUESTS_KEY, JSON.stringify(requests));
+};
+
+/**
+ * Get the usage of the reset flow by a user in the current window, starting a new window when the last one ended
+ */
+const getResetLimit = async (userId: string): Promise<{ limits: ResetLimits; limit: ResetLimit }> => {
+  const storedLimits = await AsyncStorage.getItem(RESET_LIMITS_KEY);
+  const limits: ResetLimits = storedLimits ? JSON.parse(storedLimits) : {};
+  const current = limits[userId];
+
+  if (!current || Date.now() - current.windowStartedAt >= LIMIT_WINDOW_MS) {
+    limits[userId] = { windowStartedAt: Date.now(), codesIssued: 0, failedAttempts: 0 };
+  }
+
+  return { limits, limit: limits[userId] };
+};
+
+const saveResetLimits = async (limits: ResetLimits): Promise<void> => {
+  await AsyncStorage.setItem(RESET_LIMITS_KEY, JSON.stringify(limits));
+};
+
+/**
+ * Generates a numeric verification code using a secure random source
+ * Bytes that would make some digits more likely than others are drawn again
+ */
+const generateCode = (): string => {
+  let code = '';
+
+  while (code.length < CODE_LENGTH) {
+    for (const byte of Crypto.getRandomBytes(CODE_LENGTH)) {
+      if (byte < MAX_UNBIASED_BYTE && code.length < CODE_LENGTH) {
+        code += String(byte % 10);
+      }
+    }
+  }
+
+  return code;
+};
+
+/**
+ * Creates a new verification code for a user, replacing any previous one
+ * Returns the plain code so the mock can "deliver" it, or null when the user already got
+ * as many codes as allowed in the current window
+ */
+export const createResetCode = async (userId: string): Promise<{ code: string; expiresAt: number } | null> => {
+  const { limits, limit } = await getResetLimit(userId);
+  if (limit.codesIssued >= MAX_CODES_PER_WINDOW) return null;
+
+  limit.codesIssued += 1;
+  await saveResetLimits(limits);
+
+  const requests = await loadRequests();
+  const code = generateCode();
+  const expiresAt = Date.now() + CODE_TTL_MS;
+
+  requests[userId] = {
+    userId,
+    codeHash: await hashCode(code),
+    codeExpiresAt: expiresAt,
+    attempts: 0,
+  };
+  await saveRequests(requests);
+
+  return { code, expiresAt };
+};
+
+/**
+ * Checks a verification code and, when it matches, exchanges it for a single-use reset token
+ * Each wrong attempt is counted, both for the code and for the account in the current window,
+ * and the code is discarded once either limit is reached
+ */
+export const verifyResetCode = async (userId: string, code: string): Promise<string> => {
+  const requests = await loadRequests();
+  const request = requests[userId];
+
+  if (!request || request.resetToken) {
+    throw new AuthError('RESET_CODE_INVALID');
+  }
+  if (Date.now() > request.codeExpiresAt) {
+    delete requests[userId];
+    await saveRequests(requests);
+    throw new AuthError('RESET_CODE_EXPIRED');
+  }
+
+  if (request.codeHash !== await hashCode(code)) {
+    const { limits, limit } = await getResetLimit(userId);
+    limit.failedAttempts += 1;
+    request.attempts += 1;
+    await saveResetLimits(limits);
+
+    if (request.attempts >= MAX_CODE_ATTEMPTS || limit.failedAttempts >= MAX_FAILED_ATTEMPTS_PER_WINDOW) {
+      delete requests[userId];
+      await saveRequests(requests);
+      throw new AuthError('RESET_CODE_ATTEMPTS_EXCEEDED');
+    }
+
+    await saveRequests(requests);
+    // Same answer as for a CPF without a code, so it does not tell which CPFs have an account
+    throw new AuthError('RESET_CODE_INVALID');
+  }
+
+  // The code is single-use: from now on only the reset token is accepted
+  request.resetToken = Crypto.randomUUID();
+  request.resetTokenExpiresAt = Date.now() + RESET_TOKEN_TTL_MS;
+  await saveRequests(requests);
+
+  return request.resetToken;
+};
+
+const findValidResetRequest = (requests: ResetRequests, resetToken: string): ResetRequest => {
+  const request = Object.values(requests).find(item => item.resetToken === resetToken);
+
+  if (!request || !request.resetTokenExpiresAt || Date.now() > request.resetTokenExpiresAt) {
+    throw new AuthError('RESET_SESSION_EXPIRED');
+  }
+
+  return request;
+};
+
+/**
+ * Returns the id of the user a reset token was issued for, without consuming it
+ */
+export const getResetTokenUserId = async (resetToken: string): Promise<string> => {
+  return findValidResetRequest(await loadRequests(), resetToken).userId;
+};
+
+/**
+ * Consumes a reset token, returning the id of the user it was issued for
+ */
+export const consumeResetToken = async (resetToken: string): Promise<string> => {
+  const requests = await loadRequests();
+  const request = findValidResetRequest(requests, resetToken);
+
+  delete requests[request.userId];
+  await saveRequests(requests);
+
+  return request.userId;
+};
@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { DeviceInfo, DeviceSession } from '../types';
+import { AuthError } from '../utils/auth-errors';
+
+// Storage key for the device sessions opened on the mock backend
+const SESSIONS_KEY = '@PhysiPro:mock:sessions';
+
+interface StoredSession extends DeviceInfo {
+  id: string;
+  userId: string;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+type StoredSessions = Record<string, StoredSession>;
+
+const loadSessions = async (): Promise<StoredSessions> => {
+  const storedSessions = await AsyncStorage.getItem(SESSIONS_KEY);
+  return storedSessions ? JSON.parse(storedSessions) : {};
+};
+
+const saveSessions = async (sessions: StoredSessions): Promise<void> => {
+  await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+/**
+ * Registers a new session for a user, returning its id
+ */
+export const createSession = async (userId: string, device: DeviceInfo): Promise<string> => {
+  const sessions = await loadSessions();
+  const now = Date.now();
+  const id = Crypto.randomUUID();
+
+  sessions[id] = {
+    id,
+    userId,
+    deviceName: device.deviceName,
+    platform: device.platform,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  await saveSessions(sessions);
+
+  return id;
+};
+
+/**
+ * Records activity on a session
+ * Throws SESSION_REVOKED when the session was ended from another device
+ */
+export const touchSession = async (userId: string, sessionId: string): Promise<void> => {
+  const sessions = await loadSessions();
+  const session = sessions[sessionId];
+
+  if (!session || session.userId !== userId) {
+    throw new AuthError('SESSION_REVOKED');
+  }
+
+  session.lastSeenAt = Date.now();
+  await saveSessions(sessions);
+};
+
+/**
+ * Lists the sessions of a user, most recently used first
+ */
+export const listSessions = async (userId: string, currentSessionId: string): Promise<DeviceSession[]> => {
+  const sessions = await loadSessions();
+
+  return Object.values(sessions)
+    .filter(session => session.userId === userId)
+    .map(session => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      platform: session.platform,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      isCurrent: session.id === currentSessionId,
+    }))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+};
+
+/**
+ * Ends a session of a user, ignoring sessions that belong to someone else
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+  const sessions = await loadSessions();
+  if (sessions[sessionId]?.userId !== userId) return;
+
+  delete sessions[sessionId];
+  await saveSessions(sessions);
+};
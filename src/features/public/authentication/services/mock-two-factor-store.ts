@@ -0,0 +1,225 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { TwoFactorChallenge } from '../types';
+import { AuthError } from '../utils/auth-errors';
+import { findTotpStep, generateTotpSecret } from '../utils/totp';
+
+// Storage keys for the two-factor data kept by the mock backend
+const ENROLLMENTS_KEY = '@PhysiPro:mock:twoFactor';
+const CHALLENGES_KEY = '@PhysiPro:mock:twoFactorChallenges';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+
+// Cap on wrong codes for an account within a window, as new challenges would otherwise bring new guesses forever
+const FAILED_CODES_WINDOW_MS = 60 * 60 * 1000;
+const MAX_FAILED_CODES_PER_WINDOW = 10;
+
+interface Enrollment {
+  secret: string;
+  // Stays false until the user confirms a first code from the authenticator app
+  enabled: boolean;
+  backupCodeHashes: string[];
+  // Time step of the last accepted TOTP code, codes from that step or older are rejected as replays
+  lastUsedStep?: number;
+  failedCodes?: number;
+  failedCodesWindowStartedAt?: number;
+}
+
+interface Challenge {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const loadRecord = async <T>(key: string): Promise<Record<string, T>> => {
+  const storedValue = await AsyncStorage.getItem(key);
+  return storedValue ? JSON.parse(storedValue) : {};
+};
+
+const saveRecord = async <T>(key: string, value: Record<string, T>): Promise<void> => {
+  await AsyncStorage.setItem(key, JSON.stringify(value));
+};
+
+/**
+ * Backup codes are compared without case or separators, e.g. "A1B2-C3D4" matches "a1b2c3d4"
+ */
+const normalizeBackupCode = (code: string): string => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashBackupCode = (code: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, normalizeBackupCode(code));
+};
+
+const generateBackupCode = (): string => {
+  const hex = Array.from(Crypto.getRandomBytes(4), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+};
+
+const isFailedCodesWindowOver = (enrollment: Enrollment): boolean => {
+  return !enrollment.failedCodesWindowStartedAt
+    || Date.now() - enrollment.failedCodesWindowStartedAt >= FAILED_CODES_WINDOW_MS;
+};
+
+const recordFailedCode = (enrollment: Enrollment): void => {
+  if (isFailedCodesWindowOver(enrollment)) {
+    enrollment.failedCodes = 0;
+    enrollment.failedCodesWindowStartedAt = Date.now();
+  }
+
+  enrollment.failedCodes = (enrollment.failedCodes ?? 0) + 1;
+};
+
+/**
+ * Accepts a TOTP code only once: its time step must be newer than the last accepted one
+ */
+const verifyTotpCode = (enrollment: Enrollment, code: string): boolean => {
+  const step = findTotpStep(enrollment.secret, code.replace(/\s/g, ''));
+  if (step === null || step <= (enrollment.lastUsedStep ?? -1)) return false;
+
+  enrollment.lastUsedStep = step;
+  return true;
+};
+
+/**
+ * Checks a TOTP code or, when allowed, a backup code, updating the enrollment which must be saved afterwards
+ * A matching backup code is removed so it cannot be used again, and wrong codes count towards the account limit
+ */
+const verifyCode = async (enrollment: Enrollment, code: string, allowBackupCode: boolean = true): Promise<boolean> => {
+  if (!isFailedCodesWindowOver(enrollment) && (enrollment.failedCodes ?? 0) >= MAX_FAILED_CODES_PER_WINDOW) {
+    throw new AuthError('TWO_FACTOR_ATTEMPTS_EXCEEDED');
+  }
+
+  if (verifyTotpCode(enrollment, code)) return true;
+
+  if (allowBackupCode) {
+    const codeHash = await hashBackupCode(code);
+    const backupCodeIndex = enrollment.backupCodeHashes.indexOf(codeHash);
+
+    if (backupCodeIndex !== -1) {
+      enrollment.backupCodeHashes.splice(backupCodeIndex, 1);
+      return true;
+    }
+  }
+
+  recordFailedCode(enrollment);
+  return false;
+};
+
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+  const enrollments = await loadRecord<Enrollment>(ENROLLMENTS_KEY);
+  return !!enrollments[userId]?.enabled;
+};
+
+/**
+ * Creates a new secret for the user, replacing any enrollment that was not confirmed
+ */
+export const startEnrollment = async (userId: string): Promise<string> => {
+  const enrollments = await loadRecord<Enrollment>(ENROLLMENTS_KEY);
+  const secret = generateTotpSecret();
+
+  enrollments[userId] = { secret, enabled: false, backupCodeHashes: [] };
+  await saveRecord(ENROLLMENTS_KEY, enrollments);
+
+  return secret;
+};
+
+/**
+ * Enables two-factor authentication once the user proves the authenticator app works
+ * Returns the plain backup codes, which are only shown this once
+ */
+export const confirmEnrollment = async (userId: string, code: string): Promise<string[]> => {
+  const enrollments = await loadRecord<Enrollment>(ENROLLMENTS_KEY);
+  const enrollment = enrollments[userId];
+
+  if (!enrollment || enrollment.enabled) throw new AuthError('TWO_FACTOR_NOT_ENROLLING');
+  if (!(await verifyCode(enrollment, code, false))) {
+    await saveRecord(ENROLLMENTS_KEY, enrollments);
+    throw new AuthError('TWO_FACTOR_CODE_INVALID');
+  }
+
+  const backupCodes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+  enrollment.enabled = true;
+  enrollment.backupCodeHashes = await Promise.all(backupCodes.map(hashBackupCode));
+  await saveRecord(ENROLLMENTS_KEY, enrollments);
+
+  return backupCodes;
+};
+
+/**
+ * Turns two-factor authentication off, which requires a valid code
+ */
+export const disable = async (userId: string, code: string): Promise<void> => {
+  const enrollments = await loadRecord<Enrollment>(ENROLLMENTS_KEY);
+  const enrollment = enrollments[userId];
+
+  if (!enrollment?.enabled) throw new AuthError('TWO_FACTOR_CODE_INVALID');
+  if (!(await verifyCode(enrollment, code))) {
+    await saveRecord(ENROLLMENTS_KEY, enrollments);
+    throw new AuthError('TWO_FACTOR_CODE_INVALID');
+  }
+
+  delete enrollments[userId];
+  await saveRecord(ENROLLMENTS_KEY, enrollments);
+};
+
+/**
+ * Starts the second login step for a user whose password was accepted
+ */
+export const createChallenge = async (userId: string): Promise<TwoFactorChallenge> => {
+  const challenges = await loadRecord<Challenge>(CHALLENGES_KEY);
+  const challengeToken = Crypto.randomUUID();
+  const expiresAt = Date.now() + CHALLENGE_TTL_MS;
+
+  // Drop challenges nobody completed
+  for (const [token, challenge] of Object.entries(challenges)) {
+    if (challenge.expiresAt <= Date.now()) delete challenges[token];
+  }
+
+  challenges[challengeToken] = { userId, expiresAt, attempts: 0 };
+  await saveRecord(CHALLENGES_KEY, challenges);
+
+  return { challengeToken, expiresAt };
+};
+
+/**
+ * Checks the code for a login challenge, returning the id of the user on success
+ * The challenge is single-use and discarded after too many wrong codes
+ */
+export const verifyChallenge = async (challengeToken: string, code: string): Promise<string> => {
+  const [challenges, enrollments] = await Promise.all([
+    loadRecord<Challenge>(CHALLENGES_KEY),
+    loadRecord<Enrollment>(ENROLLMENTS_KEY),
+  ]);
+  const challenge = challenges[challengeToken];
+
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    delete challenges[challengeToken];
+    await saveRecord(CHALLENGES_KEY, challenges);
+    throw new AuthError('TWO_FACTOR_CHALLENGE_EXPIRED');
+  }
+
+  const enrollment = enrollments[challenge.userId];
+  if (!enrollment?.enabled || !(await verifyCode(enrollment, code))) {
+    challenge.attempts += 1;
+    if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      delete challenges[challengeToken];
+    }
+
+    await Promise.all([
+      saveRecord(CHALLENGES_KEY, challenges),
+      // The wrong code counts towards the account limit
+      saveRecord(ENROLLMENTS_KEY, enrollments),
+    ]);
+    throw new AuthError(challenges[challengeToken] ? 'TWO_FACTOR_CODE_INVALID' : 'TWO_FACTOR_CHALLENGE_EXPIRED');
+  }
+
+  delete challenges[challengeToken];
+  await Promise.all([
+    saveRecord(CHALLENGES_KEY, challenges),
+    // The accepted time step is recorded and a backup code may have been consumed
+    saveRecord(ENROLLMENTS_KEY, enrollments),
+  ]);
+
+  return challenge.userId;
+};
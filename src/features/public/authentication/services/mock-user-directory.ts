@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AccountStatus, User, UserType } from '../types';
+
+// Storage key for the accounts known by the mock backend
+// Users are persisted so registrations, approvals and password changes survive restarts
+const DIRECTORY_KEY = '@PhysiPro:mock:users';
+
+export interface MockAccount {
+  user: User;
+  passwordHash: string;
+  // SEED_VERSION the account was last seeded with, unset for accounts created through registration
+  seedVersion?: number;
+}
+
+interface SeedAccount {
+  user: User;
+  password: string;
+}
+
+// Bump whenever a seed account changes, so directories saved by older versions pick up the change
+const SEED_VERSION = 2;
+
+// Accounts available on a fresh install, covering every role and status.
+// Passwords are only kept here in plain text so the team can sign in; they are hashed when seeded.
+const SEED_ACCOUNTS: SeedAccount[] = [
+  {
+    user: {
+      id: 'admin-1',
+      name: 'Administrador',
+      userType: UserType.ADMIN,
+      cpf: '111.444.777-35',
+      email: 'admin@physipro.com',
+      status: AccountStatus.ACTIVE,
+    },
+    password: 'admin123',
+  },
+  {
+    user: {
+      id: '1',
+      name: 'Treinador',
+      userType: UserType.TRAINER,
+      // Also takes classes as a student
+      roles: [UserType.TRAINER, UserType.STUDENT],
+      cpf: '123.456.789-09',
+      email: 'john@example.com',
+      profileImage: 'https://via.placeholder.com/150',
+      status: AccountStatus.ACTIVE,
+    },
+    password: 'password123',
+  },
+  {
+    user: {
+      id: 'trainer-2',
+      name: 'Treinadora Inativa',
+      userType: UserType.TRAINER,
+      cpf: '529.982.247-25',
+      email: 'trainer.inactive@physipro.com',
+      status: AccountStatus.INACTIVE,
+    },
+    password: 'trainer123',
+  },
+  {
+    user: {
+      id: 'student-1',
+      name: 'Aluno',
+      userType: UserType.STUDENT,
+      cpf: '390.533.447-05',
+      email: 'student@physipro.com',
+      status: AccountStatus.ACTIVE,
+    },
+    password: 'student123',
+  },
+  {
+    user: {
+      id: 'student-2',
+      name: 'Aluna',
+      userType: UserType.STUDENT,
+      cpf: '714.602.380-01',
+      email: 'student2@physipro.com',
+      status: AccountStatus.ACTIVE,
+    },
+    password: 'student123',
+  },
+  {
+    user: {
+      id: 'student-3',
+      name: 'Aluno Inativo',
+      userType: UserType.STUDENT,
+      cpf: '853.513.468-93',
+      email: 'student.inactive@physipro.com',
+      status: AccountStatus.INACTIVE,
+    },
+    password: 'student123',
+  },
+  {
+    user: {
+      id: 'receptionist-1',
+      name: 'Recepcionista',
+      userType: UserType.RECEPTIONIST,
+      cpf: '987.654.321-00',
+      email: 'reception@physipro.com',
+      status: AccountStatus.ACTIVE,
+    },
+    password: 'reception123',
+  },
+  {
+    user: {
+      id: 'guardian-1',
+      name: 'Responsável',
+      userType: UserType.GUARDIAN,
+      cpf: '246.813.579-28',
+      email: 'guardian@physipro.com',
+      status: AccountStatus.ACTIVE,
+      dependentIds: ['student-1', 'student-2'],
+    },
+    password: 'guardian123',
+  },
+];
+
+// In-memory copy of the directory, so every lookup doesn't hit AsyncStorage
+let cachedAccounts: MockAccount[] | null = null;
+
+const normalizeCpf = (cpf: string): string => cpf.replace(/\D/g, '');
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Hash a password the way the mock backend stores it, salted with the CPF
+ */
+const hashPassword = (cpf: string, password: string): Promise<string> => {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${normalizeCpf(cpf)}:${password}`,
+  );
+};
+
+const saveAccounts = async (accounts: MockAccount[]): Promise<void> => {
+  cachedAccounts = accounts;
+  await AsyncStorage.setItem(DIRECTORY_KEY, JSON.stringify(accounts));
+};
+
+/**
+ * Bring an account up to date with its seed, keeping what changed since (2FA, a new password...)
+ * The password is only reset when the CPF it is salted with changed
+ */
+const applySeed = async ({ user, password }: SeedAccount, account?: MockAccount): Promise<MockAccount> => {
+  const isSameCpf = account !== undefined && normalizeCpf(account.user.cpf) === normalizeCpf(user.cpf);
+
+  return {
+    user: { ...account?.user, ...user },
+    passwordHash: isSameCpf ? account.passwordHash : await hashPassword(user.cpf, password),
+    seedVersion: SEED_VERSION,
+  };
+};
+
+/**
+ * Load every account, adding the seed accounts that are missing and updating the outdated ones
+ */
+const loadAccounts = async (): Promise<MockAccount[]> => {
+  if (cachedAccounts) return cachedAccounts;
+
+  const storedAccounts = await AsyncStorage.getItem(DIRECTORY_KEY);
+  const accounts: MockAccount[] = storedAccounts ? JSON.parse(storedAccounts) : [];
+  const staleSeeds = SEED_ACCOUNTS.filter(seed => {
+    const account = accounts.find(item => item.user.id === seed.user.id);
+    return !account || (account.seedVersion ?? 0) < SEED_VERSION;
+  });
+
+  if (staleSeeds.length === 0) {
+    cachedAccounts = accounts;
+    return accounts;
+  }
+
+  const mergedAccounts = [...accounts];
+  for (const seed of staleSeeds) {
+    const index = mergedAccounts.findIndex(account => account.user.id === seed.user.id);
+    if (index === -1) {
+      mergedAccounts.push(await applySeed(seed));
+    } else {
+      mergedAccounts[index] = await applySeed(seed, mergedAccounts[index]);
+    }
+  }
+  await saveAccounts(mergedAccounts);
+
+  return mergedAccounts;
+};
+
+/**
+ * Find an account by CPF, ignoring formatting
+ */
+export const findAccountByCpf = async (cpf: string): Promise<MockAccount | null> => {
+  const accounts = await loadAccounts();
+  return accounts.find(account => normalizeCpf(account.user.cpf) === normalizeCpf(cpf)) ?? null;
+};
+
+/**
+ * Find an account by e-mail, ignoring case
+ */
+export const findAccountByEmail = async (email: string): Promise<MockAccount | null> => {
+  const accounts = await loadAccounts();
+  return accounts.find(account => normalizeEmail(account.user.email) === normalizeEmail(email)) ?? null;
+};
+
+/**
+ * Find an account by user id
+ */
+export const findAccountById = async (userId: string): Promise<MockAccount | null> => {
+  const accounts = await loadAccounts();
+  return accounts.find(account => account.user.id === userId) ?? null;
+};
+
+/**
+ * Check a password against the stored hash
+ */
+export const isPasswordCorrect = async (account: MockAccount, password: string): Promise<boolean> => {
+  return account.passwordHash === await hashPassword(account.user.cpf, password);
+};
+
+/**
+ * List the users in the directory, optionally filtered
+ */
+export const listUsers = async (predicate: (user: User) => boolean = () => true): Promise<User[]> => {
+  const accounts = await loadAccounts();
+  return accounts.map(account => account.user).filter(predicate);
+};
+
+/**
+ * Add a new account to the directory
+ */
+export const createAccount = async (user: Omit<User, 'id'>, password: string): Promise<User> => {
+  const accounts = await loadAccounts();
+  const newUser: User = { ...user, id: Crypto.randomUUID() };
+
+  accounts.push({ user: newUser, passwordHash: await hashPassword(newUser.cpf, password) });
+  await saveAccounts(accounts);
+
+  return newUser;
+};
+
+/**
+ * Apply changes to an existing user, returning the updated user or null if it does not exist
+ */
+export const updateUser = async (userId: string, changes: Partial<Omit<User, 'id'>>): Promise<User | null> => {
+  const accounts = await loadAccounts();
+  const account = accounts.find(item => item.user.id === userId);
+  if (!account) return null;
+
+  account.user = { ...account.user, ...changes };
+  await saveAccounts(accounts);
+
+  return account.user;
+};
+
+/**
+ * Replace the password of an existing user, returning false if the user does not exist
+ */
+export const updatePassword = async (userId: string, password: string): Promise<boolean> => {
+  const accounts = await loadAccounts();
+  const account = accounts.find(item => item.user.id === userId);
+  if (!account) return false;
+
+  account.passwordHash = await hashPassword(account.user.cpf, password);
+  await saveAccounts(accounts);
+
+  return true;
+};
@@ -4,13 +4,119 @@ export interface User {
   cpf: string;
   email: string;
   profileImage?: string;
+  // Active role, the one the app is currently routed and authorized by
   userType: UserType;
+  // Every role the account holds, when it has more than one
+  roles?: UserType[];
+  status?: AccountStatus;
+  twoFactorEnabled?: boolean;
+  permissionOverrides?: PermissionOverrides;
+  // Trainer a student is linked to, set when the student joined through an invite
+  trainerId?: string;
+  // Students (usually minors) whose accounts a guardian manages
+  dependentIds?: string[];
+}
+
+/**
+ * Named permissions checked by the UI, in the form `<resource>:<action>`
+ */
+export type Permission =
+  | 'students:read'
+  | 'students:write'
+  | 'records:read'
+  | 'records:write'
+  | 'appointments:read'
+  | 'appointments:write'
+  | 'workouts:read'
+  | 'profile:write'
+  | 'users:manage'
+  | 'users:approve'
+  | 'reports:read'
+  | 'settings:manage';
+
+// Per-user changes to the permissions granted by the role, revocations win over grants
+export interface PermissionOverrides {
+  granted?: Permission[];
+  revoked?: Permission[];
 }
 
 export enum UserType {
   TRAINER = 'trainer',
   STUDENT = 'student',
   ADMIN = 'admin',
+  RECEPTIONIST = 'receptionist',
+  GUARDIAN = 'guardian',
+}
+
+export enum AccountStatus {
+  ACTIVE = 'active',
+  PENDING = 'pending',
+  INACTIVE = 'inactive',
+}
+
+// Roles a user can pick when signing up without an admin
+export type SelfServiceUserType = UserType.STUDENT | UserType.TRAINER;
+
+export interface RegistrationData {
+  name: string;
+  cpf: string;
+  email: string;
+  password: string;
+  userType: SelfServiceUserType;
+  // Registering with an invite creates a student linked to the trainer who sent it
+  inviteCode?: string;
+}
+
+export enum InviteStatus {
+  PENDING = 'pending',
+  REDEEMED = 'redeemed',
+  REVOKED = 'revoked',
+}
+
+// Single-use code a trainer sends to a new student
+export interface Invite {
+  code: string;
+  trainerId: string;
+  createdAt: number;
+  expiresAt: number;
+  status: InviteStatus;
+  redeemedBy?: string;
+}
+
+// What a signed-out student can see about an invite before registering
+export interface InvitePreview {
+  code: string;
+  trainerName: string;
+  expiresAt: number;
+}
+
+// Students are signed in right away, trainers wait for an admin to approve them
+export type RegistrationResult =
+  | { status: AccountStatus.ACTIVE; session: LoginResponse }
+  | { status: AccountStatus.PENDING; user: User };
+
+// Same for every CPF, so requesting a code does not reveal whether the CPF has an account
+export interface PasswordResetRequest {
+  expiresAt: number;
+}
+
+export type PasswordCharacterClass = 'letter' | 'lowercase' | 'uppercase' | 'digit' | 'symbol';
+
+// Rules a new password must follow, configured by admins
+export interface PasswordPolicy {
+  minLength: number;
+  requiredCharacterClasses: PasswordCharacterClass[];
+  // Rejects passwords from the common passwords list
+  blockCommonPasswords: boolean;
+  // Rejects passwords containing the CPF or a part of the user's name
+  blockPersonalInfo: boolean;
+}
+
+export interface LoginThrottleStatus {
+  failedAttempts: number;
+  // Time left before another attempt is accepted, 0 when login is allowed
+  retryAfterMs: number;
+  isLocked: boolean;
 }
 
 export interface LoginCredentials {
@@ -18,21 +124,137 @@ export interface LoginCredentials {
   password: string;
 }
 
-export interface LoginResponse {
-  user: User;
+export interface AuthTokens {
   token: string;
+  refreshToken: string;
+  // Access token expiry as a Unix timestamp in milliseconds
+  expiresAt: number;
+}
+
+export interface LoginResponse extends AuthTokens {
+  user: User;
+}
+
+// Identifies the device a session is opened from
+export interface DeviceInfo {
+  deviceName: string;
+  platform: string;
+}
+
+// A signed-in device, as listed on the connected devices screen
+export interface DeviceSession extends DeviceInfo {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  // True for the session of the device making the request
+  isCurrent: boolean;
+}
+
+// Second login step for accounts with two-factor authentication enabled
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  expiresAt: number;
+}
+
+export type LoginResult =
+  | { status: 'authenticated'; session: LoginResponse }
+  | { status: 'two_factor_required'; challenge: TwoFactorChallenge };
+
+// Session found on the device at startup
+export type RestoredSession =
+  | {
+    status: 'authenticated';
+    session: LoginResponse;
+    impersonatedUser: User | null;
+    // Refreshing already confirmed the session is still open on the backend
+    wasRefreshed: boolean;
+    // The access token expired and renewing it failed for now (e.g. offline), it still has to be renewed
+    isStale: boolean;
+  }
+  // The access token expired while the app was closed and the backend ended the session
+  | { status: 'expired'; error: unknown }
+  | { status: 'signed_out' };
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  // otpauth:// URI to be shown as a QR code or opened in an authenticator app
+  otpauthUri: string;
+}
+
+// Actions recorded in the audit log
+export type AuditAction = 'impersonation_started' | 'impersonation_stopped';
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  // User who performed the action
+  actorId: string;
+  targetUserId: string;
+  createdAt: number;
 }
 
 export interface AuthState {
+  // While an admin views the app as another user, this is the impersonated user
   user: User | null;
+  // Admin who started the impersonation, null outside of it
+  impersonator: User | null;
   token: string | null;
+  expiresAt: number | null;
   isLoading: boolean;
+  isRefreshing: boolean;
+  // The access token expired and could not be renewed yet, the session is kept and renewed later
+  isSessionStale: boolean;
   error: string | null;
   isAuthenticated: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
 }
 
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'USER_NOT_FOUND'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'SERVER_ERROR'
+  | 'SESSION_EXPIRED'
+  | 'SESSION_REVOKED'
+  | 'IMPERSONATION_READ_ONLY'
+  | 'ROLE_NOT_ASSIGNED'
+  | 'ACCOUNT_PENDING_APPROVAL'
+  | 'ACCOUNT_INACTIVE'
+  | 'TOO_MANY_ATTEMPTS'
+  | 'ACCOUNT_LOCKED'
+  | 'PIN_ATTEMPTS_EXCEEDED'
+  | 'APP_LOCK_UNAVAILABLE'
+  | 'TWO_FACTOR_CODE_INVALID'
+  | 'TWO_FACTOR_CHALLENGE_EXPIRED'
+  | 'TWO_FACTOR_NOT_ENROLLING'
+  | 'TWO_FACTOR_ATTEMPTS_EXCEEDED'
+  | 'INVITE_INVALID'
+  | 'INVITE_EXPIRED'
+  | 'INVITE_ALREADY_USED'
+  | 'INVITE_REVOKED'
+  | 'CPF_ALREADY_REGISTERED'
+  | 'EMAIL_ALREADY_REGISTERED'
+  | 'INVALID_REGISTRATION_DATA'
+  | 'FORBIDDEN'
+  | 'RESET_CODE_INVALID'
+  | 'RESET_CODE_EXPIRED'
+  | 'RESET_CODE_ATTEMPTS_EXCEEDED'
+  | 'RESET_SESSION_EXPIRED'
+  | 'WEAK_PASSWORD'
+  | 'INVALID_PASSWORD_POLICY'
+  | 'UNKNOWN';
+
 export type AuthAction =
   | { type: 'LOGIN_REQUEST' }
+  | { type: 'TWO_FACTOR_REQUIRED'; payload: TwoFactorChallenge }
+  | { type: 'TWO_FACTOR_CANCEL'; payload?: string }
+  | { type: 'USER_UPDATE'; payload: User }
+  | { type: 'IMPERSONATION_START'; payload: User }
+  | { type: 'IMPERSONATION_STOP' }
   | { type: 'LOGIN_SUCCESS'; payload: LoginResponse }
   | { type: 'LOGIN_FAILURE'; payload: string }
-  | { type: 'LOGOUT' }; 
\ No newline at end of file
+  | { type: 'TOKEN_REFRESH_REQUEST' }
+  | { type: 'TOKEN_REFRESH_SUCCESS'; payload: AuthTokens }
+  | { type: 'TOKEN_REFRESH_FAILURE'; payload: string }
+  | { type: 'LOGOUT'; payload?: string }; 
\ No newline at end of file
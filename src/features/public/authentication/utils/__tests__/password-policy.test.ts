@@ -0,0 +1,93 @@
+import { PasswordPolicy } from '../../types';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_STRENGTH_LABELS,
+  describePasswordPolicy,
+  estimatePasswordStrength,
+  getPasswordPolicyViolations,
+} from '../password-policy';
+
+const STRICT_POLICY: PasswordPolicy = {
+  minLength: 10,
+  requiredCharacterClasses: ['lowercase', 'uppercase', 'digit', 'symbol'],
+  blockCommonPasswords: true,
+  blockPersonalInfo: true,
+};
+
+const USER = { cpf: '529.982.247-25', name: 'Carlos da Silva' };
+
+describe('getPasswordPolicyViolations', () => {
+  it('accepts passwords that follow the policy', () => {
+    expect(getPasswordPolicyViolations('treino42')).toEqual([]);
+    expect(getPasswordPolicyViolations('Treino#2024x', STRICT_POLICY, USER)).toEqual([]);
+  });
+
+  it('reports a password that is too short', () => {
+    expect(getPasswordPolicyViolations('ab1')).toEqual(['A senha deve ter pelo menos 6 caracteres.']);
+  });
+
+  it('reports every missing character class', () => {
+    expect(getPasswordPolicyViolations('treinoforte', STRICT_POLICY)).toEqual([
+      'A senha deve conter uma letra maiúscula.',
+      'A senha deve conter um número.',
+      'A senha deve conter um símbolo.',
+    ]);
+  });
+
+  it('does not count spaces as symbols', () => {
+    expect(getPasswordPolicyViolations('Treino 2024', STRICT_POLICY)).toEqual(['A senha deve conter um símbolo.']);
+  });
+
+  it('reports common passwords, ignoring case', () => {
+    expect(getPasswordPolicyViolations('Senha123')).toEqual(['Esta senha é muito comum. Escolha outra.']);
+    expect(getPasswordPolicyViolations('Senha123', { ...DEFAULT_PASSWORD_POLICY, blockCommonPasswords: false }))
+      .toEqual([]);
+  });
+
+  it('reports passwords containing the CPF or a word of the name', () => {
+    const violation = 'A senha não pode conter seu CPF ou seu nome.';
+
+    expect(getPasswordPolicyViolations('x52998224725', DEFAULT_PASSWORD_POLICY, USER)).toEqual([violation]);
+    expect(getPasswordPolicyViolations('cárlos2024', DEFAULT_PASSWORD_POLICY, USER)).toEqual([violation]);
+    expect(getPasswordPolicyViolations('silva2024', { ...DEFAULT_PASSWORD_POLICY, blockPersonalInfo: false }, USER))
+      .toEqual([]);
+  });
+
+  it('ignores name particles and the personal information it was not given', () => {
+    expect(getPasswordPolicyViolations('dada2024', DEFAULT_PASSWORD_POLICY, USER)).toEqual([]);
+    expect(getPasswordPolicyViolations('carlos2024')).toEqual([]);
+  });
+});
+
+describe('describePasswordPolicy', () => {
+  it('lists the length and the required character classes', () => {
+    expect(describePasswordPolicy()).toBe('Mínimo de 6 caracteres, com uma letra e um número');
+    expect(describePasswordPolicy(STRICT_POLICY))
+      .toBe('Mínimo de 10 caracteres, com uma letra minúscula, uma letra maiúscula, um número e um símbolo');
+    expect(describePasswordPolicy({ ...STRICT_POLICY, requiredCharacterClasses: [] })).toBe('Mínimo de 10 caracteres');
+  });
+});
+
+describe('estimatePasswordStrength', () => {
+  it('scores longer passwords with more character classes higher', () => {
+    expect(estimatePasswordStrength('xq7kzm').score).toBe(1);
+    expect(estimatePasswordStrength('xq7kzmwp').score).toBe(2);
+    expect(estimatePasswordStrength('Xq7k#mwpLr9').score).toBe(3);
+    expect(estimatePasswordStrength('correct horse battery staple').score).toBe(4);
+  });
+
+  it('discounts repeated characters and sequences', () => {
+    expect(estimatePasswordStrength('abcdefghijkl').score).toBe(0);
+    expect(estimatePasswordStrength('aaaaaaaaaaaa').score).toBe(0);
+  });
+
+  it('scores empty and common passwords and personal information 0', () => {
+    expect(estimatePasswordStrength('')).toEqual({ score: 0, label: PASSWORD_STRENGTH_LABELS[0] });
+    expect(estimatePasswordStrength('flamengo1').score).toBe(0);
+    expect(estimatePasswordStrength('Carlos#2024xyz', USER).score).toBe(0);
+  });
+
+  it('labels the score', () => {
+    expect(estimatePasswordStrength('correct horse battery staple')).toEqual({ score: 4, label: 'Muito forte' });
+  });
+});
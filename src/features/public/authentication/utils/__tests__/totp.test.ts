@@ -0,0 +1,119 @@
+import {
+  TOTP_PERIOD_SECONDS,
+  base32Decode,
+  base32Encode,
+  findTotpStep,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from '../totp';
+
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+// Shared secret of the RFC 4226 and RFC 6238 test vectors, the ASCII string "12345678901234567890"
+const RFC_SECRET = base32Encode(Uint8Array.from('12345678901234567890', char => char.charCodeAt(0)));
+
+const PERIOD_MS = TOTP_PERIOD_SECONDS * 1000;
+// Start of an arbitrary time step
+const NOW = 1700000010 * 1000;
+const NOW_STEP = Math.floor(NOW / PERIOD_MS);
+
+describe('base32', () => {
+  it('encodes the RFC 4648 test vectors without padding', () => {
+    const encode = (text: string) => base32Encode(Uint8Array.from(text, char => char.charCodeAt(0)));
+
+    expect(encode('f')).toBe('MY');
+    expect(encode('foob')).toBe('MZXW6YQ');
+    expect(encode('foobar')).toBe('MZXW6YTBOI');
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('decodes ignoring case, spaces and padding', () => {
+    expect(Array.from(base32Decode('mzxw 6yq='))).toEqual(Array.from('foob', char => char.charCodeAt(0)));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character: 1');
+  });
+
+  it('generates 160-bit secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('generateHotp', () => {
+  it('matches the RFC 4226 Appendix D test vectors', () => {
+    const expectedCodes = [
+      '755224', '287082', '359152', '969429', '338314',
+      '254676', '287922', '162583', '399871', '520489',
+    ];
+
+    expectedCodes.forEach((code, counter) => {
+      expect(generateHotp(RFC_SECRET, counter)).toBe(code);
+    });
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: [number, string][] = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+
+    vectors.forEach(([seconds, code]) => {
+      expect(generateHotp(RFC_SECRET, Math.floor(seconds / TOTP_PERIOD_SECONDS), 8)).toBe(code);
+      // The app uses the 6 digit variant, the last digits of the same value
+      expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code.slice(2));
+    });
+  });
+});
+
+describe('findTotpStep', () => {
+  const codeAt = (step: number) => generateHotp(RFC_SECRET, step);
+
+  it('returns the step of the current code', () => {
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP), NOW)).toBe(NOW_STEP);
+  });
+
+  it('accepts codes from the neighbouring periods of the window', () => {
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP - 1), NOW)).toBe(NOW_STEP - 1);
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP + 1), NOW)).toBe(NOW_STEP + 1);
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP - 2), NOW, 2)).toBe(NOW_STEP - 2);
+  });
+
+  it('rejects codes outside the window', () => {
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP - 2), NOW)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP + 2), NOW)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, codeAt(NOW_STEP - 1), NOW, 0)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, codeAt(NOW_STEP - 2), NOW)).toBe(false);
+  });
+
+  it('returns the step the code was issued for, whenever it is checked again', () => {
+    const code = codeAt(NOW_STEP);
+
+    // A replayed code maps to the step already accepted, which the replay check compares against
+    expect(findTotpStep(RFC_SECRET, code, NOW + PERIOD_MS)).toBe(NOW_STEP);
+    expect(findTotpStep(RFC_SECRET, code, NOW - PERIOD_MS)).toBe(NOW_STEP);
+    expect(findTotpStep(RFC_SECRET, code, NOW + 2 * PERIOD_MS)).toBeNull();
+  });
+
+  it('rejects codes that are not 6 digits', () => {
+    const code = codeAt(NOW_STEP);
+
+    expect(findTotpStep(RFC_SECRET, code.slice(1), NOW)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, `${code}0`, NOW)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, 'abcdef', NOW)).toBeNull();
+  });
+});
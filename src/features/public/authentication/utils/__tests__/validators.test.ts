@@ -0,0 +1,126 @@
+import {
+  formatCep,
+  formatCnpj,
+  formatCref,
+  formatCrefito,
+  formatPhone,
+  isCepValid,
+  isCnpjValid,
+  isCrefValid,
+  isCrefitoValid,
+  isPhoneValid,
+} from '../validators';
+
+describe('isCnpjValid', () => {
+  it('accepts CNPJs whose check digits match, with or without the mask', () => {
+    expect(isCnpjValid('11.222.333/0001-81')).toBe(true);
+    expect(isCnpjValid('11444777000161')).toBe(true);
+  });
+
+  it('rejects a wrong first or second check digit', () => {
+    expect(isCnpjValid('11.222.333/0001-91')).toBe(false);
+    expect(isCnpjValid('11.222.333/0001-80')).toBe(false);
+  });
+
+  it('rejects the wrong length and repeated digits', () => {
+    expect(isCnpjValid('11.222.333/0001-8')).toBe(false);
+    expect(isCnpjValid('112223330001810')).toBe(false);
+    expect(isCnpjValid('00.000.000/0000-00')).toBe(false);
+    expect(isCnpjValid('11111111111111')).toBe(false);
+  });
+
+  it('formats as it is typed', () => {
+    expect(formatCnpj('11')).toBe('11');
+    expect(formatCnpj('11222')).toBe('11.222');
+    expect(formatCnpj('112223330')).toBe('11.222.333/0');
+    expect(formatCnpj('1122233300018199')).toBe('11.222.333/0001-81');
+  });
+});
+
+describe('isPhoneValid', () => {
+  it('accepts mobiles with 9 digits starting with 9', () => {
+    expect(isPhoneValid('(11) 98765-4321')).toBe(true);
+    expect(isPhoneValid('11987654321', 'mobile')).toBe(true);
+    expect(isPhoneValid('11987654321', 'landline')).toBe(false);
+  });
+
+  it('accepts landlines with 8 digits starting with 2 to 5', () => {
+    expect(isPhoneValid('(21) 3456-7890')).toBe(true);
+    expect(isPhoneValid('2156789012', 'landline')).toBe(true);
+    expect(isPhoneValid('2134567890', 'mobile')).toBe(false);
+  });
+
+  it('rejects numbers with a first digit that is neither mobile nor landline', () => {
+    expect(isPhoneValid('(11) 8765-4321')).toBe(false);
+    expect(isPhoneValid('(11) 1765-4321')).toBe(false);
+    expect(isPhoneValid('(11) 88765-4321')).toBe(false);
+  });
+
+  it('rejects area codes not in use', () => {
+    expect(isPhoneValid('(10) 98765-4321')).toBe(false);
+    expect(isPhoneValid('(20) 3456-7890')).toBe(false);
+    expect(isPhoneValid('(23) 98765-4321')).toBe(false);
+    expect(isPhoneValid('(99) 98765-4321')).toBe(true);
+  });
+
+  it('formats mobiles and landlines as they are typed', () => {
+    expect(formatPhone('')).toBe('');
+    expect(formatPhone('1')).toBe('(1');
+    expect(formatPhone('1198')).toBe('(11) 98');
+    expect(formatPhone('2134567890')).toBe('(21) 3456-7890');
+    expect(formatPhone('119876543210')).toBe('(11) 98765-4321');
+  });
+});
+
+describe('isCepValid', () => {
+  it('accepts 8 digits other than zeros', () => {
+    expect(isCepValid('01310-100')).toBe(true);
+    expect(isCepValid('0131010')).toBe(false);
+    expect(isCepValid('00000-000')).toBe(false);
+    expect(formatCep('013101000')).toBe('01310-100');
+  });
+});
+
+describe('isCrefValid', () => {
+  it('accepts 6 digits, a category and a state', () => {
+    expect(isCrefValid('012345-G/SP')).toBe(true);
+    expect(isCrefValid('012345p/rj')).toBe(true);
+  });
+
+  it('rejects unknown categories and states', () => {
+    expect(isCrefValid('012345-X/SP')).toBe(false);
+    expect(isCrefValid('012345-G/XX')).toBe(false);
+  });
+
+  it('rejects numbers that formatting would cut', () => {
+    expect(isCrefValid('0123456-G/SP')).toBe(false);
+    expect(isCrefValid('01234-G/SP')).toBe(false);
+    expect(isCrefValid('012345-GG/SP')).toBe(false);
+  });
+
+  it('formats as it is typed', () => {
+    expect(formatCref('0123')).toBe('0123');
+    expect(formatCref('012345g')).toBe('012345-G');
+    expect(formatCref('012345gsp')).toBe('012345-G/SP');
+  });
+});
+
+describe('isCrefitoValid', () => {
+  it('accepts up to 6 digits followed by the F or TO category', () => {
+    expect(isCrefitoValid('123456-F')).toBe(true);
+    expect(isCrefitoValid('1234-to')).toBe(true);
+  });
+
+  it('rejects other categories, long numbers and zeros', () => {
+    expect(isCrefitoValid('123456-T')).toBe(false);
+    expect(isCrefitoValid('1234567-F')).toBe(false);
+    expect(isCrefitoValid('000-F')).toBe(false);
+    expect(isCrefitoValid('123456')).toBe(false);
+  });
+
+  it('formats as it is typed', () => {
+    expect(formatCrefito('12345')).toBe('12345');
+    expect(formatCrefito('123456f')).toBe('123456-F');
+    expect(formatCrefito('123456TOX')).toBe('123456-TO');
+  });
+});
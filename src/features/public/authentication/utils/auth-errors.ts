@@ -0,0 +1,99 @@
+import { AuthErrorCode } from '../types';
+
+/**
+ * User-facing messages for each authentication error code.
+ * These are the messages displayed by the authentication screens.
+ */
+export const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  INVALID_CREDENTIALS: 'CPF ou senha inválidos.',
+  USER_NOT_FOUND: 'Usuário não encontrado.',
+  NETWORK_ERROR: 'Não foi possível conectar ao servidor. Verifique sua conexão e tente novamente.',
+  TIMEOUT: 'O servidor demorou muito para responder. Tente novamente.',
+  SERVER_ERROR: 'Ocorreu um erro no servidor. Tente novamente mais tarde.',
+  SESSION_EXPIRED: 'Sua sessão expirou. Faça login novamente.',
+  SESSION_REVOKED: 'Esta sessão foi encerrada em outro dispositivo. Faça login novamente.',
+  ROLE_NOT_ASSIGNED: 'Sua conta não possui este perfil de acesso.',
+  IMPERSONATION_READ_ONLY: 'Esta ação não está disponível enquanto você visualiza o app como outro usuário.',
+  ACCOUNT_PENDING_APPROVAL: 'Seu cadastro está aguardando aprovação de um administrador.',
+  ACCOUNT_INACTIVE: 'Sua conta está desativada. Entre em contato com a clínica para reativá-la.',
+  TOO_MANY_ATTEMPTS: 'CPF ou senha inválidos. Aguarde alguns instantes antes de tentar novamente.',
+  ACCOUNT_LOCKED: 'Acesso bloqueado temporariamente após várias tentativas inválidas.',
+  PIN_ATTEMPTS_EXCEEDED: 'PIN incorreto muitas vezes. Entre novamente com sua senha.',
+  APP_LOCK_UNAVAILABLE: 'Não foi possível verificar o PIN deste aparelho. Entre novamente com sua senha.',
+  TWO_FACTOR_CODE_INVALID: 'Código de autenticação inválido. Verifique o código e tente novamente.',
+  TWO_FACTOR_CHALLENGE_EXPIRED: 'A verificação em duas etapas expirou. Faça login novamente.',
+  TWO_FACTOR_NOT_ENROLLING: 'Nenhuma configuração de verificação em duas etapas em andamento. Comece novamente.',
+  TWO_FACTOR_ATTEMPTS_EXCEEDED: 'Muitos códigos inválidos. Aguarde e tente novamente mais tarde.',
+  INVITE_INVALID: 'Código de convite inválido. Verifique o código e tente novamente.',
+  INVITE_EXPIRED: 'Este convite expirou. Peça um novo convite ao seu treinador.',
+  INVITE_ALREADY_USED: 'Este convite já foi utilizado.',
+  INVITE_REVOKED: 'Este convite foi cancelado pelo treinador.',
+  CPF_ALREADY_REGISTERED: 'Já existe uma conta cadastrada com este CPF.',
+  EMAIL_ALREADY_REGISTERED: 'Já existe uma conta cadastrada com este e-mail.',
+  INVALID_REGISTRATION_DATA: 'Dados de cadastro inválidos. Revise as informações e tente novamente.',
+  FORBIDDEN: 'Você não tem permissão para realizar esta ação.',
+  RESET_CODE_INVALID: 'Código de verificação inválido.',
+  RESET_CODE_EXPIRED: 'O código de verificação expirou. Solicite um novo código.',
+  RESET_CODE_ATTEMPTS_EXCEEDED: 'Número máximo de tentativas excedido. Solicite um novo código.',
+  RESET_SESSION_EXPIRED: 'O prazo para redefinir a senha expirou. Reinicie a recuperação de senha.',
+  WEAK_PASSWORD: 'A senha não atende à política de senhas.',
+  INVALID_PASSWORD_POLICY: 'Política de senhas inválida. Revise as regras e tente novamente.',
+  UNKNOWN: 'Ocorreu um erro ao tentar fazer login. Tente novamente.',
+};
+
+/**
+ * Error thrown by the authentication layer.
+ * The message is always the Portuguese text that can be shown to the user.
+ */
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string = AUTH_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+/**
+ * Error thrown when login attempts for a CPF are being throttled
+ */
+export class LoginThrottledError extends AuthError {
+  retryAfterMs: number;
+
+  constructor(code: 'TOO_MANY_ATTEMPTS' | 'ACCOUNT_LOCKED', retryAfterMs: number) {
+    super(code);
+    this.name = 'LoginThrottledError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Checks whether a value is a known authentication error code
+ *
+ * @param code - The value received from the server
+ * @returns boolean indicating if the code is a known AuthErrorCode
+ */
+export const isAuthErrorCode = (code: unknown): code is AuthErrorCode => {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(AUTH_ERROR_MESSAGES, code);
+};
+
+/**
+ * Checks whether an error was caused by connectivity rather than by the server rejecting the request
+ *
+ * @param error - The error to inspect
+ * @returns boolean indicating if retrying later may succeed
+ */
+export const isTransientAuthError = (error: unknown): boolean => {
+  return error instanceof AuthError && (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT');
+};
+
+/**
+ * Checks whether the backend ended the session, as opposed to the session not being renewed for now
+ *
+ * @param error - The error to inspect
+ * @returns boolean indicating if the user has to log in again
+ */
+export const isSessionEndedError = (error: unknown): boolean => {
+  return error instanceof AuthError && (error.code === 'SESSION_EXPIRED' || error.code === 'SESSION_REVOKED');
+};
@@ -0,0 +1,21 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { DeviceInfo } from '../types';
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+};
+
+/**
+ * Describes the current device so the session can be recognized on the connected devices screen
+ */
+export const getDeviceInfo = (): DeviceInfo => {
+  const platform = PLATFORM_NAMES[Platform.OS] ?? Platform.OS;
+
+  return {
+    deviceName: Constants.deviceName ?? `Dispositivo ${platform}`,
+    platform,
+  };
+};
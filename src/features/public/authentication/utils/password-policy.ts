@@ -0,0 +1,157 @@
+import { PasswordCharacterClass, PasswordPolicy } from '../types';
+
+// Policy used until an admin configures one, matching the original rule
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 6,
+  requiredCharacterClasses: ['letter', 'digit'],
+  blockCommonPasswords: true,
+  blockPersonalInfo: true,
+};
+
+// Bounds for the minimum length an admin may choose
+export const MIN_PASSWORD_LENGTH = 6;
+export const MAX_PASSWORD_LENGTH = 32;
+
+export const CHARACTER_CLASS_LABELS: Record<PasswordCharacterClass, string> = {
+  letter: 'uma letra',
+  lowercase: 'uma letra minúscula',
+  uppercase: 'uma letra maiúscula',
+  digit: 'um número',
+  symbol: 'um símbolo',
+};
+
+const CHARACTER_CLASS_PATTERNS: Record<PasswordCharacterClass, RegExp> = {
+  letter: /[a-zA-Z]/,
+  lowercase: /[a-z]/,
+  uppercase: /[A-Z]/,
+  digit: /[0-9]/,
+  symbol: /[^a-zA-Z0-9\s]/,
+};
+
+// Passwords that show up first in leaked password lists, including Brazilian favorites
+const COMMON_PASSWORDS = new Set([
+  '123456', '1234567', '12345678', '123456789', '1234567890', '123123', '111111', '000000',
+  '654321', '123321', '112233', '121212', 'abc123', 'abcd1234', 'a1b2c3', 'qwerty', 'qwerty123',
+  'asdfgh', 'password', 'password1', 'passw0rd', 'senha', 'senha1', 'senha123', 'senha1234',
+  'mudar123', 'admin', 'admin123', 'iloveyou', 'teamo', 'teamo123', 'brasil', 'brasil123',
+  'flamengo', 'flamengo1', 'corinthians', 'palmeiras', 'saopaulo', 'gremio', 'vasco', 'santos',
+  'physipro', 'physipro1', 'physipro123',
+]);
+
+// Name particles too common to count as personal information
+const NAME_PARTICLES = new Set(['de', 'da', 'do', 'das', 'dos', 'e']);
+
+export const PASSWORD_STRENGTH_LABELS = ['Muito fraca', 'Fraca', 'Razoável', 'Forte', 'Muito forte'];
+
+// Who the password belongs to, when known
+export interface PasswordContext {
+  cpf?: string;
+  name?: string;
+}
+
+export interface PasswordStrength {
+  // From 0 (very weak) to 4 (very strong)
+  score: number;
+  label: string;
+}
+
+const normalize = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+const isCommonPassword = (password: string): boolean => COMMON_PASSWORDS.has(normalize(password));
+
+/**
+ * Checks whether a password contains the user's CPF or one of the words of their name
+ */
+const containsPersonalInfo = (password: string, { cpf, name }: PasswordContext): boolean => {
+  const cpfDigits = cpf?.replace(/\D/g, '') ?? '';
+  if (cpfDigits.length === 11 && password.replace(/\D/g, '').includes(cpfDigits)) return true;
+
+  const normalizedPassword = normalize(password);
+  const nameParts = normalize(name ?? '')
+    .split(/\s+/)
+    .filter(part => part.length >= 3 && !NAME_PARTICLES.has(part));
+
+  return nameParts.some(part => normalizedPassword.includes(part));
+};
+
+/**
+ * Lists the rules of a policy a password breaks, as messages ready to show the user
+ * The personal information rule only applies to what is passed in the context
+ */
+export const getPasswordPolicyViolations = (
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  context: PasswordContext = {},
+): string[] => {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`A senha deve ter pelo menos ${policy.minLength} caracteres.`);
+  }
+
+  policy.requiredCharacterClasses
+    .filter(characterClass => !CHARACTER_CLASS_PATTERNS[characterClass].test(password))
+    .forEach(characterClass => violations.push(`A senha deve conter ${CHARACTER_CLASS_LABELS[characterClass]}.`));
+
+  if (policy.blockCommonPasswords && isCommonPassword(password)) {
+    violations.push('Esta senha é muito comum. Escolha outra.');
+  }
+
+  if (policy.blockPersonalInfo && containsPersonalInfo(password, context)) {
+    violations.push('A senha não pode conter seu CPF ou seu nome.');
+  }
+
+  return violations;
+};
+
+/**
+ * Summarizes the requirements of a policy, e.g. "Mínimo de 6 caracteres, com uma letra e um número"
+ */
+export const describePasswordPolicy = (policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): string => {
+  const classLabels = policy.requiredCharacterClasses.map(characterClass => CHARACTER_CLASS_LABELS[characterClass]);
+  const description = `Mínimo de ${policy.minLength} caracteres`;
+
+  if (classLabels.length === 0) return description;
+
+  const lastLabel = classLabels.pop();
+  const classDescription = classLabels.length > 0 ? `${classLabels.join(', ')} e ${lastLabel}` : lastLabel;
+
+  return `${description}, com ${classDescription}`;
+};
+
+/**
+ * Length a password is worth once repeated characters and sequences (aaa, 123, abc) are discounted
+ */
+const getEffectiveLength = (password: string): number => {
+  let effectiveLength = 0;
+
+  for (let i = 0; i < password.length; i++) {
+    const difference = i > 0 ? password.charCodeAt(i) - password.charCodeAt(i - 1) : null;
+    const continuesPattern = difference !== null && Math.abs(difference) <= 1;
+
+    effectiveLength += continuesPattern ? 0.25 : 1;
+  }
+
+  return effectiveLength;
+};
+
+/**
+ * Estimates how hard a password is to guess, independently of the configured policy
+ * Common passwords and passwords with personal information always score 0
+ */
+export const estimatePasswordStrength = (password: string, context: PasswordContext = {}): PasswordStrength => {
+  if (password.length === 0 || isCommonPassword(password) || containsPersonalInfo(password, context)) {
+    return { score: 0, label: PASSWORD_STRENGTH_LABELS[0] };
+  }
+
+  const poolSize = (/[a-z]/.test(password) ? 26 : 0)
+    + (/[A-Z]/.test(password) ? 26 : 0)
+    + (/[0-9]/.test(password) ? 10 : 0)
+    + (CHARACTER_CLASS_PATTERNS.symbol.test(password) ? 33 : 0);
+  const entropyBits = getEffectiveLength(password) * Math.log2(Math.max(poolSize, 2));
+
+  const score = [28, 36, 60, 80].filter(threshold => entropyBits >= threshold).length;
+  return { score, label: PASSWORD_STRENGTH_LABELS[score] };
+};
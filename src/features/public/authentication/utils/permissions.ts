@@ -0,0 +1,107 @@
+import { Permission, User, UserType } from '../types';
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'students:read',
+  'students:write',
+  'records:read',
+  'records:write',
+  'appointments:read',
+  'appointments:write',
+  'workouts:read',
+  'profile:write',
+  'users:manage',
+  'users:approve',
+  'reports:read',
+  'settings:manage',
+];
+
+// Permissions every user of a role starts with
+export const ROLE_PERMISSIONS: Record<UserType, Permission[]> = {
+  [UserType.ADMIN]: ALL_PERMISSIONS,
+  [UserType.TRAINER]: [
+    'students:read',
+    'students:write',
+    'records:read',
+    'records:write',
+    'appointments:read',
+    'appointments:write',
+    'workouts:read',
+    'profile:write',
+  ],
+  [UserType.STUDENT]: [
+    'appointments:read',
+    'workouts:read',
+    'profile:write',
+  ],
+  // Front desk: books sessions but has no access to clinical records
+  [UserType.RECEPTIONIST]: [
+    'students:read',
+    'appointments:read',
+    'appointments:write',
+    'profile:write',
+  ],
+  // Acts on behalf of their dependents
+  [UserType.GUARDIAN]: [
+    'appointments:read',
+    'appointments:write',
+    'workouts:read',
+    'profile:write',
+  ],
+};
+
+// Changes to clinical data, withheld while an admin views the app as another user
+export const CLINICAL_WRITE_PERMISSIONS: Permission[] = [
+  'students:write',
+  'records:write',
+  'appointments:write',
+];
+
+/**
+ * Lists every role a user holds, including the active one
+ */
+export const getUserRoles = (user: User): UserType[] => {
+  const roles = user.roles ?? [];
+  return roles.includes(user.userType) ? roles : [user.userType, ...roles];
+};
+
+/**
+ * Checks whether a user holds a role, active or not
+ */
+export const hasRole = (user: User, role: UserType): boolean => {
+  return getUserRoles(user).includes(role);
+};
+
+/**
+ * Resolves the effective permissions of a user from the role bundle and the user overrides
+ * Only the active role counts; read-only users keep everything except the clinical write permissions
+ */
+export const getUserPermissions = (user: User | null, isReadOnly: boolean = false): Set<Permission> => {
+  if (!user) return new Set();
+
+  const permissions = new Set(ROLE_PERMISSIONS[user.userType] ?? []);
+  const { granted = [], revoked = [] } = user.permissionOverrides ?? {};
+
+  granted.forEach(permission => permissions.add(permission));
+  revoked.forEach(permission => permissions.delete(permission));
+
+  if (isReadOnly) {
+    CLINICAL_WRITE_PERMISSIONS.forEach(permission => permissions.delete(permission));
+  }
+
+  return permissions;
+};
+
+/**
+ * Checks whether a set of permissions contains every given permission
+ */
+export const isGranted = (permissions: Set<Permission>, permission: Permission | Permission[]): boolean => {
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.every(item => permissions.has(item));
+};
+
+/**
+ * Checks whether a user holds every given permission
+ */
+export const hasPermission = (user: User | null, permission: Permission | Permission[]): boolean => {
+  return isGranted(getUserPermissions(user), permission);
+};
@@ -0,0 +1,152 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha1 } from '@noble/hashes/sha1';
+import * as Crypto from 'expo-crypto';
+
+// RFC 4648 base32 alphabet, used by authenticator apps for the shared secret
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// 160-bit secrets, the size recommended by RFC 4226
+const SECRET_LENGTH = 20;
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+// Accept codes from one period before and after, to absorb clock drift
+const DEFAULT_WINDOW = 1;
+
+/**
+ * Encodes bytes as unpadded base32
+ */
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodes base32, ignoring case, spaces and padding
+ */
+export const base32Decode = (input: string): Uint8Array => {
+  const cleanInput = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleanInput) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Generates a random base32 secret for a new TOTP enrollment
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(Crypto.getRandomBytes(SECRET_LENGTH));
+};
+
+/**
+ * Computes an HOTP code (RFC 4226) for a counter value
+ */
+export const generateHotp = (secret: string, counter: number, digits: number = TOTP_DIGITS): string => {
+  const counterBytes = new Uint8Array(8);
+  let remaining = counter;
+  for (let i = 7; i >= 0; i--) {
+    counterBytes[i] = remaining & 255;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const digest = hmac(sha1, base32Decode(secret), counterBytes);
+
+  // Dynamic truncation
+  const offset = digest[digest.length - 1] & 15;
+  const binary = ((digest[offset] & 127) << 24)
+    | (digest[offset + 1] << 16)
+    | (digest[offset + 2] << 8)
+    | digest[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+};
+
+/**
+ * Computes the TOTP code (RFC 6238) valid at the given time
+ */
+export const generateTotp = (secret: string, timeMs: number = Date.now()): string => {
+  return generateHotp(secret, Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS));
+};
+
+/**
+ * Finds the time step a TOTP code belongs to, accepting neighbouring periods within the window
+ * Returns null when the code matches none of them
+ */
+export const findTotpStep = (
+  secret: string,
+  code: string,
+  timeMs: number = Date.now(),
+  window: number = DEFAULT_WINDOW,
+): number | null => {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) return null;
+
+  const counter = Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+  for (let offset = -window; offset <= window; offset++) {
+    if (generateHotp(secret, counter + offset) === code) return counter + offset;
+  }
+
+  return null;
+};
+
+/**
+ * Checks a TOTP code, accepting neighbouring periods within the window
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  timeMs: number = Date.now(),
+  window: number = DEFAULT_WINDOW,
+): boolean => {
+  return findTotpStep(secret, code, timeMs, window) !== null;
+};
+
+/**
+ * Builds the otpauth:// URI that authenticator apps read from a QR code
+ */
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string = 'PhysiPro'): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD_SECONDS}`,
+  ].join('&');
+
+  return `otpauth://totp/${label}?${params}`;
+};
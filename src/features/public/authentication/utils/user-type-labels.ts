@@ -0,0 +1,9 @@
+import { UserType } from '../types';
+
+export const USER_TYPE_LABELS: Record<UserType, string> = {
+  [UserType.ADMIN]: 'Administrador',
+  [UserType.TRAINER]: 'Treinador',
+  [UserType.STUDENT]: 'Aluno',
+  [UserType.RECEPTIONIST]: 'Recepcionista',
+  [UserType.GUARDIAN]: 'Responsável',
+};
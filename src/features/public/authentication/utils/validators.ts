@@ -1,3 +1,6 @@
+import { PasswordPolicy } from '../types';
+import { DEFAULT_PASSWORD_POLICY, PasswordContext, getPasswordPolicyViolations } from './password-policy';
+
 /**
  * Validates a CPF (Brazilian individual taxpayer registry) number
  * 
@@ -58,14 +61,19 @@ export const formatCpf = (cpf: string): string => {
 };
 
 /**
- * Validates a password
+ * Validates a password against a password policy
  * 
  * @param password - The password to validate
+ * @param policy - The policy to follow, the default policy when omitted
+ * @param context - CPF and name of the user, checked when the policy blocks personal information
  * @returns boolean indicating if the password is valid
  */
-export const isPasswordValid = (password: string): boolean => {
-  // Minimum 6 characters, at least one letter and one number
-  return password.length >= 6 && /[a-zA-Z]/.test(password) && /[0-9]/.test(password);
+export const isPasswordValid = (
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  context: PasswordContext = {},
+): boolean => {
+  return getPasswordPolicyViolations(password, policy, context).length === 0;
 };
 
 /**
@@ -77,4 +85,240 @@ export const isPasswordValid = (password: string): boolean => {
 export const isEmailValid = (email: string): boolean => {
   const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
   return emailRegex.test(email);
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Validates an app-lock PIN
+ * 
+ * @param pin - The PIN to validate
+ * @returns boolean indicating if the PIN has 4 to 6 digits
+ */
+export const isPinValid = (pin: string): boolean => {
+  return /^\d{4,6}$/.test(pin);
+};
+
+/**
+ * Validates a CNPJ (Brazilian company taxpayer registry) number
+ * 
+ * @param cnpj - The CNPJ to validate (can include formatting)
+ * @returns boolean indicating if the CNPJ is valid
+ */
+export const isCnpjValid = (cnpj: string): boolean => {
+  const cleanCnpj = cnpj.replace(/\D/g, '');
+  
+  // Must have 14 digits, and not all the same
+  if (cleanCnpj.length !== 14 || /^(\d)\1+$/.test(cleanCnpj)) return false;
+  
+  // Each check digit is weighted by 2..9 from right to left, over the digits before it
+  const getCheckDigit = (length: number): number => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      const weight = ((length - 1 - i) % 8) + 2;
+      sum += parseInt(cleanCnpj.charAt(i)) * weight;
+    }
+    
+    const remainder = sum % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+  
+  return parseInt(cleanCnpj.charAt(12)) === getCheckDigit(12)
+    && parseInt(cleanCnpj.charAt(13)) === getCheckDigit(13);
+};
+
+/**
+ * Formats a CNPJ string with proper mask (XX.XXX.XXX/XXXX-XX)
+ * 
+ * @param cnpj - The CNPJ to format
+ * @returns formatted CNPJ string
+ */
+export const formatCnpj = (cnpj: string): string => {
+  const cleanCnpj = cnpj.replace(/\D/g, '').slice(0, 14);
+  
+  if (cleanCnpj.length <= 2) {
+    return cleanCnpj;
+  } else if (cleanCnpj.length <= 5) {
+    return `${cleanCnpj.slice(0, 2)}.${cleanCnpj.slice(2)}`;
+  } else if (cleanCnpj.length <= 8) {
+    return `${cleanCnpj.slice(0, 2)}.${cleanCnpj.slice(2, 5)}.${cleanCnpj.slice(5)}`;
+  } else if (cleanCnpj.length <= 12) {
+    return `${cleanCnpj.slice(0, 2)}.${cleanCnpj.slice(2, 5)}.${cleanCnpj.slice(5, 8)}/${cleanCnpj.slice(8)}`;
+  } else {
+    return `${cleanCnpj.slice(0, 2)}.${cleanCnpj.slice(2, 5)}.${cleanCnpj.slice(5, 8)}/${cleanCnpj.slice(8, 12)}-${cleanCnpj.slice(12)}`;
+  }
+};
+
+/**
+ * Validates a CEP (Brazilian postal code)
+ * 
+ * @param cep - The CEP to validate (can include formatting)
+ * @returns boolean indicating if the CEP has 8 digits
+ */
+export const isCepValid = (cep: string): boolean => {
+  const cleanCep = cep.replace(/\D/g, '');
+  return cleanCep.length === 8 && cleanCep !== '00000000';
+};
+
+/**
+ * Formats a CEP string with proper mask (XXXXX-XXX)
+ * 
+ * @param cep - The CEP to format
+ * @returns formatted CEP string
+ */
+export const formatCep = (cep: string): string => {
+  const cleanCep = cep.replace(/\D/g, '').slice(0, 8);
+  return cleanCep.length <= 5 ? cleanCep : `${cleanCep.slice(0, 5)}-${cleanCep.slice(5)}`;
+};
+
+// Area codes (DDD) in use in Brazil
+const VALID_DDDS = [
+  11, 12, 13, 14, 15, 16, 17, 18, 19,
+  21, 22, 24, 27, 28,
+  31, 32, 33, 34, 35, 37, 38,
+  41, 42, 43, 44, 45, 46, 47, 48, 49,
+  51, 53, 54, 55,
+  61, 62, 63, 64, 65, 66, 67, 68, 69,
+  71, 73, 74, 75, 77, 79,
+  81, 82, 83, 84, 85, 86, 87, 88, 89,
+  91, 92, 93, 94, 95, 96, 97, 98, 99,
+];
+
+export type PhoneType = 'mobile' | 'landline';
+
+/**
+ * Validates a Brazilian phone number with area code (DDD)
+ * Mobile numbers have 9 digits starting with 9, landlines 8 digits starting with 2 to 5
+ * 
+ * @param phone - The phone to validate (can include formatting)
+ * @param type - Restricts the validation to mobile or landline numbers
+ * @returns boolean indicating if the phone is valid
+ */
+export const isPhoneValid = (phone: string, type?: PhoneType): boolean => {
+  const cleanPhone = phone.replace(/\D/g, '');
+  if (!VALID_DDDS.includes(parseInt(cleanPhone.slice(0, 2)))) return false;
+  
+  const isMobile = /^\d{2}9\d{8}$/.test(cleanPhone);
+  const isLandline = /^\d{2}[2-5]\d{7}$/.test(cleanPhone);
+  
+  if (type === 'mobile') return isMobile;
+  if (type === 'landline') return isLandline;
+  return isMobile || isLandline;
+};
+
+/**
+ * Formats a phone string as (XX) XXXXX-XXXX for mobiles or (XX) XXXX-XXXX for landlines
+ * 
+ * @param phone - The phone to format
+ * @returns formatted phone string
+ */
+export const formatPhone = (phone: string): string => {
+  const cleanPhone = phone.replace(/\D/g, '').slice(0, 11);
+  
+  if (cleanPhone.length <= 2) {
+    return cleanPhone.length > 0 ? `(${cleanPhone}` : '';
+  } else if (cleanPhone.length <= 6) {
+    return `(${cleanPhone.slice(0, 2)}) ${cleanPhone.slice(2)}`;
+  } else if (cleanPhone.length <= 10) {
+    return `(${cleanPhone.slice(0, 2)}) ${cleanPhone.slice(2, 6)}-${cleanPhone.slice(6)}`;
+  } else {
+    return `(${cleanPhone.slice(0, 2)}) ${cleanPhone.slice(2, 7)}-${cleanPhone.slice(7)}`;
+  }
+};
+
+/**
+ * Validates an RG (Brazilian identity card) number
+ * Each state issues RGs with its own rules, so only the shape is checked:
+ * 5 to 13 digits followed by a digit or X check character
+ * 
+ * @param rg - The RG to validate (can include formatting)
+ * @returns boolean indicating if the RG looks valid
+ */
+export const isRgValid = (rg: string): boolean => {
+  const cleanRg = rg.toUpperCase().replace(/[^\dX]/g, '');
+  return /^\d{5,13}[\dX]$/.test(cleanRg) && !/^(\d)\1+$/.test(cleanRg);
+};
+
+/**
+ * Formats an RG with the most common mask (XX.XXX.XXX-X)
+ * Longer numbers from other states are kept without a mask
+ * 
+ * @param rg - The RG to format
+ * @returns formatted RG string
+ */
+export const formatRg = (rg: string): string => {
+  const cleanRg = rg.toUpperCase().replace(/[^\dX]/g, '').slice(0, 14);
+  
+  if (cleanRg.length > 9) {
+    return cleanRg;
+  } else if (cleanRg.length <= 2) {
+    return cleanRg;
+  } else if (cleanRg.length <= 5) {
+    return `${cleanRg.slice(0, 2)}.${cleanRg.slice(2)}`;
+  } else if (cleanRg.length <= 8) {
+    return `${cleanRg.slice(0, 2)}.${cleanRg.slice(2, 5)}.${cleanRg.slice(5)}`;
+  } else {
+    return `${cleanRg.slice(0, 2)}.${cleanRg.slice(2, 5)}.${cleanRg.slice(5, 8)}-${cleanRg.slice(8)}`;
+  }
+};
+
+// Brazilian states, used by the regional professional councils
+const STATE_CODES = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+];
+
+/**
+ * Validates a CREF (physical education council) registration, e.g. 012345-G/SP
+ * The letter is the category (G for graduates, P for provisional) followed by the state
+ * 
+ * @param cref - The CREF to validate
+ * @returns boolean indicating if the CREF is valid
+ */
+export const isCrefValid = (cref: string): boolean => {
+  // Checked before formatting, which would drop extra digits or letters
+  const cleanCref = cref.toUpperCase().replace(/[^\dA-Z]/g, '');
+  const match = /^(\d{6})([GP])([A-Z]{2})$/.exec(cleanCref);
+  return match !== null && STATE_CODES.includes(match[3]);
+};
+
+/**
+ * Formats a CREF registration as XXXXXX-C/UF
+ * 
+ * @param cref - The CREF to format
+ * @returns formatted CREF string
+ */
+export const formatCref = (cref: string): string => {
+  const cleanCref = cref.toUpperCase().replace(/[^\dA-Z]/g, '');
+  const number = cleanCref.match(/^\d{0,6}/)?.[0] ?? '';
+  const suffix = cleanCref.slice(number.length).replace(/\d/g, '');
+  
+  if (number.length < 6 || suffix.length === 0) return number;
+  if (suffix.length === 1) return `${number}-${suffix}`;
+  return `${number}-${suffix.charAt(0)}/${suffix.slice(1, 3)}`;
+};
+
+/**
+ * Validates a CREFITO (physiotherapy council) registration, e.g. 123456-F
+ * The suffix is the category: F for physiotherapists, TO for occupational therapists
+ * 
+ * @param crefito - The CREFITO to validate
+ * @returns boolean indicating if the CREFITO is valid
+ */
+export const isCrefitoValid = (crefito: string): boolean => {
+  // Checked before formatting, which would drop extra digits or letters
+  const cleanCrefito = crefito.toUpperCase().replace(/[^\dA-Z]/g, '');
+  return /^\d{1,6}(F|TO)$/.test(cleanCrefito) && !/^0+[A-Z]/.test(cleanCrefito);
+};
+
+/**
+ * Formats a CREFITO registration as XXXXXX-F or XXXXXX-TO
+ * 
+ * @param crefito - The CREFITO to format
+ * @returns formatted CREFITO string
+ */
+export const formatCrefito = (crefito: string): string => {
+  const cleanCrefito = crefito.toUpperCase().replace(/[^\dA-Z]/g, '');
+  const number = cleanCrefito.match(/^\d{0,6}/)?.[0] ?? '';
+  const category = cleanCrefito.slice(number.length).replace(/[^A-Z]/g, '').slice(0, 2);
+  
+  return category ? `${number}-${category}` : number;
+};
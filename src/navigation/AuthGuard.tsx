@@ -1,59 +1,97 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { ActivityIndicator, View, StyleSheet } from 'react-native';
-import { Redirect, usePathname, useRouter, useSegments } from 'expo-router';
+import { Href, Redirect, usePathname, useRouter, useSegments } from 'expo-router';
 import { useAuthContext } from '../features/public/authentication/components/AuthProvider';
 import { colors } from '../theme';
 import { UserType } from '../features/public/authentication/types';
+import { consumePendingRedirect, setPendingRedirect } from './pending-redirect';
 
 // Define which routes can be accessed by authenticated users
-const PUBLIC_ROUTES = ['login', 'register', 'forgot-password'];
+const PUBLIC_ROUTES = ['login', 'register', 'forgot-password', 'invite'];
 
 // Define screens where the header should be hidden
-const HEADER_HIDDEN_ROUTES = ['login', 'register', 'forgot-password'];
+const HEADER_HIDDEN_ROUTES = ['login', 'register', 'forgot-password', 'invite'];
 
 // Define role-based routes
 const ROLE_ROUTES = {
   [UserType.ADMIN]: 'admin',
   [UserType.TRAINER]: 'trainer',
   [UserType.STUDENT]: 'student',
+  [UserType.RECEPTIONIST]: 'receptionist',
+  [UserType.GUARDIAN]: 'guardian',
+};
+
+// Home screen of each role
+const ROLE_HOMES: Record<UserType, Href> = {
+  [UserType.ADMIN]: '/admin',
+  [UserType.TRAINER]: '/trainer',
+  [UserType.STUDENT]: '/student',
+  [UserType.RECEPTIONIST]: '/receptionist',
+  [UserType.GUARDIAN]: '/guardian',
+};
+
+/**
+ * Checks whether a path can be opened by a role: paths inside a role module
+ * are only allowed for that role, public routes are never restored
+ */
+const isPathAllowedForRole = (path: string, userType: UserType): boolean => {
+  const module = path.split('/').filter(Boolean)[0] ?? '';
+  
+  if (PUBLIC_ROUTES.includes(module)) return false;
+  if (Object.values(ROLE_ROUTES).includes(module)) return module === ROLE_ROUTES[userType];
+  return true;
 };
 
 export const useProtectedRoute = () => {
-  const { isAuthenticated, isInitialized, isLoading, user } = useAuthContext();
+  const { isAuthenticated, isInitialized, isLoading, isRefreshing, user } = useAuthContext();
   const segments = useSegments();
   const router = useRouter();
   const pathname = usePathname();
-  const currentRoute = pathname.substring(1); // Remove the leading slash
   
   // Get the first segment to determine which module (admin, trainer, student) is being accessed
+  // Public flows with several screens (e.g. forgot-password/verify) are matched by this segment too
   const currentModule = segments[0] || '';
+  
+  // Last signed in user, used to only restore a path for the user whose session ended there
+  const lastUserIdRef = useRef<string | null>(null);
+  if (user) {
+    lastUserIdRef.current = user.id;
+  }
 
   useEffect(() => {
-    if (!isInitialized) return;
+    // Wait for an in-flight token refresh instead of bouncing the user to the login screen
+    if (!isInitialized || isRefreshing) return;
 
-    const inPublicRoute = PUBLIC_ROUTES.includes(currentRoute);
+    const inPublicRoute = PUBLIC_ROUTES.includes(currentModule);
     const inProtectedRoute = !inPublicRoute;
 
     if (inProtectedRoute && !isAuthenticated) {
-      // Redirect to login if user is not authenticated and trying to access protected route
+      // Remember where the user was going (e.g. a deep link) before sending them to login
+      if (pathname !== '/') {
+        setPendingRedirect(pathname, lastUserIdRef.current);
+      }
       router.replace('/login');
     } else if (inPublicRoute && isAuthenticated && user) {
-      // Redirect to appropriate role-based home screen if user is authenticated and trying to access public route
-      const userRoleRoute = ROLE_ROUTES[user.userType];
-      router.replace(`/${userRoleRoute}` as any);
+      // Return to the path captured before login when this user may open it,
+      // otherwise go to the role-based home screen
+      const pendingRedirect = consumePendingRedirect();
+      const canRestore = pendingRedirect !== null
+        && (pendingRedirect.userId === null || pendingRedirect.userId === user.id)
+        && isPathAllowedForRole(pendingRedirect.href, user.userType);
+      
+      router.replace(canRestore ? pendingRedirect.href : ROLE_HOMES[user.userType]);
     } else if (isAuthenticated && user && currentModule && currentModule !== ROLE_ROUTES[user.userType]) {
       // Redirect to the appropriate module based on user role if they're trying to access the wrong module
       // Only enforce this if they are in a known module path (admin, trainer, student)
       const isKnownModule = Object.values(ROLE_ROUTES).includes(currentModule);
       if (isKnownModule) {
-        const correctRoute = ROLE_ROUTES[user.userType];
-        router.replace(`/${correctRoute}` as any);
+        router.replace(ROLE_HOMES[user.userType]);
       }
     }
-  }, [isAuthenticated, isInitialized, pathname, router, currentRoute, user, currentModule]);
+  }, [isAuthenticated, isInitialized, isRefreshing, pathname, router, user, currentModule]);
 
   return { 
-    shouldHideHeader: HEADER_HIDDEN_ROUTES.includes(currentRoute),
+    shouldHideHeader: HEADER_HIDDEN_ROUTES.includes(currentModule),
     isLoading: isLoading || !isInitialized,
     userType: user?.userType,
   };
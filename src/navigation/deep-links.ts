@@ -0,0 +1,87 @@
+import * as Linking from 'expo-linking';
+
+/**
+ * Links that can open the app, e.g. physipro://trainer/sessions/42
+ */
+export type DeepLink =
+  | { type: 'session'; role: 'trainer' | 'student'; sessionId: string }
+  | { type: 'student'; studentId: string }
+  | { type: 'invite'; code: string };
+
+// Schemes whose host is a server (web or Expo Go dev server) rather than part of the app path
+const SERVER_SCHEMES = ['http', 'https', 'exp', 'exps'];
+
+/**
+ * Splits a link into path segments
+ * Custom scheme links carry the first segment as the host (physipro://trainer/...),
+ * server links only have it in the path (https://app.physipro.com.br/trainer/...)
+ */
+const getSegments = (url: string): string[] => {
+  const { scheme, hostname, path } = Linking.parse(url);
+  const isServerLink = scheme !== null && SERVER_SCHEMES.includes(scheme);
+  const pathSegments = (path ?? '').split('/').filter(Boolean).map(decodeURIComponent);
+
+  return isServerLink || !hostname ? pathSegments : [hostname, ...pathSegments];
+};
+
+/**
+ * Parses a URL into a known deep link, or null when the URL is not one
+ */
+export const parseDeepLink = (url: string): DeepLink | null => {
+  let segments: string[];
+  try {
+    segments = getSegments(url);
+  } catch {
+    return null;
+  }
+
+  const [first, second, third] = segments;
+
+  if (segments.length === 3 && (first === 'trainer' || first === 'student') && second === 'sessions') {
+    return { type: 'session', role: first, sessionId: third };
+  }
+  if (segments.length === 3 && first === 'trainer' && second === 'students') {
+    return { type: 'student', studentId: third };
+  }
+  if (segments.length === 2 && first === 'invite') {
+    return { type: 'invite', code: second };
+  }
+
+  return null;
+};
+
+/**
+ * Returns the path of a deep link, as found in the links the app shares
+ */
+export const getDeepLinkPath = (link: DeepLink): string => {
+  switch (link.type) {
+    case 'session':
+      return `/${link.role}/sessions/${encodeURIComponent(link.sessionId)}`;
+    case 'student':
+      return `/trainer/students/${encodeURIComponent(link.studentId)}`;
+    case 'invite':
+      return `/invite/${encodeURIComponent(link.code)}`;
+  }
+};
+
+/**
+ * Returns the route a deep link opens
+ * Sessions and students have no detail screen yet, their links open the home of the role instead
+ */
+export const getDeepLinkRoute = (link: DeepLink): string => {
+  switch (link.type) {
+    case 'session':
+      return `/${link.role}`;
+    case 'student':
+      return '/trainer';
+    case 'invite':
+      return getDeepLinkPath(link);
+  }
+};
+
+/**
+ * Builds a shareable link that opens the app on the given deep link
+ */
+export const createDeepLinkUrl = (link: DeepLink): string => {
+  return Linking.createURL(getDeepLinkPath(link));
+};
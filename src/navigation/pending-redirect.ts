@@ -0,0 +1,38 @@
+import { Href } from 'expo-router';
+
+/**
+ * Remembers the protected path the user tried to open before being sent to the login screen,
+ * so it can be restored once they sign in
+ */
+type AppPath = Extract<Href, string>;
+
+interface PendingRedirect {
+  href: AppPath;
+  // User whose session ended on this path, null when the app was opened signed out
+  userId: string | null;
+}
+
+let pendingRedirect: PendingRedirect | null = null;
+
+/**
+ * Checks whether a path is an absolute path inside the app, rather than a relative or external one
+ */
+const isAppPath = (path: string): path is AppPath => {
+  return path.startsWith('/') && !path.startsWith('//') && !path.includes(':');
+};
+
+export const setPendingRedirect = (path: string, userId: string | null): void => {
+  pendingRedirect = isAppPath(path) ? { href: path, userId } : null;
+};
+
+/**
+ * Returns the pending redirect and forgets it, so it is only restored once
+ * A redirect that is not an app path any more is dropped
+ */
+export const consumePendingRedirect = (): PendingRedirect | null => {
+  const redirect = pendingRedirect;
+  pendingRedirect = null;
+
+  if (!redirect || !isAppPath(redirect.href)) return null;
+  return redirect;
+};
@@ -0,0 +1,243 @@
+import { ApiSessionHandler, createApiClient, linkAbortSignals } from '../api-client';
+import { ApiError } from '../api-errors';
+
+interface StandInRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  signal?: AbortSignal | null;
+}
+
+interface StandInResponse {
+  status: number;
+  body?: unknown;
+}
+
+/**
+ * Local stand-in for the PhysiPro API: answers every request with the given responder
+ * and records every request it receives. A responder that throws fails the request as a network error.
+ */
+const createStandInServer = (respond: (request: StandInRequest) => StandInResponse | Promise<StandInResponse>) => {
+  const requests: StandInRequest[] = [];
+
+  const fetchFn = jest.fn(async (url: string, init: RequestInit = {}) => {
+    const request = {
+      method: init.method ?? 'GET',
+      path: url.replace('https://api.physipro.test', ''),
+      headers: (init.headers ?? {}) as Record<string, string>,
+      signal: init.signal,
+    };
+    requests.push(request);
+
+    const response = await respond(request);
+    const text = response.body === undefined ? '' : JSON.stringify(response.body);
+    return {
+      status: response.status,
+      ok: response.status >= 200 && response.status < 300,
+      headers: { get: () => null },
+      json: async () => JSON.parse(text),
+      text: async () => text,
+    } as unknown as Response;
+  });
+
+  return { fetchFn: fetchFn as unknown as typeof fetch, requests };
+};
+
+/**
+ * Answers each request with the next response of the list, throwing for the `network` entries
+ */
+const respondInOrder = (responses: (StandInResponse | 'network')[]) => {
+  let index = 0;
+
+  return () => {
+    const response = responses[Math.min(index, responses.length - 1)];
+    index += 1;
+    if (response === 'network') throw new TypeError('Network request failed');
+    return response;
+  };
+};
+
+/**
+ * Session whose token is only accepted once renewed, as after the server rejected the stored one
+ */
+const createSession = (refreshToken: ApiSessionHandler['refreshToken']) => {
+  let token = 'expired';
+
+  const session = {
+    getToken: jest.fn(() => token),
+    refreshToken: jest.fn(async () => {
+      const renewedToken = await refreshToken();
+      if (renewedToken) token = renewedToken;
+      return renewedToken;
+    }),
+    onSessionExpired: jest.fn(),
+  };
+
+  return session;
+};
+
+const respondByToken = ({ headers }: StandInRequest): StandInResponse => (
+  headers.Authorization === 'Bearer renewed'
+    ? { status: 200, body: { ok: true } }
+    : { status: 401 }
+);
+
+const createClient = (server: ReturnType<typeof createStandInServer>, session?: ApiSessionHandler) => createApiClient({
+  baseUrl: 'https://api.physipro.test/',
+  retryDelayMs: 0,
+  session,
+  fetchFn: server.fetchFn,
+});
+
+describe('createApiClient', () => {
+  it('retries idempotent requests that failed with a server error', async () => {
+    const server = createStandInServer(respondInOrder([
+      { status: 503 },
+      { status: 500 },
+      { status: 200, body: { id: '1' } },
+    ]));
+
+    await expect(createClient(server).get('/students/1')).resolves.toEqual({ id: '1' });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('retries idempotent requests that failed to reach the server', async () => {
+    const server = createStandInServer(respondInOrder(['network', { status: 200, body: { id: '1' } }]));
+
+    await expect(createClient(server).get('/students/1')).resolves.toEqual({ id: '1' });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const server = createStandInServer(respondInOrder([{ status: 500 }]));
+
+    await expect(createClient(server).get('/students/1')).rejects.toMatchObject({ code: 'SERVER_ERROR', status: 500 });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('does not retry requests rejected by the server', async () => {
+    const server = createStandInServer(respondInOrder([{ status: 404 }, { status: 200 }]));
+
+    await expect(createClient(server).get('/students/1')).rejects.toMatchObject({ code: 'NOT_FOUND', status: 404 });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('does not retry requests that are not idempotent without an idempotency key', async () => {
+    const server = createStandInServer(respondInOrder([{ status: 500 }, { status: 500 }, { status: 201 }]));
+    const client = createClient(server);
+
+    await expect(client.post('/students', { name: 'Ana' })).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+    expect(server.requests).toHaveLength(1);
+
+    await expect(client.post('/students', { name: 'Ana' }, { idempotencyKey: 'key-1' })).resolves.toBeUndefined();
+    expect(server.requests).toHaveLength(3);
+    expect(server.requests[2].headers['Idempotency-Key']).toBe('key-1');
+  });
+
+  it('renews the session once for requests rejected together', async () => {
+    const server = createStandInServer(respondByToken);
+    const session = createSession(async () => 'renewed');
+    const client = createClient(server, session);
+
+    const results = await Promise.all([client.get('/students'), client.get('/workouts'), client.get('/sessions')]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(session.refreshToken).toHaveBeenCalledTimes(1);
+    expect(session.onSessionExpired).not.toHaveBeenCalled();
+    expect(server.requests.filter(({ headers }) => headers.Authorization === 'Bearer renewed')).toHaveLength(3);
+  });
+
+  it('ends the session when it could not be renewed', async () => {
+    const server = createStandInServer(respondByToken);
+    const session = createSession(async () => null);
+
+    await expect(createClient(server, session).get('/students')).rejects.toMatchObject({
+      code: 'SESSION_EXPIRED',
+      status: 401,
+    });
+    expect(session.onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session when renewing it failed for now', async () => {
+    const server = createStandInServer(respondByToken);
+    const session = createSession(async () => {
+      throw new ApiError('NETWORK_ERROR');
+    });
+    const client = createApiClient({
+      baseUrl: 'https://api.physipro.test',
+      maxRetries: 0,
+      session,
+      fetchFn: server.fetchFn,
+    });
+
+    await expect(client.get('/students')).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(session.onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('does not send the token of requests that are not authenticated', async () => {
+    const server = createStandInServer(respondInOrder([{ status: 401 }]));
+    const session = createSession(async () => 'renewed');
+
+    await expect(createClient(server, session).post('/auth/login', {}, { authenticated: false }))
+      .rejects.toMatchObject({ code: 'SESSION_EXPIRED', status: 401 });
+    expect(server.requests[0].headers.Authorization).toBeUndefined();
+    expect(session.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('rejects with CANCELLED when the request is aborted', async () => {
+    const server = createStandInServer(({ signal }) => new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+    const controller = new AbortController();
+
+    const request = createClient(server).get('/students', { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('does not send requests that were aborted before', async () => {
+    const server = createStandInServer(respondInOrder([{ status: 200 }]));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createClient(server).get('/students', { signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('rejects with NOT_CONFIGURED without a server', async () => {
+    const client = createApiClient({ baseUrl: null, fetchFn: jest.fn() });
+
+    await expect(client.get('/students')).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+});
+
+describe('linkAbortSignals', () => {
+  it('aborts when any of the signals aborts', () => {
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const { signal } = linkAbortSignals([first.signal, undefined, second.signal]);
+    second.abort();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('stops following the signals once unlinked', () => {
+    const controller = new AbortController();
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const { signal, unlink } = linkAbortSignals([controller.signal]);
+    unlink();
+    controller.abort();
+
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    expect(signal.aborted).toBe(false);
+  });
+});
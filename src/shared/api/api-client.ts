@@ -0,0 +1,362 @@
+import Constants from 'expo-constants';
+import { ApiError, getCodeFromStatus, isApiErrorCode, isRetryableApiError } from './api-errors';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+// Longest wait between two attempts, also when the server asks for more through Retry-After
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Methods that can be repeated without changing the result, other requests need an idempotency key to be retried
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export type HttpMethod = 'GET' | 'HEAD' | 'OPTIONS' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Connects the client to the signed-in session, registered by the authentication module
+ */
+export interface ApiSessionHandler {
+  // Access token sent as the Authorization header, null when signed out
+  getToken: () => string | null;
+  // Renews the session after the server rejected the token, resolving the new token or null when it ended.
+  // Rejects when the session could not be renewed for now (e.g. offline), the request then fails but the session is kept.
+  refreshToken: () => Promise<string | null>;
+  // Called when the session could not be renewed, expected to log the user out
+  onSessionExpired: () => void | Promise<void>;
+}
+
+export interface ApiRequestOptions {
+  method?: HttpMethod;
+  query?: QueryParams;
+  // Sent as JSON
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Aborts the request, which then rejects with an ApiError with code CANCELLED
+  signal?: AbortSignal;
+  // Sends the session token and renews it on a 401, true by default
+  authenticated?: boolean;
+  // Sent as the Idempotency-Key header, lets requests that are not idempotent by method be retried
+  idempotencyKey?: string;
+  // Overrides how many times a failed idempotent request is repeated
+  maxRetries?: number;
+}
+
+export type ApiMethodOptions = Omit<ApiRequestOptions, 'method' | 'body'>;
+
+export interface ApiClient {
+  request: <T>(path: string, options?: ApiRequestOptions) => Promise<T>;
+  get: <T>(path: string, options?: ApiMethodOptions) => Promise<T>;
+  post: <T>(path: string, body?: unknown, options?: ApiMethodOptions) => Promise<T>;
+  put: <T>(path: string, body?: unknown, options?: ApiMethodOptions) => Promise<T>;
+  patch: <T>(path: string, body?: unknown, options?: ApiMethodOptions) => Promise<T>;
+  delete: <T>(path: string, options?: ApiMethodOptions) => Promise<T>;
+}
+
+export interface ApiClientOptions {
+  // Requests reject with NOT_CONFIGURED when there is no server to talk to
+  baseUrl: string | null;
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Delay before the first retry, doubled for every following one
+  retryDelayMs?: number;
+  // Defaults to the handler registered with setApiSessionHandler
+  session?: ApiSessionHandler;
+  // Injectable so the client can be exercised against a local stand-in server
+  fetchFn?: typeof fetch;
+}
+
+interface ErrorResponseBody {
+  code?: unknown;
+}
+
+interface ApiConfig {
+  baseUrl?: string;
+}
+
+let sessionHandler: ApiSessionHandler | null = null;
+let currentClient: ApiClient | null = null;
+
+export interface LinkedAbortSignal {
+  signal: AbortSignal;
+  // Stops following the given signals, to be called once the request settled
+  unlink: () => void;
+}
+
+/**
+ * Creates a signal aborted as soon as any of the given signals is
+ * The listeners stay on the given signals until unlink is called, long-lived signals must be unlinked
+ */
+export const linkAbortSignals = (signals: (AbortSignal | undefined)[]): LinkedAbortSignal => {
+  const controller = new AbortController();
+  const linkedSignals = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+
+  const unlink = () => {
+    linkedSignals.forEach(signal => signal.removeEventListener('abort', handleAbort));
+  };
+  const handleAbort = () => {
+    unlink();
+    controller.abort();
+  };
+
+  if (linkedSignals.some(signal => signal.aborted)) {
+    controller.abort();
+  } else {
+    linkedSignals.forEach(signal => signal.addEventListener('abort', handleAbort));
+  }
+
+  return { signal: controller.signal, unlink };
+};
+
+/**
+ * Waits before a retry, rejecting as soon as the request is cancelled
+ */
+const waitForRetry = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new ApiError('CANCELLED'));
+    return;
+  }
+
+  const handleAbort = () => {
+    clearTimeout(timeoutId);
+    reject(new ApiError('CANCELLED'));
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, delayMs);
+
+  signal?.addEventListener('abort', handleAbort);
+});
+
+/**
+ * Reads the wait asked for by a Retry-After header, in seconds or as a date
+ */
+const getRetryAfterMs = (response: Response): number | null => {
+  const retryAfter = response.headers.get('Retry-After');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Builds an ApiError from a failed response, preferring the code sent by the server
+ */
+const parseErrorResponse = async (response: Response): Promise<ApiError> => {
+  let body: ErrorResponseBody | undefined;
+  try {
+    body = await response.json();
+  } catch {
+    // Body is not JSON, fall back to the status code
+  }
+
+  const code = isApiErrorCode(body?.code) ? body.code : getCodeFromStatus(response.status);
+  return new ApiError(code, response.status, undefined, { body, retryAfterMs: getRetryAfterMs(response) });
+};
+
+/**
+ * Reads a successful response, empty bodies resolve to undefined
+ */
+const parseResponse = async <T>(response: Response): Promise<T> => {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch {
+    throw new ApiError('NETWORK_ERROR');
+  }
+
+  if (!text) {
+    return undefined as T;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ApiError('SERVER_ERROR', response.status);
+  }
+};
+
+const buildQueryString = (query?: QueryParams): string => {
+  if (!query) return '';
+
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+
+  return params.length > 0 ? `?${params.join('&')}` : '';
+};
+
+/**
+ * Client for the PhysiPro REST API, the one place where requests are sent from.
+ * It authenticates requests with the current session, renews the session when the server rejects it,
+ * repeats idempotent requests that failed for transient reasons and turns every failure into an ApiError.
+ */
+export const createApiClient = ({
+  baseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxRetries = DEFAULT_MAX_RETRIES,
+  retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  session,
+  fetchFn = fetch,
+}: ApiClientOptions): ApiClient => {
+  const apiUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+  // Shared by the requests rejected together, so the session is renewed only once
+  let pendingRefresh: Promise<string | null> | null = null;
+
+  const getSession = () => session ?? sessionHandler;
+
+  const refreshToken = (handler: ApiSessionHandler): Promise<string | null> => {
+    if (!pendingRefresh) {
+      pendingRefresh = handler.refreshToken()
+        .catch(error => {
+          console.warn('Failed to renew the session after a rejected request:', error);
+          throw error instanceof ApiError ? error : new ApiError('UNKNOWN');
+        })
+        .finally(() => {
+          pendingRefresh = null;
+        });
+    }
+
+    return pendingRefresh;
+  };
+
+  /**
+   * Sends the request once, resolving the response whatever its status
+   */
+  const send = async (
+    url: string,
+    method: HttpMethod,
+    options: ApiRequestOptions,
+    token: string | null,
+  ): Promise<Response> => {
+    if (options.signal?.aborted) throw new ApiError('CANCELLED');
+
+    const controller = new AbortController();
+    const handleAbort = () => controller.abort();
+    const timeoutId = setTimeout(handleAbort, timeoutMs);
+    options.signal?.addEventListener('abort', handleAbort);
+
+    try {
+      return await fetchFn(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+          ...options.headers,
+        },
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw new ApiError('CANCELLED');
+
+      const isTimeout = error instanceof Error && error.name === 'AbortError';
+      throw new ApiError(isTimeout ? 'TIMEOUT' : 'NETWORK_ERROR');
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', handleAbort);
+    }
+  };
+
+  /**
+   * Sends the request with the session token, renewing the session once when the server rejects it
+   */
+  const sendAuthenticated = async (url: string, method: HttpMethod, options: ApiRequestOptions): Promise<Response> => {
+    const handler = options.authenticated === false ? null : getSession();
+    const token = handler?.getToken() ?? null;
+    const response = await send(url, method, options, token);
+
+    if (response.status !== 401 || !handler || !token) {
+      return response;
+    }
+
+    const renewedToken = await refreshToken(handler);
+    if (options.signal?.aborted) throw new ApiError('CANCELLED');
+
+    if (renewedToken) {
+      const retriedResponse = await send(url, method, options, renewedToken);
+      if (retriedResponse.status !== 401) return retriedResponse;
+    }
+
+    await handler.onSessionExpired();
+    throw new ApiError('SESSION_EXPIRED', 401);
+  };
+
+  const request = async <T>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+    if (!apiUrl) {
+      throw new ApiError('NOT_CONFIGURED');
+    }
+
+    const method = options.method ?? 'GET';
+    const url = `${apiUrl}${path}${buildQueryString(options.query)}`;
+    const canRetry = IDEMPOTENT_METHODS.includes(method) || Boolean(options.idempotencyKey);
+    const retryLimit = canRetry ? options.maxRetries ?? maxRetries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await sendAuthenticated(url, method, options);
+
+        if (response.ok) {
+          return await parseResponse<T>(response);
+        }
+
+        const error = await parseErrorResponse(response);
+        retryAfterMs = error.retryAfterMs;
+        throw error;
+      } catch (error) {
+        if (attempt >= retryLimit || !isRetryableApiError(error)) {
+          throw error;
+        }
+      }
+
+      const backoffMs = retryAfterMs ?? retryDelayMs * 2 ** attempt;
+      await waitForRetry(Math.min(backoffMs, MAX_RETRY_DELAY_MS), options.signal);
+    }
+  };
+
+  return {
+    request,
+    get: (path, options) => request(path, { ...options, method: 'GET' }),
+    post: (path, body, options) => request(path, { ...options, method: 'POST', body }),
+    put: (path, body, options) => request(path, { ...options, method: 'PUT', body }),
+    patch: (path, body, options) => request(path, { ...options, method: 'PATCH', body }),
+    delete: (path, options) => request(path, { ...options, method: 'DELETE' }),
+  };
+};
+
+/**
+ * Register how requests are authenticated, called by the authentication module for the signed-in session.
+ * Passing null sends requests without a token.
+ */
+export const setApiSessionHandler = (handler: ApiSessionHandler | null): void => {
+  sessionHandler = handler;
+};
+
+/**
+ * Get the client for the server described by the app config (`expo.extra.api.baseUrl`)
+ */
+export const getApiClient = (): ApiClient => {
+  if (!currentClient) {
+    const apiConfig = Constants.expoConfig?.extra?.api as ApiConfig | undefined;
+    currentClient = createApiClient({ baseUrl: apiConfig?.baseUrl ?? null });
+  }
+
+  return currentClient;
+};
+
+/**
+ * Replace the client returned by getApiClient.
+ * Passing null restores the client described by the app config.
+ */
+export const setApiClient = (client: ApiClient | null): void => {
+  currentClient = client;
+};
@@ -0,0 +1,124 @@
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'SESSION_EXPIRED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'NOT_CONFIGURED'
+  | 'UNKNOWN';
+
+/**
+ * User-facing messages for each API error code
+ */
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  NETWORK_ERROR: 'Não foi possível conectar ao servidor. Verifique sua conexão e tente novamente.',
+  TIMEOUT: 'O servidor demorou muito para responder. Tente novamente.',
+  CANCELLED: 'A solicitação foi cancelada.',
+  SESSION_EXPIRED: 'Sua sessão expirou. Faça login novamente.',
+  FORBIDDEN: 'Você não tem permissão para realizar esta ação.',
+  NOT_FOUND: 'O registro solicitado não foi encontrado.',
+  CONFLICT: 'Este registro foi alterado por outra pessoa. Atualize a tela e tente novamente.',
+  VALIDATION_ERROR: 'Dados inválidos. Revise as informações e tente novamente.',
+  RATE_LIMITED: 'Muitas solicitações em pouco tempo. Aguarde alguns instantes e tente novamente.',
+  SERVER_ERROR: 'Ocorreu um erro no servidor. Tente novamente mais tarde.',
+  NOT_CONFIGURED: 'O endereço do servidor não está configurado neste aplicativo.',
+  UNKNOWN: 'Ocorreu um erro inesperado. Tente novamente.',
+};
+
+export interface ApiErrorDetails {
+  // Parsed body of the failed response, for callers that understand more codes than ApiErrorCode
+  body?: unknown;
+  // Wait asked for by the Retry-After header
+  retryAfterMs?: number | null;
+}
+
+/**
+ * Error thrown by the API client.
+ * The message is always the Portuguese text that can be shown to the user.
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  // HTTP status of the response, null when no response was received
+  status: number | null;
+  body: unknown;
+  retryAfterMs: number | null;
+
+  constructor(
+    code: ApiErrorCode,
+    status: number | null = null,
+    message: string = API_ERROR_MESSAGES[code],
+    { body, retryAfterMs = null }: ApiErrorDetails = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Checks whether a value is a known API error code
+ *
+ * @param code - The value received from the server
+ * @returns boolean indicating if the code is a known ApiErrorCode
+ */
+export const isApiErrorCode = (code: unknown): code is ApiErrorCode => {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(API_ERROR_MESSAGES, code);
+};
+
+/**
+ * Maps an HTTP status to an error code when the server does not send one
+ */
+export const getCodeFromStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'SESSION_EXPIRED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 409) return 'CONFLICT';
+  if (status === 400 || status === 422) return 'VALIDATION_ERROR';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN';
+};
+
+/**
+ * Checks whether a failed request may succeed when repeated
+ *
+ * @param error - The error to inspect
+ * @returns boolean indicating if the request can be sent again
+ */
+export const isRetryableApiError = (error: unknown): boolean => {
+  return error instanceof ApiError
+    && ['NETWORK_ERROR', 'TIMEOUT', 'RATE_LIMITED', 'SERVER_ERROR'].includes(error.code);
+};
+
+/**
+ * Checks whether a request was cancelled, usually because the screen that started it was closed
+ *
+ * @param error - The error to inspect
+ * @returns boolean indicating if the error can be ignored
+ */
+export const isCancelledApiError = (error: unknown): boolean => {
+  return error instanceof ApiError && error.code === 'CANCELLED';
+};
+
+/**
+ * Gets the message to show for an error thrown by any of the app services.
+ * Errors carrying a code (API, auth, sync and storage errors) hold a Portuguese message,
+ * anything else is unexpected and gets the fallback.
+ *
+ * @param error - The error to describe
+ * @param fallback - Message used when the error has none meant for the user
+ * @returns string that can be shown to the user
+ */
+export const getErrorMessage = (error: unknown, fallback: string = API_ERROR_MESSAGES.UNKNOWN): string => {
+  const isUserFacing = error instanceof Error && typeof (error as { code?: unknown }).code === 'string';
+
+  return isUserFacing && error.message ? error.message : fallback;
+};
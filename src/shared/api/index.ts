@@ -0,0 +1,20 @@
+export { createApiClient, getApiClient, setApiClient, setApiSessionHandler } from './api-client';
+export type {
+  ApiClient,
+  ApiClientOptions,
+  ApiMethodOptions,
+  ApiRequestOptions,
+  ApiSessionHandler,
+  HttpMethod,
+  QueryParams,
+} from './api-client';
+export {
+  API_ERROR_MESSAGES,
+  ApiError,
+  getErrorMessage,
+  isApiErrorCode,
+  isCancelledApiError,
+  isRetryableApiError,
+} from './api-errors';
+export type { ApiErrorCode, ApiErrorDetails } from './api-errors';
+export { useApiClient } from './useApiClient';
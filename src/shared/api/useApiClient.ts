@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ApiClient, ApiRequestOptions, getApiClient, linkAbortSignals } from './api-client';
+
+/**
+ * API client whose requests are cancelled when the component unmounts,
+ * they then reject with an ApiError with code CANCELLED (see isCancelledApiError)
+ */
+export const useApiClient = (client: ApiClient = getApiClient()): ApiClient => {
+  const controllerRef = useRef(new AbortController());
+  
+  useEffect(() => {
+    // A fresh controller on every mount, as a remounted component must be able to send requests again
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    
+    return () => controller.abort();
+  }, []);
+  
+  return useMemo(() => {
+    /**
+     * Sends the request with the unmount signal, unlinked from the request signal once it settled
+     * so the long-lived unmount signal doesn't collect a listener per request
+     */
+    const withUnmountSignal = <T>(
+      options: ApiRequestOptions = {},
+      send: (options: ApiRequestOptions) => Promise<T>,
+    ): Promise<T> => {
+      const unmountSignal = controllerRef.current.signal;
+      if (!options.signal) return send({ ...options, signal: unmountSignal });
+      
+      const { signal, unlink } = linkAbortSignals([options.signal, unmountSignal]);
+      return send({ ...options, signal }).finally(unlink);
+    };
+    
+    return {
+      request: (path, options) => withUnmountSignal(options, linked => client.request(path, linked)),
+      get: (path, options) => withUnmountSignal(options, linked => client.get(path, linked)),
+      post: (path, body, options) => withUnmountSignal(options, linked => client.post(path, body, linked)),
+      put: (path, body, options) => withUnmountSignal(options, linked => client.put(path, body, linked)),
+      patch: (path, body, options) => withUnmountSignal(options, linked => client.patch(path, body, linked)),
+      delete: (path, options) => withUnmountSignal(options, linked => client.delete(path, linked)),
+    };
+  }, [client]);
+};
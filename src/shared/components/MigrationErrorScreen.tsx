@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Button from './Button';
+import { MigrationError } from '../storage';
+import { colors, typography, spacing } from '../../theme';
+
+interface MigrationErrorScreenProps {
+  error: MigrationError;
+  onRetry: () => void;
+  isRetrying?: boolean;
+}
+
+/**
+ * Shown instead of the app when the data saved on the device could not be updated to the current version
+ */
+const MigrationErrorScreen: React.FC<MigrationErrorScreenProps> = ({ error, onRetry, isRetrying = false }) => {
+  const cause = error.cause instanceof Error ? error.cause.message : String(error.cause);
+  
+  return (
+    <View style={styles.container}>
+      <Ionicons name="alert-circle-outline" size={64} color={colors.feedback.error} />
+      <Text style={styles.title}>Não foi possível atualizar seus dados</Text>
+      <Text style={styles.message}>
+        Os dados salvos neste dispositivo precisam ser atualizados para esta versão do app, mas a atualização
+        falhou. Nenhum dado foi apagado. Tente novamente e, se o problema continuar, entre em contato com o suporte.
+      </Text>
+      
+      <View style={styles.details}>
+        {error.migration && (
+          <Text style={styles.detailText}>Etapa {error.migration.version}: {error.migration.description}</Text>
+        )}
+        <Text style={styles.detailText}>Erro: {cause}</Text>
+      </View>
+      
+      <Button title="Tentar novamente" isLoading={isRetrying} disabled={isRetrying} onPress={onRetry} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.background.light,
+  },
+  title: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  message: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  details: {
+    alignSelf: 'stretch',
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.neutrals.lightGray,
+  },
+  detailText: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+});
+
+export default MigrationErrorScreen;
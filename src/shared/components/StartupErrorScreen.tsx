@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Button from './Button';
+import { colors, typography, spacing } from '../../theme';
+
+interface StartupErrorScreenProps {
+  error: unknown;
+  onRetry: () => void;
+  isRetrying?: boolean;
+}
+
+/**
+ * Shown instead of the app when its startup could not even be run
+ */
+const StartupErrorScreen: React.FC<StartupErrorScreenProps> = ({ error, onRetry, isRetrying = false }) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  
+  return (
+    <View style={styles.container}>
+      <Ionicons name="alert-circle-outline" size={64} color={colors.feedback.error} />
+      <Text style={styles.title}>Não foi possível iniciar o app</Text>
+      <Text style={styles.message}>
+        Ocorreu um erro ao preparar o app. Nenhum dado foi apagado. Tente novamente e, se o problema continuar,
+        entre em contato com o suporte.
+      </Text>
+      
+      <View style={styles.details}>
+        <Text style={styles.detailText}>Erro: {errorMessage}</Text>
+      </View>
+      
+      <Button title="Tentar novamente" isLoading={isRetrying} disabled={isRetrying} onPress={onRetry} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.background.light,
+  },
+  title: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  message: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  details: {
+    alignSelf: 'stretch',
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.neutrals.lightGray,
+  },
+  detailText: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+});
+
+export default StartupErrorScreen;
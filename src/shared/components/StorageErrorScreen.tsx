@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Button from './Button';
+import {
+  StorageCheckError,
+  StorageOperation,
+  StorageUsage,
+  clearStorage,
+  createStorageDiagnostics,
+  getStorageUsage,
+  resetStorage,
+} from '../storage';
+import { colors, typography, spacing } from '../../theme';
+
+interface StorageErrorScreenProps {
+  error: unknown;
+  onRetry: () => void;
+  isRetrying?: boolean;
+  // Keys kept when clearing cached data, so the user stays signed in
+  sessionKeys?: string[];
+  // Extra information added to the diagnostic report
+  diagnostics?: Record<string, unknown>;
+}
+
+type RecoveryAction = 'clear' | 'reset' | 'export';
+
+const OPERATION_LABELS: Record<StorageOperation, string> = {
+  write: 'Gravação de dados',
+  read: 'Leitura de dados',
+  verify: 'Conferência dos dados lidos',
+  remove: 'Remoção de dados',
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Shown instead of the app when the device storage can't be used, with ways to recover from it
+ */
+const StorageErrorScreen: React.FC<StorageErrorScreenProps> = ({
+  error,
+  onRetry,
+  isRetrying = false,
+  sessionKeys = [],
+  diagnostics,
+}) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [runningAction, setRunningAction] = useState<RecoveryAction | null>(null);
+  
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (usageError) {
+      // Storage may not even be readable, the screen works without the usage
+      console.warn('Failed to measure storage usage:', usageError);
+      setUsage(null);
+    }
+  }, []);
+  
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+  
+  const runAction = async (action: RecoveryAction, task: () => Promise<void>, failureTitle: string) => {
+    setRunningAction(action);
+    try {
+      await task();
+    } catch (actionError) {
+      console.error(`Storage recovery action "${action}" failed:`, actionError);
+      Alert.alert(
+        failureTitle,
+        actionError instanceof Error ? actionError.message : 'Tente novamente ou entre em contato com o suporte.',
+      );
+    } finally {
+      setRunningAction(null);
+      loadUsage();
+    }
+  };
+  
+  const handleClearCache = () => {
+    Alert.alert(
+      'Limpar dados em cache',
+      'Os dados temporários salvos neste dispositivo serão apagados. Você continuará conectado.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Limpar',
+          onPress: () => runAction('clear', async () => {
+            await clearStorage(sessionKeys);
+            onRetry();
+          }, 'Erro ao limpar dados'),
+        },
+      ],
+    );
+  };
+  
+  const handleReset = () => {
+    Alert.alert(
+      'Redefinir o app',
+      'Todos os dados do app neste dispositivo serão apagados e você precisará entrar novamente. '
+        + 'Dados que ainda não foram enviados ao servidor serão perdidos.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Redefinir',
+          style: 'destructive',
+          onPress: () => runAction('reset', async () => {
+            await resetStorage();
+            onRetry();
+          }, 'Erro ao redefinir o app'),
+        },
+      ],
+    );
+  };
+  
+  const handleExportDiagnostics = () => {
+    runAction('export', async () => {
+      const report = await createStorageDiagnostics(error, diagnostics);
+      await Share.share({
+        title: 'Diagnóstico do PhysiPro',
+        message: JSON.stringify(report, null, 2),
+      });
+    }, 'Erro ao exportar diagnóstico');
+  };
+  
+  const isBusy = isRetrying || runningAction !== null;
+  const errorMessage = error instanceof StorageCheckError
+    ? (error.cause instanceof Error ? error.cause.message : String(error.cause))
+    : (error instanceof Error ? error.message : String(error));
+  
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <Ionicons name="server-outline" size={64} color={colors.feedback.error} />
+      <Text style={styles.title}>Não foi possível acessar o armazenamento</Text>
+      <Text style={styles.message}>
+        O app não conseguiu usar o armazenamento deste dispositivo. Isso pode acontecer quando falta espaço
+        livre. Tente novamente; se o problema continuar, limpe os dados em cache ou envie o diagnóstico ao suporte.
+      </Text>
+      
+      <View style={styles.details}>
+        {error instanceof StorageCheckError && (
+          <Text style={styles.detailText}>Operação: {OPERATION_LABELS[error.operation]}</Text>
+        )}
+        <Text style={styles.detailText}>Erro: {errorMessage}</Text>
+        {usage ? (
+          <Text style={styles.detailText}>
+            Uso: {formatBytes(usage.approximateBytes)}
+            {usage.quotaBytes !== null && ` de ${formatBytes(usage.quotaBytes)}`} ({usage.keyCount} itens)
+          </Text>
+        ) : (
+          <Text style={styles.detailText}>Uso: indisponível</Text>
+        )}
+      </View>
+      
+      <Button
+        title="Tentar novamente"
+        isLoading={isRetrying}
+        disabled={isBusy}
+        onPress={onRetry}
+        style={styles.action}
+      />
+      <Button
+        title="Limpar cache e manter login"
+        variant="outline"
+        isLoading={runningAction === 'clear'}
+        disabled={isBusy}
+        onPress={handleClearCache}
+        style={styles.action}
+      />
+      <Button
+        title="Exportar diagnóstico"
+        variant="outline"
+        isLoading={runningAction === 'export'}
+        disabled={isBusy}
+        onPress={handleExportDiagnostics}
+        style={styles.action}
+      />
+      <Button
+        title="Redefinir o app"
+        variant="text"
+        isLoading={runningAction === 'reset'}
+        disabled={isBusy}
+        onPress={handleReset}
+        style={styles.action}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    backgroundColor: colors.background.light,
+  },
+  title: {
+    fontSize: typography.sizes.xl,
+    fontWeight: typography.weights.bold as '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  message: {
+    fontSize: typography.sizes.md,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  details: {
+    alignSelf: 'stretch',
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.neutrals.lightGray,
+  },
+  detailText: {
+    fontSize: typography.sizes.xs,
+    color: colors.text.secondary,
+  },
+  action: {
+    alignSelf: 'stretch',
+    marginBottom: spacing.sm,
+  },
+});
+
+export default StorageErrorScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { forwardRef, useState } from 'react';
 import {
   View,
   TextInput as RNTextInput,
@@ -28,7 +28,8 @@ interface TextInputProps extends RNTextInputProps {
   isPassword?: boolean;
 }
 
-const TextInput: React.FC<TextInputProps> = ({
+// Forwards its ref to the native input so forms can focus it
+const TextInput = forwardRef<RNTextInput, TextInputProps>(({
   label,
   error,
   helper,
@@ -42,8 +43,10 @@ const TextInput: React.FC<TextInputProps> = ({
   endIcon,
   isPassword = false,
   secureTextEntry,
+  onFocus,
+  onBlur,
   ...rest
-}) => {
+}, ref) => {
   const [isFocused, setIsFocused] = useState(false);
   const [isPasswordVisible, setIsPasswordVisible] = useState(!secureTextEntry);
 
@@ -110,10 +113,17 @@ const TextInput: React.FC<TextInputProps> = ({
         {startIcon && <View style={styles.iconContainer}>{startIcon}</View>}
         
         <RNTextInput
+          ref={ref}
           style={getInputStyle()}
           placeholderTextColor={colors.neutrals.mediumGray}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
+          onFocus={event => {
+            setIsFocused(true);
+            onFocus?.(event);
+          }}
+          onBlur={event => {
+            setIsFocused(false);
+            onBlur?.(event);
+          }}
           secureTextEntry={isPassword ? !isPasswordVisible : secureTextEntry}
           {...rest}
         />
@@ -138,7 +148,9 @@ const TextInput: React.FC<TextInputProps> = ({
       )}
     </View>
   );
-};
+});
+
+TextInput.displayName = 'TextInput';
 
 const styles = StyleSheet.create({
   container: {
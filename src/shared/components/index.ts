@@ -1,2 +1,5 @@
 export { default as Button } from './Button';
-export { default as TextInput } from './TextInput'; 
\ No newline at end of file
+export { default as TextInput } from './TextInput';
+export { default as MigrationErrorScreen } from './MigrationErrorScreen';
+export { default as StorageErrorScreen } from './StorageErrorScreen';
+export { default as StartupErrorScreen } from './StartupErrorScreen';
@@ -0,0 +1,2 @@
+export { useForm } from './useForm';
+export type { FieldProps, FieldRule, FieldSchema, FormSchema, FormValues } from './useForm';
@@ -0,0 +1,197 @@
+import { RefObject, createRef, useCallback, useMemo, useRef, useState } from 'react';
+import { TextInput as RNTextInput } from 'react-native';
+
+export type FormValues = Record<string, string>;
+
+export interface FieldRule<V extends FormValues> {
+  // Receives every value, so a rule can compare fields (e.g. password confirmation)
+  validate: (value: string, values: V) => boolean;
+  message: string;
+}
+
+export interface FieldSchema<V extends FormValues> {
+  // A string replaces the default message
+  required?: boolean | string;
+  // Checked in order, the first failing rule gives the error
+  rules?: FieldRule<V>[];
+  // Runs on blur and on submit once the other rules pass, resolving to an error message or null
+  asyncValidate?: (value: string, values: V) => Promise<string | null>;
+}
+
+export type FormSchema<V extends FormValues> = { [K in keyof V]?: FieldSchema<V> };
+
+type FieldFlags<V extends FormValues> = Partial<Record<keyof V, boolean>>;
+type FieldErrors<V extends FormValues> = Partial<Record<keyof V, string>>;
+
+interface UseFormOptions<V extends FormValues> {
+  initialValues: V;
+  schema: FormSchema<V>;
+  onSubmit: (values: V) => void | Promise<void>;
+}
+
+// Props spread on TextInput, CpfInput or any masked input
+export interface FieldProps {
+  ref: RefObject<RNTextInput>;
+  value: string;
+  onChangeText: (text: string) => void;
+  onBlur: () => void;
+  error?: string;
+}
+
+const DEFAULT_REQUIRED_MESSAGE = 'Campo obrigatório';
+
+/**
+ * Returns the first synchronous error of a field, or null when it passes every rule
+ */
+const getSyncError = <V extends FormValues>(
+  fieldSchema: FieldSchema<V> | undefined,
+  value: string,
+  values: V,
+): string | null => {
+  if (!fieldSchema) return null;
+  
+  if (value.trim().length === 0) {
+    if (!fieldSchema.required) return null;
+    return typeof fieldSchema.required === 'string' ? fieldSchema.required : DEFAULT_REQUIRED_MESSAGE;
+  }
+  
+  const failedRule = fieldSchema.rules?.find(rule => !rule.validate(value, values));
+  return failedRule ? failedRule.message : null;
+};
+
+/**
+ * Form state with declarative validation
+ * Errors are only shown for fields the user left (touched) or after a submit attempt,
+ * and submitting an invalid form focuses its first invalid field
+ */
+export const useForm = <V extends FormValues>({ initialValues, schema, onSubmit }: UseFormOptions<V>) => {
+  const [values, setValues] = useState<V>(initialValues);
+  const [touched, setTouched] = useState<FieldFlags<V>>({});
+  const [asyncErrors, setAsyncErrors] = useState<FieldErrors<V>>({});
+  const [validating, setValidating] = useState<FieldFlags<V>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitCount, setSubmitCount] = useState(0);
+  
+  // Field order decides which invalid field is focused first
+  const fieldNames = useMemo(() => Object.keys(initialValues) as (keyof V & string)[], [initialValues]);
+  const inputRefs = useRef<Partial<Record<keyof V, RefObject<RNTextInput>>>>({});
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+  // Incremented on every async check so a stale result never overrides a newer one
+  const asyncRunIds = useRef<Partial<Record<keyof V, number>>>({});
+  
+  const syncErrors = useMemo(() => {
+    const errors: FieldErrors<V> = {};
+    fieldNames.forEach(name => {
+      const error = getSyncError(schema[name], values[name], values);
+      if (error) errors[name] = error;
+    });
+    return errors;
+  }, [fieldNames, schema, values]);
+  
+  const errors = useMemo<FieldErrors<V>>(() => ({ ...asyncErrors, ...syncErrors }), [asyncErrors, syncErrors]);
+  
+  const isValid = fieldNames.every(name => !errors[name] && !validating[name]);
+  const isDirty = fieldNames.some(name => values[name] !== initialValues[name]);
+  
+  const getInputRef = (name: keyof V): RefObject<RNTextInput> => {
+    if (!inputRefs.current[name]) {
+      inputRefs.current[name] = createRef<RNTextInput>();
+    }
+    return inputRefs.current[name] as RefObject<RNTextInput>;
+  };
+  
+  // Runs the async check of a field, returning its error
+  const runAsyncValidation = useCallback(async (name: keyof V): Promise<string | null> => {
+    const asyncValidate = schema[name]?.asyncValidate;
+    const currentValues = valuesRef.current;
+    if (!asyncValidate || getSyncError(schema[name], currentValues[name], currentValues)) return null;
+    
+    const runId = (asyncRunIds.current[name] ?? 0) + 1;
+    asyncRunIds.current[name] = runId;
+    setValidating(current => ({ ...current, [name]: true }));
+    
+    let error: string | null;
+    try {
+      error = await asyncValidate(currentValues[name], currentValues);
+    } catch (validationError) {
+      error = validationError instanceof Error ? validationError.message : 'Não foi possível validar este campo.';
+    }
+    
+    if (asyncRunIds.current[name] === runId) {
+      setAsyncErrors(current => ({ ...current, [name]: error ?? undefined }));
+      setValidating(current => ({ ...current, [name]: false }));
+    }
+    
+    return error;
+  }, [schema]);
+  
+  const setValue = useCallback((name: keyof V, value: string) => {
+    setValues(current => ({ ...current, [name]: value }));
+    
+    // A pending or previous async result no longer applies to the new value
+    asyncRunIds.current[name] = (asyncRunIds.current[name] ?? 0) + 1;
+    setAsyncErrors(current => ({ ...current, [name]: undefined }));
+    setValidating(current => ({ ...current, [name]: false }));
+  }, []);
+  
+  const handleBlur = useCallback((name: keyof V) => {
+    setTouched(current => ({ ...current, [name]: true }));
+    runAsyncValidation(name);
+  }, [runAsyncValidation]);
+  
+  /**
+   * Binds a field to an input: value, change and blur handlers, ref and the visible error
+   */
+  const getFieldProps = (name: keyof V & string): FieldProps => ({
+    ref: getInputRef(name),
+    value: values[name],
+    onChangeText: text => setValue(name, text),
+    onBlur: () => handleBlur(name),
+    error: touched[name] || submitCount > 0 ? errors[name] : undefined,
+  });
+  
+  const handleSubmit = async () => {
+    setSubmitCount(count => count + 1);
+    setTouched(Object.fromEntries(fieldNames.map(name => [name, true])) as FieldFlags<V>);
+    
+    const asyncResults = await Promise.all(fieldNames.map(name => runAsyncValidation(name)));
+    const firstInvalidField = fieldNames.find((name, index) => syncErrors[name] || asyncResults[index]);
+    
+    if (firstInvalidField) {
+      inputRefs.current[firstInvalidField]?.current?.focus();
+      return;
+    }
+    
+    setIsSubmitting(true);
+    try {
+      await onSubmit(valuesRef.current);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  const reset = (nextValues: V = initialValues) => {
+    setValues(nextValues);
+    setTouched({});
+    setAsyncErrors({});
+    setValidating({});
+    setSubmitCount(0);
+    asyncRunIds.current = {};
+  };
+  
+  return {
+    values,
+    errors,
+    touched,
+    isValid,
+    isDirty,
+    isDirtyField: (name: keyof V) => values[name] !== initialValues[name],
+    isValidating: fieldNames.some(name => validating[name]),
+    isSubmitting,
+    setValue,
+    getFieldProps,
+    handleSubmit,
+    reset,
+  };
+};
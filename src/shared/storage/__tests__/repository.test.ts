@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RepositoryError, createRepository } from '../repository';
+import { secureStorage } from '../secure-storage';
+
+jest.mock('@react-native-async-storage/async-storage', () => (
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+));
+
+// In-memory keychain holding the device encryption key
+jest.mock('expo-secure-store', () => {
+  const keychain = new Map<string, string>();
+
+  return {
+    AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 0,
+    isAvailableAsync: async () => true,
+    getItemAsync: async (key: string) => keychain.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      keychain.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      keychain.delete(key);
+    },
+  };
+});
+
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+interface TrainingSession {
+  id: string;
+  studentId: string;
+  day: number;
+  room?: string;
+  notes?: { text: string };
+}
+
+const SESSIONS: Omit<TrainingSession, 'id'>[] = [
+  { studentId: 'ana', day: 3, room: 'B' },
+  { studentId: 'bruno', day: 1 },
+  { studentId: 'ana', day: 2, room: 'A' },
+  { studentId: 'carla', day: 5, room: 'C' },
+  { studentId: 'ana', day: 4 },
+];
+
+let nextId = 0;
+
+const createSessions = () => createRepository<TrainingSession, 'studentId' | 'day'>({
+  name: 'test:sessions',
+  indexes: ['studentId', 'day'],
+  generateId: () => `session-${++nextId}`,
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  nextId = 0;
+});
+
+describe('createRepository', () => {
+  it('persists items with generated ids, read back by a new instance', async () => {
+    const sessions = createSessions();
+
+    const inserted = await sessions.insertMany(SESSIONS);
+
+    expect(inserted.map(({ id }) => id)).toEqual(['session-1', 'session-2', 'session-3', 'session-4', 'session-5']);
+    expect(await createSessions().getAll()).toEqual(inserted);
+    expect(await createSessions().getById('session-2')).toEqual({ id: 'session-2', studentId: 'bruno', day: 1 });
+  });
+
+  it('keeps the stored items encrypted', async () => {
+    await createSessions().insert({ id: 'session-1', studentId: 'ana', day: 3 });
+
+    expect(await AsyncStorage.getItem('@PhysiPro:test:sessions:item:session-1')).toMatch(/^enc:v1:/);
+  });
+
+  it('finds items through the indexes, following updates and removals', async () => {
+    const sessions = createSessions();
+    await sessions.insertMany(SESSIONS);
+
+    expect((await sessions.findBy('studentId', 'ana')).map(({ id }) => id)).toEqual(['session-1', 'session-3', 'session-5']);
+
+    await sessions.update('session-1', { studentId: 'bruno' });
+    await sessions.remove('session-3');
+
+    expect((await sessions.findBy('studentId', 'ana')).map(({ id }) => id)).toEqual(['session-5']);
+    expect((await sessions.findBy('studentId', 'bruno')).map(({ id }) => id)).toEqual(['session-1', 'session-2']);
+    expect(await sessions.findBy('day', 2)).toEqual([]);
+  });
+
+  it('queries with where, filter, sort and pagination', async () => {
+    const sessions = createSessions();
+    await sessions.insertMany(SESSIONS);
+
+    const page = await sessions.query({
+      where: { studentId: 'ana' },
+      filter: session => session.day > 2,
+      sortBy: 'day',
+      order: 'desc',
+    });
+    expect(page).toEqual({
+      items: [
+        { id: 'session-5', studentId: 'ana', day: 4 },
+        { id: 'session-1', studentId: 'ana', day: 3, room: 'B' },
+      ],
+      total: 2,
+      offset: 0,
+      hasMore: false,
+    });
+
+    const firstPage = await sessions.query({ sortBy: 'day', limit: 2 });
+    expect(firstPage.items.map(({ day }) => day)).toEqual([1, 2]);
+    expect(firstPage).toMatchObject({ total: 5, offset: 0, hasMore: true });
+
+    const lastPage = await sessions.query({ sortBy: 'day', offset: 4, limit: 2 });
+    expect(lastPage.items.map(({ day }) => day)).toEqual([5]);
+    expect(lastPage).toMatchObject({ total: 5, offset: 4, hasMore: false });
+  });
+
+  it('sorts items missing the field last, whatever the order', async () => {
+    const sessions = createSessions();
+    await sessions.insertMany(SESSIONS);
+
+    expect((await sessions.query({ sortBy: 'room' })).items.map(({ room }) => room))
+      .toEqual(['A', 'B', 'C', undefined, undefined]);
+    expect((await sessions.query({ sortBy: 'room', order: 'desc' })).items.map(({ room }) => room))
+      .toEqual(['C', 'B', 'A', undefined, undefined]);
+  });
+
+  it('rejects duplicate ids without writing anything', async () => {
+    const sessions = createSessions();
+    await sessions.insert({ id: 'taken', studentId: 'ana', day: 1 });
+
+    await expect(sessions.insert({ id: 'taken', studentId: 'bruno', day: 2 }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_ID' });
+    await expect(sessions.insertMany([
+      { id: 'twice', studentId: 'bruno', day: 2 },
+      { id: 'twice', studentId: 'carla', day: 3 },
+    ])).rejects.toBeInstanceOf(RepositoryError);
+
+    expect(await createSessions().getAll()).toEqual([{ id: 'taken', studentId: 'ana', day: 1 }]);
+  });
+
+  it('runs concurrent writes one at a time, keeping every id', async () => {
+    const sessions = createSessions();
+
+    await Promise.all(SESSIONS.map(session => sessions.insert(session)));
+    await Promise.all([
+      sessions.update('session-1', { day: 10 }),
+      sessions.remove('session-2'),
+      sessions.insert({ studentId: 'davi', day: 6 }),
+    ]);
+
+    const reloaded = await createSessions().getAll();
+    expect(reloaded.map(({ id }) => id)).toEqual(['session-1', 'session-3', 'session-4', 'session-5', 'session-6']);
+    expect(reloaded[0].day).toBe(10);
+  });
+
+  it('keeps the cached items when a write fails', async () => {
+    const sessions = createSessions();
+    await sessions.insert({ id: 'session-1', studentId: 'ana', day: 1 });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(secureStorage, 'setItem').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(sessions.update('session-1', { day: 2 })).rejects.toMatchObject({ code: 'WRITE_FAILED' });
+    await expect(sessions.update('missing', { day: 2 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    expect(await sessions.getById('session-1')).toEqual({ id: 'session-1', studentId: 'ana', day: 1 });
+    expect(await sessions.findBy('day', 1)).toHaveLength(1);
+  });
+
+  it('hands out deep copies that do not change the cached items', async () => {
+    const sessions = createSessions();
+    const notes = { text: 'Aquecimento' };
+    await sessions.insert({ id: 'session-1', studentId: 'ana', day: 1, notes });
+
+    notes.text = 'Changed by the caller';
+    const session = await sessions.getById('session-1') as TrainingSession;
+    (session.notes as { text: string }).text = 'Changed by the reader';
+
+    expect(await sessions.getById('session-1')).toMatchObject({ notes: { text: 'Aquecimento' } });
+  });
+
+  it('notifies the listeners of every write until they unsubscribe', async () => {
+    const sessions = createSessions();
+    const listener = jest.fn();
+    const unsubscribe = sessions.subscribe(listener);
+
+    const session = await sessions.insert({ studentId: 'ana', day: 1 });
+    await sessions.update(session.id, { day: 2 });
+    await sessions.remove(session.id);
+    unsubscribe();
+    await sessions.clear();
+
+    expect(listener.mock.calls.map(([change]) => change.type)).toEqual(['insert', 'update', 'remove']);
+    expect(listener.mock.calls[1][0]).toEqual({
+      type: 'update',
+      item: { ...session, day: 2 },
+      previous: session,
+    });
+  });
+});
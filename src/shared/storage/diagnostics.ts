@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { FALLBACK_DEVICE_KEY, secureStorage } from './secure-storage';
+import { STORAGE_VERSION_KEY } from './migrations';
+
+const STORAGE_CHECK_KEY = '@PhysiPro:test';
+
+// Size AsyncStorage may grow to: the default database limit on Android and the usual
+// local storage limit of browsers. iOS has no limit other than the free disk space.
+const STORAGE_QUOTA_BYTES: Partial<Record<typeof Platform.OS, number>> = {
+  android: 6 * 1024 * 1024,
+  web: 5 * 1024 * 1024,
+};
+
+// Keys the storage itself relies on, never removed when clearing cached data
+const STORAGE_INTERNAL_KEYS = [STORAGE_VERSION_KEY, FALLBACK_DEVICE_KEY];
+
+export type StorageOperation = 'write' | 'read' | 'verify' | 'remove';
+
+/**
+ * Error thrown when storage fails the startup check, naming the operation that failed
+ */
+export class StorageCheckError extends Error {
+  operation: StorageOperation;
+  cause: unknown;
+
+  constructor(operation: StorageOperation, cause: unknown) {
+    super(`Storage check failed on ${operation}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'StorageCheckError';
+    this.operation = operation;
+    this.cause = cause;
+  }
+}
+
+export interface StorageUsage {
+  keyCount: number;
+  // Characters stored in keys and values; encrypted values are ASCII, so close to the size in bytes
+  approximateBytes: number;
+  // null when the platform sets no fixed limit
+  quotaBytes: number | null;
+  // Usage per collection, the items of a repository counting as one collection
+  collections: { name: string; keyCount: number; approximateBytes: number }[];
+}
+
+/**
+ * Writes, reads back and removes a test value, throwing a StorageCheckError at the first step that fails
+ */
+export const checkStorage = async (): Promise<void> => {
+  const runStep = async <T>(operation: StorageOperation, step: () => Promise<T>): Promise<T> => {
+    try {
+      return await step();
+    } catch (error) {
+      throw new StorageCheckError(operation, error);
+    }
+  };
+
+  try {
+    await runStep('write', () => AsyncStorage.setItem(STORAGE_CHECK_KEY, 'test'));
+    const value = await runStep('read', () => AsyncStorage.getItem(STORAGE_CHECK_KEY));
+
+    if (value !== 'test') {
+      throw new StorageCheckError('verify', new Error('AsyncStorage returned a different value than the one written'));
+    }
+
+    await runStep('remove', () => AsyncStorage.removeItem(STORAGE_CHECK_KEY));
+  } catch (error) {
+    // Don't leave the test value behind when an earlier step failed
+    await AsyncStorage.removeItem(STORAGE_CHECK_KEY).catch(() => undefined);
+    throw error;
+  }
+};
+
+// Repository items (e.g. "@PhysiPro:mock:auditLog:item:<id>") are grouped under their collection
+const getCollectionName = (key: string): string => key.split(':item:')[0];
+
+/**
+ * Measures what the app keeps in AsyncStorage, without exposing any of the stored values
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const pairs = await AsyncStorage.multiGet(keys);
+  const collections = new Map<string, { keyCount: number; approximateBytes: number }>();
+
+  pairs.forEach(([key, value]) => {
+    const name = getCollectionName(key);
+    const collection = collections.get(name) ?? { keyCount: 0, approximateBytes: 0 };
+
+    collection.keyCount += 1;
+    collection.approximateBytes += key.length + (value?.length ?? 0);
+    collections.set(name, collection);
+  });
+
+  return {
+    keyCount: keys.length,
+    approximateBytes: Array.from(collections.values()).reduce((total, { approximateBytes }) => total + approximateBytes, 0),
+    quotaBytes: STORAGE_QUOTA_BYTES[Platform.OS] ?? null,
+    collections: Array.from(collections, ([name, collection]) => ({ name, ...collection }))
+      .sort((a, b) => b.approximateBytes - a.approximateBytes),
+  };
+};
+
+/**
+ * Removes everything stored by the app except the given keys
+ * A key ending in ":" keeps every key starting with it (e.g. "@PhysiPro:mock:")
+ */
+export const clearStorage = async (keep: string[] = []): Promise<number> => {
+  const keptKeys = [...STORAGE_INTERNAL_KEYS, ...keep];
+  const isKept = (key: string) => keptKeys.some(kept => (kept.endsWith(':') ? key.startsWith(kept) : key === kept));
+
+  const keysToRemove = (await AsyncStorage.getAllKeys()).filter(key => !isKept(key));
+  await AsyncStorage.multiRemove(keysToRemove);
+
+  return keysToRemove.length;
+};
+
+/**
+ * Erases all the app data on the device, including the session and the encryption key
+ */
+export const resetStorage = async (): Promise<void> => {
+  await AsyncStorage.clear();
+  await secureStorage.deleteDeviceKey();
+};
+
+/**
+ * Builds a report on a storage failure to send to support
+ * It holds the error, the platform and the storage usage, never the stored values
+ */
+export const createStorageDiagnostics = async (
+  error: unknown,
+  extra: Record<string, unknown> = {},
+): Promise<Record<string, unknown>> => {
+  let storage: StorageUsage | { error: string };
+  try {
+    storage = await getStorageUsage();
+  } catch (usageError) {
+    storage = { error: usageError instanceof Error ? usageError.message : String(usageError) };
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    app: {
+      version: Constants.expoConfig?.version ?? null,
+      platform: Platform.OS,
+      platformVersion: String(Platform.Version),
+    },
+    error: {
+      name: error instanceof Error ? error.name : typeof error,
+      message: error instanceof Error ? error.message : String(error),
+      operation: error instanceof StorageCheckError ? error.operation : null,
+    },
+    storage,
+    ...extra,
+  };
+};
@@ -0,0 +1,28 @@
+export { secureStorage } from './secure-storage';
+export type { SecureStorage } from './secure-storage';
+export { safeStorage } from './safe-storage';
+export { MigrationError, STORAGE_VERSION_KEY, getStorageVersion, runStorageMigrations } from './migrations';
+export type { MigrationContext, MigrationResult, StorageMigration } from './migrations';
+export {
+  StorageCheckError,
+  checkStorage,
+  clearStorage,
+  createStorageDiagnostics,
+  getStorageUsage,
+  resetStorage,
+} from './diagnostics';
+export type { StorageOperation, StorageUsage } from './diagnostics';
+export { createRepository, RepositoryError } from './repository';
+export type {
+  Entity,
+  IndexableField,
+  NewEntity,
+  Page,
+  QueryOptions,
+  Repository,
+  RepositoryChange,
+  RepositoryErrorCode,
+  RepositoryListener,
+  RepositoryOptions,
+  SortOrder,
+} from './repository';
@@ -0,0 +1,160 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage } from './secure-storage';
+
+// Schema version of the data on the device, kept in plain text so it can be read before any decryption
+export const STORAGE_VERSION_KEY = '@PhysiPro:storageVersion';
+
+/**
+ * Storage operations available to a migration.
+ * Values go through the encrypted storage; in a dry run writes are kept in memory
+ * and later reads in the same run see them, so transforms can be exercised without persisting anything.
+ */
+export interface MigrationContext {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItems: (keys: string[]) => Promise<void>;
+  // Re-writes plaintext values left by versions before encryption at rest, returning how many were found
+  encryptLegacyItems: (keys: string[]) => Promise<number>;
+  isDryRun: boolean;
+}
+
+export interface StorageMigration {
+  // Schema version the data is at once the migration ran, unique and increasing
+  version: number;
+  description: string;
+  migrate: (context: MigrationContext) => Promise<void>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  appliedVersions: number[];
+  isDryRun: boolean;
+}
+
+interface RunMigrationsOptions {
+  // Runs every pending transform without persisting anything or moving the schema version
+  dryRun?: boolean;
+}
+
+/**
+ * Error thrown when a migration fails, the schema version stays at the last migration that succeeded
+ * The migration is null when the run failed before any migration started, e.g. on a corrupted schema version
+ */
+export class MigrationError extends Error {
+  migration: StorageMigration | null;
+  cause: unknown;
+
+  constructor(migration: StorageMigration | null, cause: unknown) {
+    const causeMessage = cause instanceof Error ? cause.message : String(cause);
+    super(migration
+      ? `Storage migration ${migration.version} (${migration.description}) failed: ${causeMessage}`
+      : `Storage migrations failed: ${causeMessage}`);
+    this.name = 'MigrationError';
+    this.migration = migration;
+    this.cause = cause;
+  }
+}
+
+const DELETED = Symbol('deleted');
+
+/**
+ * Builds the context handed to migrations, buffering writes in memory during a dry run
+ */
+const createMigrationContext = (isDryRun: boolean): MigrationContext => {
+  if (!isDryRun) {
+    return {
+      getItem: key => secureStorage.getItem(key),
+      setItem: (key, value) => secureStorage.setItem(key, value),
+      removeItems: keys => secureStorage.multiRemove(keys),
+      encryptLegacyItems: keys => secureStorage.encryptLegacyItems(keys),
+      isDryRun,
+    };
+  }
+
+  const pendingWrites = new Map<string, string | typeof DELETED>();
+
+  return {
+    getItem: async key => {
+      const pendingValue = pendingWrites.get(key);
+      if (pendingValue === DELETED) return null;
+      return pendingValue ?? secureStorage.getItem(key);
+    },
+    setItem: async (key, value) => {
+      pendingWrites.set(key, value);
+    },
+    removeItems: async keys => {
+      keys.forEach(key => pendingWrites.set(key, DELETED));
+    },
+    // Legacy values are buffered as if they had been encrypted, so later migrations can read them
+    encryptLegacyItems: async keys => {
+      const legacyPairs = await secureStorage.getLegacyItems(keys);
+      legacyPairs.forEach(([key, value]) => pendingWrites.set(key, value));
+      return legacyPairs.length;
+    },
+    isDryRun,
+  };
+};
+
+/**
+ * Get the schema version of the data on the device, 0 before the first migration ran
+ * A version that isn't a whole number is corrupted and rejects, as every migration would otherwise be skipped
+ */
+export const getStorageVersion = async (): Promise<number> => {
+  const storedVersion = await AsyncStorage.getItem(STORAGE_VERSION_KEY);
+  if (storedVersion === null) return 0;
+
+  const version = Number(storedVersion);
+  if (!storedVersion.trim() || !Number.isInteger(version) || version < 0) {
+    throw new MigrationError(null, new Error(`Invalid storage version "${storedVersion}"`));
+  }
+
+  return version;
+};
+
+/**
+ * Runs, in order, every migration newer than the schema version on the device
+ * The version is saved after each migration, so a failure only retries the migrations that didn't finish
+ */
+export const runStorageMigrations = async (
+  migrations: StorageMigration[],
+  { dryRun = false }: RunMigrationsOptions = {},
+): Promise<MigrationResult> => {
+  const sortedMigrations = [...migrations].sort((a, b) => a.version - b.version);
+  sortedMigrations.forEach((migration, index) => {
+    if (index > 0 && migration.version === sortedMigrations[index - 1].version) {
+      throw new Error(`Duplicate storage migration version ${migration.version}`);
+    }
+  });
+
+  const fromVersion = await getStorageVersion();
+  const pendingMigrations = sortedMigrations.filter(migration => migration.version > fromVersion);
+  const context = createMigrationContext(dryRun);
+  const appliedVersions: number[] = [];
+
+  for (const migration of pendingMigrations) {
+    try {
+      await migration.migrate(context);
+      if (!dryRun) {
+        await AsyncStorage.setItem(STORAGE_VERSION_KEY, String(migration.version));
+      }
+    } catch (error) {
+      throw new MigrationError(migration, error);
+    }
+
+    appliedVersions.push(migration.version);
+  }
+
+  if (appliedVersions.length > 0) {
+    console.info(`${dryRun ? '[dry run] ' : ''}Storage migrated from version ${fromVersion} to ${
+      appliedVersions[appliedVersions.length - 1]
+    }`);
+  }
+
+  return {
+    fromVersion,
+    toVersion: appliedVersions.length > 0 ? appliedVersions[appliedVersions.length - 1] : fromVersion,
+    appliedVersions,
+    isDryRun: dryRun,
+  };
+};
@@ -0,0 +1,391 @@
+import * as Crypto from 'expo-crypto';
+import { safeStorage } from './safe-storage';
+import { secureStorage } from './secure-storage';
+
+export interface Entity {
+  id: string;
+}
+
+type IndexValue = string | number | boolean;
+
+// Fields holding a primitive value, the only ones that can be indexed
+export type IndexableField<T> = {
+  [K in keyof T]-?: T[K] extends IndexValue | null | undefined ? K : never;
+}[keyof T] & string;
+
+// Entity being created, the id is generated when omitted
+export type NewEntity<T extends Entity> = Omit<T, 'id'> & { id?: string };
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface QueryOptions<T extends Entity, F extends IndexableField<T>> {
+  // Equality on indexed fields, resolved through the indexes
+  where?: Partial<Pick<T, F>>;
+  filter?: (item: T) => boolean;
+  sortBy?: (keyof T & string) | ((a: T, b: T) => number);
+  order?: SortOrder;
+  offset?: number;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Number of items matching the query, before pagination
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export type RepositoryChange<T> =
+  | { type: 'insert'; items: T[] }
+  | { type: 'update'; item: T; previous: T }
+  | { type: 'remove'; item: T }
+  | { type: 'clear' };
+
+export type RepositoryListener<T> = (change: RepositoryChange<T>) => void;
+
+export interface Repository<T extends Entity, F extends IndexableField<T> = never> {
+  getById: (id: string) => Promise<T | null>;
+  // Every item, in insertion order
+  getAll: () => Promise<T[]>;
+  findBy: <K extends F>(field: K, value: T[K]) => Promise<T[]>;
+  query: (options?: QueryOptions<T, F>) => Promise<Page<T>>;
+  count: (filter?: (item: T) => boolean) => Promise<number>;
+  insert: (data: NewEntity<T>) => Promise<T>;
+  insertMany: (data: NewEntity<T>[]) => Promise<T[]>;
+  update: (id: string, changes: Partial<Omit<T, 'id'>>) => Promise<T>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+  // Called after every successful write, returns a function that removes the listener
+  subscribe: (listener: RepositoryListener<T>) => () => void;
+}
+
+export interface RepositoryOptions<T extends Entity, F extends IndexableField<T>> {
+  // Collection name, used in the storage keys (e.g. "trainer:sessions")
+  name: string;
+  indexes?: F[];
+  generateId?: () => string;
+}
+
+export type RepositoryErrorCode = 'NOT_FOUND' | 'DUPLICATE_ID' | 'WRITE_FAILED';
+
+const REPOSITORY_ERROR_MESSAGES: Record<RepositoryErrorCode, string> = {
+  NOT_FOUND: 'Registro não encontrado.',
+  DUPLICATE_ID: 'Já existe um registro com este identificador.',
+  WRITE_FAILED: 'Não foi possível salvar os dados no dispositivo. Tente novamente.',
+};
+
+/**
+ * Error thrown by repositories, the message can be shown to the user
+ */
+export class RepositoryError extends Error {
+  code: RepositoryErrorCode;
+
+  constructor(code: RepositoryErrorCode, message: string = REPOSITORY_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'RepositoryError';
+    this.code = code;
+  }
+}
+
+interface CollectionState<T> {
+  ids: string[];
+  items: Map<string, T>;
+  // Indexed field -> value -> ids of the items holding it
+  indexes: Map<string, Map<string, Set<string>>>;
+}
+
+// Keeps 1 and "1" apart in the indexes
+const toIndexKey = (value: unknown): string | null => {
+  return value === null || value === undefined ? null : `${typeof value}:${String(value)}`;
+};
+
+const compareValues = (a: unknown, b: unknown, order: SortOrder): number => {
+  // Missing values always go last, whatever the order
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+
+  const direction = order === 'desc' ? -1 : 1;
+  if (typeof a === 'string' && typeof b === 'string') return direction * a.localeCompare(b);
+
+  // Numbers, booleans and dates compare through their primitive value
+  const left = a as number;
+  const right = b as number;
+  return direction * (left < right ? -1 : left > right ? 1 : 0);
+};
+
+/**
+ * Creates a typed collection persisted in encrypted storage
+ * Each item is stored under its own key next to the list of ids, so a write only touches
+ * the items it changes. Items are loaded once and kept in memory, where the indexes live.
+ * Create a single repository per collection and share it, as instances don't see each other's writes.
+ */
+export const createRepository = <T extends Entity, F extends IndexableField<T> = never>({
+  name,
+  indexes = [],
+  generateId = Crypto.randomUUID,
+}: RepositoryOptions<T, F>): Repository<T, F> => {
+  const idsKey = `@PhysiPro:${name}:ids`;
+  const itemKey = (id: string) => `@PhysiPro:${name}:item:${id}`;
+
+  const listeners = new Set<RepositoryListener<T>>();
+  let statePromise: Promise<CollectionState<T>> | null = null;
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const addToIndexes = (state: CollectionState<T>, item: T) => {
+    indexes.forEach(field => {
+      const key = toIndexKey(item[field]);
+      if (key === null) return;
+
+      const index = state.indexes.get(field) as Map<string, Set<string>>;
+      if (!index.has(key)) index.set(key, new Set());
+      index.get(key)?.add(item.id);
+    });
+  };
+
+  const removeFromIndexes = (state: CollectionState<T>, item: T) => {
+    indexes.forEach(field => {
+      const key = toIndexKey(item[field]);
+      if (key === null) return;
+
+      const ids = state.indexes.get(field)?.get(key);
+      ids?.delete(item.id);
+      if (ids?.size === 0) state.indexes.get(field)?.delete(key);
+    });
+  };
+
+  const parseItem = (id: string, storedItem: string | null): T | null => {
+    if (!storedItem) return null;
+
+    try {
+      return JSON.parse(storedItem);
+    } catch (error) {
+      console.warn(`Dropping unreadable item ${id} from the ${name} repository:`, error);
+      return null;
+    }
+  };
+
+  /**
+   * Reads the collection through secureStorage, which rejects when the storage can't be read,
+   * so a failed load is retried instead of being cached as an empty collection the next write would persist
+   */
+  const loadState = async (): Promise<CollectionState<T>> => {
+    const storedIds = await secureStorage.getItem(idsKey);
+    const ids: string[] = storedIds ? JSON.parse(storedIds) : [];
+    const storedItems: Record<string, string | null> = ids.length > 0
+      ? Object.fromEntries(await secureStorage.multiGet(ids.map(itemKey)))
+      : {};
+
+    const state: CollectionState<T> = {
+      ids: [],
+      items: new Map(),
+      indexes: new Map(indexes.map(field => [field, new Map()])),
+    };
+
+    ids.forEach(id => {
+      // A missing or corrupted item is dropped instead of failing the whole collection
+      const item = parseItem(id, storedItems[itemKey(id)]);
+      if (!item) return;
+
+      state.ids.push(id);
+      state.items.set(id, item);
+      addToIndexes(state, item);
+    });
+
+    return state;
+  };
+
+  const getState = (): Promise<CollectionState<T>> => {
+    if (!statePromise) {
+      statePromise = loadState();
+
+      // Allow a later call to retry if the collection could not be loaded
+      statePromise.catch(() => {
+        statePromise = null;
+      });
+    }
+
+    return statePromise;
+  };
+
+  /**
+   * Runs writes one at a time, so concurrent calls don't overwrite each other's list of ids
+   */
+  const runExclusive = <R>(task: () => Promise<R>): Promise<R> => {
+    const result = writeQueue.then(task);
+    writeQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  const notify = (change: RepositoryChange<T>) => {
+    listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error(`Error in ${name} repository listener:`, error);
+      }
+    });
+  };
+
+  const assertWritten = (isWritten: boolean) => {
+    if (!isWritten) throw new RepositoryError('WRITE_FAILED');
+  };
+
+  // Items are deep-copied on the way in and out so callers can't change the cached ones, nested values included.
+  // Going through JSON keeps the cached items identical to what a reload would read back.
+  const copy = (item: T): T => JSON.parse(JSON.stringify(item));
+
+  const getById = async (id: string): Promise<T | null> => {
+    const item = (await getState()).items.get(id);
+    return item ? copy(item) : null;
+  };
+
+  const getAll = async (): Promise<T[]> => {
+    const state = await getState();
+    return state.ids.map(id => copy(state.items.get(id) as T));
+  };
+
+  const findBy = async <K extends F>(field: K, value: T[K]): Promise<T[]> => {
+    const state = await getState();
+    const ids = state.indexes.get(field)?.get(toIndexKey(value) ?? '') ?? new Set<string>();
+
+    return state.ids.filter(id => ids.has(id)).map(id => copy(state.items.get(id) as T));
+  };
+
+  const query = async ({
+    where,
+    filter,
+    sortBy,
+    order = 'asc',
+    offset = 0,
+    limit,
+  }: QueryOptions<T, F> = {}): Promise<Page<T>> => {
+    const state = await getState();
+    let ids = state.ids;
+
+    // Narrow down through the indexes first, so the filter only sees candidates
+    Object.entries(where ?? {}).forEach(([field, value]) => {
+      const matchingIds = state.indexes.get(field)?.get(toIndexKey(value) ?? '') ?? new Set<string>();
+      ids = ids.filter(id => matchingIds.has(id));
+    });
+
+    let items = ids.map(id => state.items.get(id) as T);
+    if (filter) items = items.filter(filter);
+
+    if (sortBy) {
+      const compare = typeof sortBy === 'function'
+        ? (a: T, b: T) => (order === 'desc' ? -sortBy(a, b) : sortBy(a, b))
+        : (a: T, b: T) => compareValues(a[sortBy], b[sortBy], order);
+      items = [...items].sort(compare);
+    }
+
+    const end = limit === undefined ? items.length : offset + limit;
+
+    return {
+      items: items.slice(offset, end).map(copy),
+      total: items.length,
+      offset,
+      hasMore: end < items.length,
+    };
+  };
+
+  const count = async (filter?: (item: T) => boolean): Promise<number> => {
+    const state = await getState();
+    return filter ? Array.from(state.items.values()).filter(filter).length : state.ids.length;
+  };
+
+  const insertMany = (data: NewEntity<T>[]): Promise<T[]> => runExclusive(async () => {
+    const state = await getState();
+    const newItems = data.map(itemData => copy({ ...itemData, id: itemData.id ?? generateId() } as T));
+    const newIds = newItems.map(item => item.id);
+
+    if (newIds.some((id, index) => state.items.has(id) || newIds.indexOf(id) !== index)) {
+      throw new RepositoryError('DUPLICATE_ID');
+    }
+
+    const ids = [...state.ids, ...newIds];
+    assertWritten(await safeStorage.multiSet([
+      ...newItems.map((item): [string, string] => [itemKey(item.id), JSON.stringify(item)]),
+      [idsKey, JSON.stringify(ids)],
+    ]));
+
+    state.ids = ids;
+    newItems.forEach(item => {
+      state.items.set(item.id, item);
+      addToIndexes(state, item);
+    });
+
+    notify({ type: 'insert', items: newItems.map(copy) });
+    return newItems.map(copy);
+  });
+
+  const insert = async (data: NewEntity<T>): Promise<T> => {
+    const [item] = await insertMany([data]);
+    return item;
+  };
+
+  const update = (id: string, changes: Partial<Omit<T, 'id'>>): Promise<T> => runExclusive(async () => {
+    const state = await getState();
+    const previous = state.items.get(id);
+    if (!previous) throw new RepositoryError('NOT_FOUND');
+
+    const item = copy({ ...previous, ...changes, id } as T);
+    assertWritten(await safeStorage.setItem(itemKey(id), JSON.stringify(item)));
+
+    removeFromIndexes(state, previous);
+    state.items.set(id, item);
+    addToIndexes(state, item);
+
+    notify({ type: 'update', item: copy(item), previous: copy(previous) });
+    return copy(item);
+  });
+
+  const remove = (id: string): Promise<void> => runExclusive(async () => {
+    const state = await getState();
+    const item = state.items.get(id);
+    if (!item) return;
+
+    // The id goes first, a leftover item key is never read again
+    const ids = state.ids.filter(itemId => itemId !== id);
+    assertWritten(await safeStorage.setItem(idsKey, JSON.stringify(ids)));
+    await safeStorage.multiRemove([itemKey(id)]);
+
+    state.ids = ids;
+    state.items.delete(id);
+    removeFromIndexes(state, item);
+
+    notify({ type: 'remove', item: copy(item) });
+  });
+
+  const clear = (): Promise<void> => runExclusive(async () => {
+    const state = await getState();
+    assertWritten(await safeStorage.multiRemove([idsKey, ...state.ids.map(itemKey)]));
+
+    state.ids = [];
+    state.items.clear();
+    state.indexes.forEach(index => index.clear());
+
+    notify({ type: 'clear' });
+  });
+
+  const subscribe = (listener: RepositoryListener<T>) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    getById,
+    getAll,
+    findBy,
+    query,
+    count,
+    insert,
+    insertMany,
+    update,
+    remove,
+    clear,
+    subscribe,
+  };
+};
@@ -0,0 +1,52 @@
+import { secureStorage } from './secure-storage';
+
+/**
+ * Safely executes encrypted storage operations with error handling
+ * Failures are logged and reported through the return value instead of rejecting
+ */
+export const safeStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    try {
+      return await secureStorage.getItem(key);
+    } catch (error) {
+      console.error(`Error retrieving ${key} from secure storage:`, error);
+      return null;
+    }
+  },
+  multiGet: async (keys: string[]): Promise<Record<string, string | null>> => {
+    try {
+      const pairs = await secureStorage.multiGet(keys);
+      return Object.fromEntries(pairs);
+    } catch (error) {
+      console.error(`Error retrieving multiple keys from secure storage:`, error);
+      return {};
+    }
+  },
+  setItem: async (key: string, value: string): Promise<boolean> => {
+    try {
+      await secureStorage.setItem(key, value);
+      return true;
+    } catch (error) {
+      console.error(`Error storing ${key} in secure storage:`, error);
+      return false;
+    }
+  },
+  multiSet: async (keyValuePairs: [string, string][]): Promise<boolean> => {
+    try {
+      await secureStorage.multiSet(keyValuePairs);
+      return true;
+    } catch (error) {
+      console.error(`Error storing multiple keys in secure storage:`, error);
+      return false;
+    }
+  },
+  multiRemove: async (keys: string[]): Promise<boolean> => {
+    try {
+      await secureStorage.multiRemove(keys);
+      return true;
+    } catch (error) {
+      console.error(`Error removing keys from secure storage:`, error);
+      return false;
+    }
+  },
+};
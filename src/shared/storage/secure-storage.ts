@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+
+/**
+ * Key-value storage that encrypts every value before it reaches AsyncStorage.
+ * Mirrors the subset of the AsyncStorage API used by the app and, like it,
+ * rejects on failure so callers can decide how to recover.
+ */
+export interface SecureStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  multiGet: (keys: string[]) => Promise<[string, string | null][]>;
+  multiSet: (keyValuePairs: [string, string][]) => Promise<void>;
+  multiRemove: (keys: string[]) => Promise<void>;
+  getLegacyItems: (keys: string[]) => Promise<[string, string][]>;
+  encryptLegacyItems: (keys: string[]) => Promise<number>;
+  deleteDeviceKey: () => Promise<void>;
+}
+
+// SecureStore keys only accept alphanumeric characters, ".", "-" and "_"
+const DEVICE_KEY_NAME = 'PhysiPro.storageKey';
+
+// Used only where the platform has no keychain (web)
+export const FALLBACK_DEVICE_KEY = '@PhysiPro:storageKey';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+
+let deviceKeyPromise: Promise<Uint8Array> | null = null;
+
+/**
+ * Reads the device key from the given store, creating it on first use
+ */
+const loadOrCreateKey = async (
+  read: () => Promise<string | null>,
+  write: (value: string) => Promise<void>,
+): Promise<Uint8Array> => {
+  const storedKey = await read();
+  if (storedKey) return hexToBytes(storedKey);
+
+  const newKey = Crypto.getRandomBytes(KEY_LENGTH);
+  await write(bytesToHex(newKey));
+  return newKey;
+};
+
+/**
+ * Get the device-held encryption key.
+ * The key lives in the platform keychain/keystore; on web, where there is no keychain,
+ * it falls back to local storage so the app keeps working with reduced protection.
+ */
+const getDeviceKey = (): Promise<Uint8Array> => {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = (async () => {
+      const isKeychainAvailable = await SecureStore.isAvailableAsync();
+
+      if (isKeychainAvailable) {
+        return loadOrCreateKey(
+          () => SecureStore.getItemAsync(DEVICE_KEY_NAME),
+          value => SecureStore.setItemAsync(DEVICE_KEY_NAME, value, {
+            keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+          }),
+        );
+      }
+
+      console.warn('Secure keychain unavailable on this platform, storing encryption key locally');
+      return loadOrCreateKey(
+        () => AsyncStorage.getItem(FALLBACK_DEVICE_KEY),
+        value => AsyncStorage.setItem(FALLBACK_DEVICE_KEY, value),
+      );
+    })();
+
+    // Allow a later call to retry if the key could not be loaded
+    deviceKeyPromise.catch(() => {
+      deviceKeyPromise = null;
+    });
+  }
+
+  return deviceKeyPromise;
+};
+
+const isEncrypted = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+const encrypt = async (value: string): Promise<string> => {
+  const key = await getDeviceKey();
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const cipherText = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(value));
+
+  return `${ENCRYPTED_PREFIX}${bytesToHex(nonce)}:${bytesToHex(cipherText)}`;
+};
+
+/**
+ * Decrypts a stored value. Plaintext values are rejected rather than trusted: the ones written
+ * before encryption was introduced are encrypted by a startup migration and never read as they are.
+ */
+const decrypt = async (value: string): Promise<string> => {
+  if (!isEncrypted(value)) {
+    throw new Error('Stored value is not encrypted');
+  }
+
+  const [nonceHex, cipherTextHex] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const key = await getDeviceKey();
+  const plainText = xchacha20poly1305(key, hexToBytes(nonceHex)).decrypt(hexToBytes(cipherTextHex));
+
+  return bytesToUtf8(plainText);
+};
+
+export const secureStorage: SecureStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    const value = await AsyncStorage.getItem(key);
+    return value === null ? null : decrypt(value);
+  },
+  setItem: async (key: string, value: string): Promise<void> => {
+    await AsyncStorage.setItem(key, await encrypt(value));
+  },
+  multiGet: async (keys: string[]): Promise<[string, string | null][]> => {
+    const pairs = await AsyncStorage.multiGet(keys);
+    return Promise.all(
+      pairs.map(async ([key, value]): Promise<[string, string | null]> => [
+        key,
+        value === null ? null : await decrypt(value),
+      ]),
+    );
+  },
+  multiSet: async (keyValuePairs: [string, string][]): Promise<void> => {
+    const encryptedPairs = await Promise.all(
+      keyValuePairs.map(async ([key, value]): Promise<[string, string]> => [key, await encrypt(value)]),
+    );
+    await AsyncStorage.multiSet(encryptedPairs);
+  },
+  multiRemove: async (keys: string[]): Promise<void> => {
+    await AsyncStorage.multiRemove(keys);
+  },
+  /**
+   * Reads the plaintext values stored under the given keys, skipping missing and encrypted ones
+   */
+  getLegacyItems: async (keys: string[]): Promise<[string, string][]> => {
+    const pairs = await AsyncStorage.multiGet(keys);
+    return pairs.filter((pair): pair is [string, string] => pair[1] !== null && !isEncrypted(pair[1]));
+  },
+  /**
+   * Re-writes any plaintext values stored under the given keys in encrypted form
+   * Returns the number of values that were migrated
+   */
+  encryptLegacyItems: async (keys: string[]): Promise<number> => {
+    const legacyPairs = await secureStorage.getLegacyItems(keys);
+
+    if (legacyPairs.length === 0) return 0;
+
+    await secureStorage.multiSet(legacyPairs);
+    return legacyPairs.length;
+  },
+  /**
+   * Deletes the device key, a new one is created on the next write
+   * Values encrypted with the old key can no longer be read, so only use it once they were removed
+   */
+  deleteDeviceKey: async (): Promise<void> => {
+    deviceKeyPromise = null;
+
+    if (await SecureStore.isAvailableAsync()) {
+      await SecureStore.deleteItemAsync(DEVICE_KEY_NAME);
+    }
+    await AsyncStorage.removeItem(FALLBACK_DEVICE_KEY);
+  },
+};
+
+export default secureStorage;